@@ -1,9 +1,33 @@
-import { Paper, ArxivPaper } from '../types.js';
+import { Paper, ArxivPaper, DomainProfile } from '../types.js';
+import { isRelevantToDomain } from '../domain/domainProfile.js';
+import { normalizeArxivId } from '../arxiv/arxivId.js';
+import { parseArxivFeed } from '../arxiv/atomParser.js';
+import { rateLimiter, RateLimits } from '../scheduling/rateLimiter.js';
+import { fetchWithTimeout, withRetry } from '../scheduling/retry.js';
+
+const ARXIV_HEADERS = { 'User-Agent': 'AcademicKnowledgeGraph/1.0' };
+
+// arXiv asks for no more than one request every ~3 seconds
+export const ARXIV_RATE_LIMITS: RateLimits = { minIntervalMs: 3000 };
+
+// Results per search request, and the most results one relevance search reads
+// before giving up on filling its limit
+const SEARCH_PAGE_SIZE = 100;
+const MAX_SEARCH_RESULTS = 1000;
+
+export interface ArxivSearchPage {
+  start: number;
+  papers: ArxivPaper[];
+  // opensearch:totalResults, the number of matches for the whole query
+  totalResults: number;
+}
 
 export class ArxivAgent {
   private baseUrl = 'http://export.arxiv.org/api/query';
+  // Shared with FullTextAgent's PDF downloads
+  private limiter = rateLimiter('arxiv', ARXIV_RATE_LIMITS);
 
-  constructor() {
+  constructor(private profile: DomainProfile) {
     console.log('   ArxivAgent initialized ');
   }
 
@@ -13,337 +37,150 @@ export class ArxivAgent {
     const query = `id_list=${arxivId}&max_results=1`;
     const url = `${this.baseUrl}?${query}`;
     
-    let lastError: Error | null = null;
-    
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        console.log(`   Attempt ${attempt}/3: ${url}`);
-        
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 15000);
-        
-        const response = await fetch(url, { 
-          signal: controller.signal,
-          headers: {
-            'User-Agent': 'AcademicKnowledgeGraph/1.0'
-          }
-        });
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const text = await response.text();
-        
-        if (!text || text.length < 100) {
-          throw new Error('Empty response from arXiv API');
-        }
-
-        console.log(`   Raw response length: ${text.length} characters`);
-        
-        const paper = this.parseArxivResponse(text, arxivId);
-        
-        if (!paper) {
-          throw new Error('Failed to parse arXiv XML response');
-        }
-
-        // Validate required fields
-        if (!paper.authors || paper.authors.length === 0) {
-          throw new Error('No authors extracted from arXiv response');
-        }
-        if (!paper.title || paper.title.trim().length === 0) {
-          throw new Error('No title extracted from arXiv response');
-        }
-        if (!paper.abstract || paper.abstract.trim().length === 0) {
-          throw new Error('No abstract extracted from arXiv response');
-        }
-
-        console.log(`   Successfully retrieved: "${paper.title}"`);
-        console.log(`   Authors: ${paper.authors.slice(0, 3).join(', ')}${paper.authors.length > 3 ? '...' : ''}`);
-        return paper;
-
-      } catch (error: any) {
-        lastError = error;
-        console.log(`     Attempt ${attempt} failed: ${error.message}`);
-        
-        if (attempt < 3) {
-          const delay = 2000 * attempt;
-          console.log(`   ⏳ Retrying in ${delay}ms...`);
-          await this.sleep(delay);
-        }
-      }
-    }
-
-    throw new Error(`FAILED to fetch paper ${arxivId} from arXiv. Last error: ${lastError!.message}`);
-  }
-
-  private parseArxivResponse(xmlText: string, arxivId: string): Paper {
-    try {
-      console.log(`   Parsing arXiv XML response...`);
-      
-      // Extract title
-      const titleMatch = xmlText.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
-      const title = titleMatch ? titleMatch[1].replace(/\s+/g, ' ').trim().replace(/^\s*Title:\s*/i, '') : '';
-      
-      // Extract summary/abstract
-      const abstractMatch = xmlText.match(/<summary[^>]*>([\s\S]*?)<\/summary>/i);
-      const abstract = abstractMatch ? abstractMatch[1].replace(/\s+/g, ' ').trim() : '';
-      
-      // Extract published date
-      const publishedMatch = xmlText.match(/<published[^>]*>([\s\S]*?)<\/published>/i);
-      const published = publishedMatch ? publishedMatch[1].trim() : new Date().toISOString();
+    return withRetry(`fetch paper ${arxivId} from arXiv`, async attempt => {
+      console.log(`   Attempt ${attempt}/3: ${url}`);
 
-      // Extract authors using robust regex
-      const authors: string[] = [];
-      const authorRegex = /<author>[\s\S]*?<name>([^<]+)<\/name>[\s\S]*?<\/author>/gi;
-      let authorMatch;
+      const response = await fetchWithTimeout(url, { headers: ARXIV_HEADERS }, 15000);
+      const text = await response.text();
       
-      while ((authorMatch = authorRegex.exec(xmlText)) !== null) {
-        if (authorMatch[1] && authorMatch[1].trim()) {
-          authors.push(authorMatch[1].trim());
-        }
+      if (!text || text.length < 100) {
+        throw new Error('Empty response from arXiv API');
       }
 
-      // If no authors found with first method, try alternative method
-      if (authors.length === 0) {
-        const altAuthorRegex = /<name>([^<]+)<\/name>/gi;
-        let altMatch;
-        while ((altMatch = altAuthorRegex.exec(xmlText)) !== null) {
-          // Skip if it's inside other tags that aren't author names
-          const context = xmlText.substring(Math.max(0, altMatch.index - 50), Math.min(xmlText.length, altMatch.index + 50));
-          if (!context.includes('<journal>') && !context.includes('<book>')) {
-            authors.push(altMatch[1].trim());
-          }
-        }
+      const feed = parseArxivFeed(text);
+      const paper = feed.entries[0];
+      if (!paper) {
+        throw new Error(`Paper ${arxivId} not found on arXiv${feed.skipped.length > 0 ? ` (${feed.skipped[0]})` : ''}`);
       }
 
-      // Extract categories
-      const categories: string[] = [];
-      const categoryRegex = /<category[^>]*term="([^"]*)"/gi;
-      let categoryMatch;
-      while ((categoryMatch = categoryRegex.exec(xmlText)) !== null) {
-        if (categoryMatch[1]) {
-          categories.push(categoryMatch[1]);
-        }
-      }
-
-      // Ensure we have at least one author
-      if (authors.length === 0) {
-        authors.push('Unknown Author');
-        console.log(`     No authors found, using default`);
+      // Validate required fields
+      if (!paper.authors || paper.authors.length === 0) {
+        throw new Error('No authors extracted from arXiv response');
       }
-
-      // Validate critical fields
-      if (!title) {
-        throw new Error('Could not extract title from arXiv response');
+      if (!paper.title || paper.title.trim().length === 0) {
+        throw new Error('No title extracted from arXiv response');
       }
-      if (!abstract) {
-        throw new Error('Could not extract abstract from arXiv response');
+      if (!paper.abstract || paper.abstract.trim().length === 0) {
+        throw new Error('No abstract extracted from arXiv response');
       }
 
-      const paper: Paper = {
-        arxiv_id: arxivId,
-        title,
-        authors,
-        abstract,
-        published_date: published,
-        pdf_url: `https://arxiv.org/pdf/${arxivId}.pdf`,
-        categories: categories.length > 0 ? categories : ['cs.CV']
-      };
-
-      console.log(`   Parsed: "${paper.title.substring(0, 60)}..."`);
-      console.log(`   Found ${paper.authors.length} authors`);
-      console.log(`   Abstract: ${paper.abstract.length} chars`);
-      
+      console.log(`   Successfully retrieved: "${paper.title}"`);
+      console.log(`   Authors: ${paper.authors.slice(0, 3).join(', ')}${paper.authors.length > 3 ? '...' : ''}`);
       return paper;
-
-    } catch (error: any) {
-      console.error(`   XML parsing failed: ${error.message}`);
-      
-      // Log a sample of the XML for debugging
-      const sample = xmlText.substring(0, 500);
-      console.log(`    XML sample: ${sample}...`);
-      
-      throw new Error(`Failed to parse arXiv response: ${error.message}`);
-    }
+    }, { limiter: this.limiter });
   }
 
+  /**
+   * Newest papers matching any of the keywords within the profile's arXiv
+   * categories, keeping those the profile considers relevant
+   */
   async searchRelatedPapers(
-    seminalPaperId: string, 
+    excludeIds: string[],
     limit: number = 50,
-    keywords: string[] = ['gaussian splatting', '3DGS', 'radiance field']
+    keywords: string[] = this.profile.search_keywords
   ): Promise<ArxivPaper[]> {
-    console.log(`   Searching arXiv for Gaussian Splatting papers...`);
-    
-    const searchTerms = keywords.map(term => `all:"${term}"`).join(' OR ');
-    const query = `search_query=${encodeURIComponent(searchTerms)}&start=0&max_results=${limit}&sortBy=submittedDate&sortOrder=descending`;
-    const url = `${this.baseUrl}?${query}`;
-    
-    let lastError: Error | null = null;
-    
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        console.log(`   Search attempt ${attempt}/3`);
-        
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 20000);
-        
-        const response = await fetch(url, { 
-          signal: controller.signal,
-          headers: {
-            'User-Agent': 'AcademicKnowledgeGraph/1.0'
-          }
-        });
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const text = await response.text();
-        
-        if (!text || text.length < 100) {
-          throw new Error('Empty response from arXiv search');
-        }
-
-        const papers = this.parseSearchResponse(text);
-        
-        // Filter out seminal paper and ensure relevance
-        const relevantPapers = papers
-          .filter(paper => paper.arxiv_id !== seminalPaperId)
-          .filter(paper => this.isRelevantToGaussianSplatting(paper))
-          .slice(0, limit);
+    console.log(`   Searching arXiv for ${this.profile.name} papers...`);
+    if (limit <= 0) return [];
+
+    const excluded = new Set(excludeIds.map(normalizeArxivId));
+    const relevantPapers: ArxivPaper[] = [];
+    let read = 0;
+    let totalResults = 0;
+    for await (const page of this.searchPages(this.domainQuery(keywords), 'descending')) {
+      read += page.papers.length;
+      totalResults = page.totalResults;
+
+      // Filter out the seed papers and ensure relevance
+      relevantPapers.push(...page.papers
+        .filter(paper => !excluded.has(paper.arxiv_id))
+        .filter(paper => this.isRelevant(paper)));
+      console.log(`   Read ${read}/${totalResults} results, ${Math.min(relevantPapers.length, limit)}/${limit} relevant`);
+
+      if (relevantPapers.length >= limit || read >= MAX_SEARCH_RESULTS) break;
+    }
 
-        console.log(`   Found ${relevantPapers.length} relevant papers`);
-        return relevantPapers;
+    console.log(`   Found ${Math.min(relevantPapers.length, limit)} relevant papers in ${read} of ${totalResults} results`);
+    return relevantPapers.slice(0, limit);
+  }
 
-      } catch (error: any) {
-        lastError = error;
-        console.log(`     Search attempt ${attempt} failed: ${error.message}`);
-        
-        if (attempt < 3) {
-          const delay = 3000 * attempt;
-          console.log(`   Retrying search in ${delay}ms...`);
-          await this.sleep(delay);
-        }
-      }
+  /**
+   * Pages of results for a raw arXiv query, sorted by submission date, until the
+   * query's total is reached. Requests are paced by the arXiv rate limiter.
+   */
+  async *searchPages(
+    searchQuery: string,
+    sortOrder: 'ascending' | 'descending',
+    pageSize: number = SEARCH_PAGE_SIZE
+  ): AsyncGenerator<ArxivSearchPage> {
+    for (let start = 0; ; start += pageSize) {
+      const page = await this.fetchSearchPage(searchQuery, start, pageSize, sortOrder);
+      yield page;
+      if (page.papers.length === 0 || start + pageSize >= page.totalResults) return;
     }
+  }
 
-    throw new Error(`FAILED to search arXiv for related papers. Last error: ${lastError!.message}`);
+  /**
+   * Newest papers matching a raw arXiv query, without the domain keyword filter,
+   * for strategies that judge relevance themselves
+   */
+  async searchPapers(searchQuery: string, limit: number): Promise<ArxivPaper[]> {
+    return (await this.fetchSearchPage(searchQuery, 0, limit, 'descending')).papers;
   }
 
-  private parseSearchResponse(xmlText: string): ArxivPaper[] {
+  /**
+   * Every paper matching a raw arXiv query, oldest submission first
+   */
+  async searchAllPapers(searchQuery: string): Promise<ArxivPaper[]> {
     const papers: ArxivPaper[] = [];
-    
-    try {
-      console.log(`   Parsing search response...`);
-      
-      // Split by entry tags
-      const entries = xmlText.split('<entry>');
-      
-      for (let i = 1; i < entries.length; i++) { // Skip first part (before first <entry>)
-        const entry = entries[i].split('</entry>')[0]; // Get content before closing tag
-        if (entry) {
-          try {
-            const paper = this.parseSearchEntry(entry);
-            if (paper) {
-              papers.push(paper);
-            }
-          } catch (error) {
-            console.log(`     Failed to parse one entry: ${error}`);
-          }
-        }
-      }
-
-      if (papers.length === 0) {
-        throw new Error('No valid papers found in search response');
-      }
-
-      return papers;
-
-    } catch (error: any) {
-      throw new Error(`Failed to parse search response: ${error.message}`);
+    for await (const page of this.searchPages(searchQuery, 'ascending')) {
+      papers.push(...page.papers);
+      console.log(`   Fetched ${papers.length}/${page.totalResults} results for ${searchQuery}`);
     }
+    return papers;
   }
 
-  private parseSearchEntry(entryXml: string): ArxivPaper {
-    try {
-      // Extract title
-      const titleMatch = entryXml.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
-      const title = titleMatch ? titleMatch[1].replace(/\s+/g, ' ').trim().replace(/^\s*Title:\s*/i, '') : '';
-      
-      // Extract summary/abstract
-      const abstractMatch = entryXml.match(/<summary[^>]*>([\s\S]*?)<\/summary>/i);
-      const abstract = abstractMatch ? abstractMatch[1].replace(/\s+/g, ' ').trim() : '';
-      
-      // Extract published date
-      const publishedMatch = entryXml.match(/<published[^>]*>([\s\S]*?)<\/published>/i);
-      const published = publishedMatch ? publishedMatch[1].trim() : new Date().toISOString();
-      
-      // Extract ID
-      const idMatch = entryXml.match(/<id[^>]*>([\s\S]*?)<\/id>/i);
-      const idContent = idMatch ? idMatch[1].trim() : '';
-      const arxivId = idContent.split('/').pop() || '';
+  /**
+   * The profile's keywords, limited to its arXiv categories, as an arXiv query
+   */
+  domainQuery(keywords: string[] = this.profile.search_keywords): string {
+    const keywordTerms = keywords.map(term => `all:"${term}"`).join(' OR ');
+    const categoryTerms = this.profile.arxiv_categories.map(category => `cat:${category}`).join(' OR ');
+    return categoryTerms ? `(${keywordTerms}) AND (${categoryTerms})` : keywordTerms;
+  }
 
-      // Extract authors
-      const authors: string[] = [];
-      const authorRegex = /<author>[\s\S]*?<name>([^<]+)<\/name>[\s\S]*?<\/author>/gi;
-      let authorMatch;
-      
-      while ((authorMatch = authorRegex.exec(entryXml)) !== null) {
-        if (authorMatch[1] && authorMatch[1].trim()) {
-          authors.push(authorMatch[1].trim());
-        }
-      }
+  private async fetchSearchPage(
+    searchQuery: string,
+    start: number,
+    maxResults: number,
+    sortOrder: 'ascending' | 'descending'
+  ): Promise<ArxivSearchPage> {
+    const query = `search_query=${encodeURIComponent(searchQuery)}&start=${start}&max_results=${maxResults}&sortBy=submittedDate&sortOrder=${sortOrder}`;
+    const url = `${this.baseUrl}?${query}`;
 
-      // Ensure we have at least one author
-      if (authors.length === 0) {
-        authors.push('Unknown Author');
-      }
+    return withRetry(`search arXiv for ${searchQuery}`, async () => {
+      const response = await fetchWithTimeout(url, { headers: ARXIV_HEADERS }, 30000);
+      const text = await response.text();
 
-      // Validate required fields
-      if (!title) {
-        throw new Error('Missing title in search entry');
+      if (!text || text.length < 100) {
+        throw new Error('Empty response from arXiv search');
       }
-      if (!abstract) {
-        throw new Error('Missing abstract in search entry');
-      }
-      if (!arxivId) {
-        throw new Error('Missing arXiv ID in search entry');
+      const feed = parseArxivFeed(text);
+      for (const reason of feed.skipped) {
+        console.log(`     Skipped one entry: ${reason}`);
       }
+      const papers = feed.entries;
+      const totalResults = Math.max(feed.totalResults ?? 0, start + papers.length + feed.skipped.length);
 
-      // Extract categories
-      const categories: string[] = [];
-      const categoryRegex = /<category[^>]*term="([^"]*)"/gi;
-      let categoryMatch;
-      while ((categoryMatch = categoryRegex.exec(entryXml)) !== null) {
-        if (categoryMatch[1]) {
-          categories.push(categoryMatch[1]);
-        }
+      // arXiv occasionally serves an empty page in the middle of a result set
+      if (papers.length === 0 && feed.skipped.length === 0 && start < totalResults) {
+        throw new Error(`Empty page at ${start} of ${totalResults} results`);
       }
-
-      return {
-        arxiv_id: arxivId,
-        title,
-        authors,
-        abstract,
-        published_date: published,
-        pdf_url: `https://arxiv.org/pdf/${arxivId}.pdf`,
-        categories: categories.length > 0 ? categories : ['cs.CV']
-      };
-    } catch (error: any) {
-      throw new Error(`Failed to parse search entry: ${error.message}`);
-    }
+      return { start, papers, totalResults };
+    }, { limiter: this.limiter, baseDelayMs: 3000 });
   }
 
-  private isRelevantToGaussianSplatting(paper: ArxivPaper): boolean {
-    const content = `${paper.title} ${paper.abstract}`.toLowerCase();
-    const primaryKeywords = ['gaussian splatting', '3dgs', 'gaussian splat'];
-    const secondaryKeywords = ['radiance field', 'novel view synthesis', '3d reconstruction', 'neural rendering'];
-    
-    const isRelevant = primaryKeywords.some(keyword => content.includes(keyword)) ||
-                      secondaryKeywords.some(keyword => content.includes(keyword));
+  private isRelevant(paper: ArxivPaper): boolean {
+    const isRelevant = isRelevantToDomain(this.profile, paper);
     
     if (!isRelevant) {
       console.log(`   Filtered out irrelevant paper: ${paper.title.substring(0, 60)}...`);
@@ -352,7 +189,4 @@ export class ArxivAgent {
     return isRelevant;
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
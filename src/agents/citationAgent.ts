@@ -0,0 +1,118 @@
+import type { GraphStore } from '../database/graphStore.js';
+import type { ArxivPaper, CitationProvider, CitedPaper } from '../types.js';
+
+interface Neighbours {
+  references: CitedPaper[];
+  citations: CitedPaper[];
+}
+
+// Citing papers fetched per paper; the provider returns the most cited first where it can
+const CITATIONS_PER_PAPER = 100;
+// Papers whose neighbours discovery looks at, seed first, to bound the API calls per build
+const MAX_DISCOVERY_SOURCES = 25;
+
+export class CitationAgent {
+  // One lookup per paper per process; discovery and edge linking share it
+  private neighbourCache = new Map<string, Promise<Neighbours>>();
+
+  constructor(private provider: CitationProvider) {
+    console.log(`   CitationAgent initialized (${provider.name})`);
+  }
+
+  /**
+   * Papers that cite or are cited by the sources, ranked by how many sources they
+   * are linked to. Papers in `exclude` (already in the graph) are left out.
+   */
+  async discoverPapers(sources: string[], exclude: Set<string>, limit: number): Promise<ArxivPaper[]> {
+    if (limit <= 0) return [];
+
+    const candidates = new Map<string, { paper: CitedPaper; links: number }>();
+    for (const source of sources.slice(0, MAX_DISCOVERY_SOURCES)) {
+      let neighbours: Neighbours;
+      try {
+        neighbours = await this.neighbours(source);
+      } catch (error: any) {
+        console.error(`   Citation lookup failed for ${source}: ${error.message}`);
+        continue;
+      }
+
+      // A paper both citing and cited by the same source still counts once for it
+      const seen = new Set<string>();
+      for (const paper of [...neighbours.references, ...neighbours.citations]) {
+        const arxivId = stripVersion(paper.arxiv_id);
+        if (exclude.has(arxivId) || seen.has(arxivId)) continue;
+        seen.add(arxivId);
+
+        const candidate = candidates.get(arxivId);
+        if (candidate) {
+          candidate.links++;
+        } else {
+          candidates.set(arxivId, { paper: { ...paper, arxiv_id: arxivId }, links: 1 });
+        }
+      }
+    }
+
+    console.log(`   ${candidates.size} citation neighbours of ${Math.min(sources.length, MAX_DISCOVERY_SOURCES)} papers`);
+    return [...candidates.values()]
+      .sort((a, b) => b.links - a.links)
+      .slice(0, limit)
+      .map(({ paper }) => toArxivPaper(paper));
+  }
+
+  /**
+   * Stores `cites` edges between the paper and every paper in the graph it cites
+   * or is cited by. Returns the number of edges written.
+   */
+  async linkPaper(paperId: string, arxivId: string, db: GraphStore): Promise<number> {
+    const { references, citations } = await this.neighbours(arxivId);
+    const stored = new Map((await db.listPapers()).map(paper => [stripVersion(paper.arxiv_id), paper.id]));
+    const evidence = `Citation listed by ${this.provider.name}`;
+    let linked = 0;
+
+    for (const reference of references) {
+      const targetId = stored.get(stripVersion(reference.arxiv_id));
+      if (!targetId || targetId === paperId) continue;
+      await db.upsertPaperRelationship({ source_paper_id: paperId, target_paper_id: targetId, relationship_type: 'cites', evidence, confidence: 1 });
+      linked++;
+    }
+    for (const citation of citations) {
+      const sourceId = stored.get(stripVersion(citation.arxiv_id));
+      if (!sourceId || sourceId === paperId) continue;
+      await db.upsertPaperRelationship({ source_paper_id: sourceId, target_paper_id: paperId, relationship_type: 'cites', evidence, confidence: 1 });
+      linked++;
+    }
+    return linked;
+  }
+
+  private neighbours(arxivId: string): Promise<Neighbours> {
+    const key = stripVersion(arxivId);
+    let lookup = this.neighbourCache.get(key);
+    if (!lookup) {
+      lookup = Promise.all([
+        this.provider.getReferences(key),
+        this.provider.getCitations(key, CITATIONS_PER_PAPER)
+      ]).then(([references, citations]) => ({ references, citations }));
+      // A failed lookup may succeed on the next attempt
+      lookup.catch(() => this.neighbourCache.delete(key));
+      this.neighbourCache.set(key, lookup);
+    }
+    return lookup;
+  }
+}
+
+function stripVersion(arxivId: string): string {
+  return arxivId.replace(/v\d+$/, '');
+}
+
+// Only the ID, title and abstract matter before the paper is fetched from arXiv
+function toArxivPaper(paper: CitedPaper): ArxivPaper {
+  return {
+    arxiv_id: paper.arxiv_id,
+    title: paper.title,
+    authors: [],
+    abstract: paper.abstract ?? '',
+    published_date: paper.published_date ?? '',
+    pdf_url: `https://arxiv.org/pdf/${paper.arxiv_id}`,
+    categories: []
+  };
+}
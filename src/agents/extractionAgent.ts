@@ -1,44 +1,93 @@
-import { Paper, ExtractionResult, Concept, Method, Relationship, Dataset, Metric } from '../types.js';
+import { Paper, ExtractionResult, ExtractionCall, Concept, Method, Relationship, Dataset, Metric, LlmProvider, LlmRequest, SectionText, DomainProfile } from '../types.js';
+import { WorkScheduler } from '../scheduling/workScheduler.js';
+import { recordedCall } from '../llm/recordedCall.js';
+import { loadPromptTemplate, renderPromptTemplate, PromptTemplate } from '../prompts/promptTemplate.js';
+
+// Keeps a single section prompt within the model context window; longer sections are extracted in parts
+const MAX_SECTION_CHARS = 12000;
+
+/**
+ * Extraction that produced nothing, with the LLM calls it made on the way
+ */
+export class ExtractionError extends Error {
+  constructor(readonly calls: ExtractionCall[], message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
+
+// What papers are extracted with: an ExtractionAgent, or a SelfConsistencyAgent voting over several
+export type EntityExtractor = Pick<ExtractionAgent, 'extractEntities' | 'extractEntitiesFromSections'>;
 
 export class ExtractionAgent {
-  private apiKey: string;
-  private baseUrl = 'https://api.mistral.ai/v1';
+  private llm: LlmProvider;
 
-  constructor(apiKey: string) {
-    if (!apiKey || apiKey === 'your_mistral_api_key_here') {
-      throw new Error('VALID Mistral API key REQUIRED. Get one from: https://console.mistral.ai/');
-    }
-    this.apiKey = apiKey;
-    console.log('   ExtractionAgent initialized (REAL Mistral AI ONLY)');
+  constructor(llm: LlmProvider, private profile: DomainProfile, readonly template: PromptTemplate = loadPromptTemplate()) {
+    this.llm = llm;
+    console.log(`   ExtractionAgent initialized (${llm.name}: ${llm.config.model}, ${profile.name}, prompt ${template.name})`);
   }
 
   // Extract entities from a single paper
   async extractEntities(paper: Paper): Promise<ExtractionResult> {
-    console.log(`   Analyzing paper with REAL Mistral AI...`);
+    console.log(`   Analyzing paper with ${this.llm.name}...`);
     
-    const prompt = this.buildAnalysisPrompt(paper);
-    const response = await this.callMistralAPI(prompt);
-    const extraction = this.parseAIResponse(response, paper);
+    const calls: ExtractionCall[] = [];
+    let extraction: ExtractionResult;
+    try {
+      extraction = await this.extractFromSource(paper, { section: 'abstract', text: paper.abstract }, calls);
+    } catch (error: any) {
+      throw new ExtractionError(calls, error.message);
+    }
     
     console.log(`   AI extraction completed: ${extraction.concepts.length} concepts, ${extraction.relationships.length} relationships`);
+    return { ...extraction, calls };
+  }
+
+  // Extract entities section by section from the full text, tagging each entity with its section
+  async extractEntitiesFromSections(paper: Paper, sections: SectionText[]): Promise<ExtractionResult> {
+    const sources: SectionText[] = [{ section: 'abstract', text: paper.abstract }, ...sections];
+    const perSection: ExtractionResult[] = [];
+    const calls: ExtractionCall[] = [];
+
+    for (const source of sources) {
+      const parts = splitSectionText(source.text);
+      for (const [index, text] of parts.entries()) {
+        const label = parts.length > 1 ? `${source.section} section part ${index + 1}/${parts.length}` : `${source.section} section`;
+        console.log(`   Analyzing ${label} (${text.length} chars) with ${this.llm.name}...`);
+        try {
+          perSection.push(await this.extractFromSource(paper, { section: source.section, text }, calls));
+        } catch (error: any) {
+          console.error(`   ✗ Extraction failed for ${label}: ${error.message}`);
+        }
+      }
+    }
+
+    if (perSection.length === 0) {
+      throw new ExtractionError(calls, `Extraction failed for every section of ${paper.arxiv_id}`);
+    }
+
+    const extraction = { ...this.mergeSectionResults(perSection), calls };
+    console.log(`   AI extraction completed: ${extraction.concepts.length} concepts, ${extraction.methods.length} methods, ${extraction.datasets.length} datasets, ${extraction.metrics.length} metrics, ${extraction.relationships.length} relationships`);
     return extraction;
   }
 
-  // Extract entities from multiple papers
+  // Extract entities from multiple papers, one at a time
   async extractEntitiesFromMultiplePapers(papers: Paper[]): Promise<Map<string, ExtractionResult>> {
-    console.log(`\n   Starting batch extraction for ${papers.length} papers...`);
+    return this.extractEntitiesInParallel(papers, 1);
+  }
+
+  // Extract entities from multiple papers concurrently; the provider's rate limiter paces the calls
+  async extractEntitiesInParallel(papers: Paper[], concurrency: number = 3): Promise<Map<string, ExtractionResult>> {
+    console.log(`\n   Starting extraction for ${papers.length} papers (concurrency: ${concurrency})...`);
     const results = new Map<string, ExtractionResult>();
-    
-    for (let i = 0; i < papers.length; i++) {
-      const paper = papers[i];
-      console.log(`\n   [${i + 1}/${papers.length}] Processing: "${paper.title}"`);
-      
+
+    await new WorkScheduler(concurrency).run(papers, async (paper, index) => {
+      console.log(`\n   [${index + 1}/${papers.length}] Processing: "${paper.title}"`);
       try {
-        const extraction = await this.extractEntities(paper);
-        results.set(paper.arxiv_id, extraction);
-        console.log(`   ✓ Successfully extracted from paper ${i + 1}`);
+        results.set(paper.arxiv_id, await this.extractEntities(paper));
+        console.log(`   ✓ Successfully extracted from paper ${index + 1}`);
       } catch (error: any) {
-        console.error(`   ✗ Failed to extract from paper ${i + 1}: ${error.message}`);
+        console.error(`   ✗ Failed to extract from "${paper.title}": ${error.message}`);
         // Store empty result to maintain consistency
         results.set(paper.arxiv_id, {
           concepts: [],
@@ -48,180 +97,84 @@ export class ExtractionAgent {
           relationships: []
         });
       }
-      
-      // Add delay between papers to avoid rate limiting
-      if (i < papers.length - 1) {
-        console.log(`   Waiting 1s before next paper...`);
-        await this.sleep(1000);
-      }
-    }
-    
-    console.log(`\n   Batch extraction complete: ${results.size}/${papers.length} papers processed`);
-    return results;
-  }
+    });
 
-  // Extract entities from multiple papers in parallel (faster but may hit rate limits)
-  async extractEntitiesInParallel(papers: Paper[], concurrency: number = 3): Promise<Map<string, ExtractionResult>> {
-    console.log(`\n   Starting parallel extraction for ${papers.length} papers (concurrency: ${concurrency})...`);
-    const results = new Map<string, ExtractionResult>();
-    
-    // Process papers in batches
-    for (let i = 0; i < papers.length; i += concurrency) {
-      const batch = papers.slice(i, i + concurrency);
-      console.log(`\n   Processing batch ${Math.floor(i / concurrency) + 1} (papers ${i + 1}-${Math.min(i + concurrency, papers.length)})...`);
-      
-      const batchPromises = batch.map(async (paper) => {
-        try {
-          const extraction = await this.extractEntities(paper);
-          return { paperId: paper.arxiv_id, extraction, success: true };
-        } catch (error: any) {
-          console.error(`   ✗ Failed to extract from "${paper.title}": ${error.message}`);
-          return { 
-            paperId: paper.arxiv_id, 
-            extraction: {
-              concepts: [],
-              methods: [],
-              datasets: [],
-              metrics: [],
-              relationships: []
-            },
-            success: false
-          };
-        }
-      });
-      
-      const batchResults = await Promise.all(batchPromises);
-      batchResults.forEach(result => {
-        results.set(result.paperId, result.extraction);
-      });
-      
-      // Add delay between batches
-      if (i + concurrency < papers.length) {
-        console.log(`   Waiting 2s before next batch...`);
-        await this.sleep(2000);
-      }
-    }
-    
-    console.log(`\n   Parallel extraction complete: ${results.size}/${papers.length} papers processed`);
+    console.log(`\n   Extraction complete: ${results.size}/${papers.length} papers processed`);
     return results;
   }
 
-  private buildAnalysisPrompt(paper: Paper): string {
-    return `Analyze this computer vision research paper and extract structured knowledge as JSON:
-
-PAPER: "${paper.title}"
-AUTHORS: ${paper.authors.join(', ')}
-ABSTRACT: ${paper.abstract}
-
-Extract the following information as VALID JSON:
-
-1. CONCEPTS: Key technical concepts mentioned (include confidence 0-1)
-2. METHODS: Specific algorithms or techniques (mark if baseline)
-3. DATASETS: Evaluation datasets used  
-4. METRICS: Performance metrics reported
-5. RELATIONSHIPS: Semantic relationships between concepts with evidence from text
-
-Return ONLY valid JSON in this exact structure:
-{
-  "concepts": [
-    {
-      "name": "concept name",
-      "category": "method|technique|problem|domain|application|framework", 
-      "description": "brief description",
-      "confidence": 0.95
-    }
-  ],
-  "methods": [
-    {
-      "name": "method name",
-      "description": "what it does",
-      "is_baseline": false,
-      "confidence": 0.9
-    }
-  ],
-  "datasets": [
-    {
-      "name": "dataset name", 
-      "description": "what it contains"
-    }
-  ],
-  "metrics": [
-    {
-      "name": "metric name",
-      "unit": "optional unit",
-      "higher_is_better": true
-    }
-  ],
-  "relationships": [
-    {
-      "relationship_type": "introduces|extends|improves_on|evaluates|uses|compares|applies",
-      "target_concept": "concept name",
-      "evidence": "specific text evidence from abstract",
-      "confidence": 0.9
-    }
-  ]
-}
+  // Appends the call it makes to `calls`, whether or not it succeeds. `source` is an abstract
+  // or a part cut by splitSectionText, so within MAX_SECTION_CHARS
+  private async extractFromSource(paper: Paper, source: SectionText, calls: ExtractionCall[]): Promise<ExtractionResult> {
+    const { text } = source;
+    const request: LlmRequest = {
+      messages: [{ role: 'user', content: this.buildAnalysisPrompt(paper, { section: source.section, text }) }]
+    };
+    return recordedCall(this.llm, request, { section: source.section, prompt_version: this.template.name }, calls, (response, call) => {
+      const extraction = this.parseAIResponse(response.content, `${paper.title} ${text}`);
+      return this.tagSource(extraction, source.section, call.id);
+    });
+  }
 
-Focus on computer vision and 3D reconstruction concepts. Be precise and evidence-based.`;
+  private tagSource(extraction: ExtractionResult, section: SectionText['section'], extraction_id: string): ExtractionResult {
+    return {
+      concepts: extraction.concepts.map(concept => ({ ...concept, section, extraction_id })),
+      methods: extraction.methods.map(method => ({ ...method, section, extraction_id })),
+      datasets: extraction.datasets.map(dataset => ({ ...dataset, section, extraction_id })),
+      metrics: extraction.metrics.map(metric => ({ ...metric, section, extraction_id })),
+      relationships: extraction.relationships.map(rel => ({ ...rel, section, extraction_id }))
+    };
   }
 
-  private async callMistralAPI(prompt: string): Promise<string> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        console.log(`   Mistral AI API attempt ${attempt}/3...`);
-        
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000);
-        
-        const response = await fetch(`${this.baseUrl}/chat/completions`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'mistral-large-latest',
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.1,
-            max_tokens: 4000
-          }),
-          signal: controller.signal
-        });
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Mistral API ${response.status}: ${errorText.substring(0, 100)}`);
+  // The same entity usually shows up in several sections; keep the most confident mention
+  private mergeSectionResults(results: ExtractionResult[]): ExtractionResult {
+    // Datasets and metrics carry no confidence, so the first mention wins for them
+    const confidenceOf = (item: object): number => (item as { confidence?: number }).confidence ?? 0;
+    const pick = <T extends object>(items: T[], key: (item: T) => string): T[] => {
+      const byKey = new Map<string, T>();
+      for (const item of items) {
+        const k = key(item).toLowerCase();
+        const existing = byKey.get(k);
+        if (!existing || confidenceOf(item) > confidenceOf(existing)) {
+          byKey.set(k, item);
         }
+      }
+      return [...byKey.values()];
+    };
 
-        const data = await response.json();
-        const content = data.choices[0]?.message?.content;
-        
-        if (!content) {
-          throw new Error('Empty response content from Mistral AI');
-        }
+    return {
+      concepts: pick(results.flatMap(r => r.concepts), c => c.name),
+      methods: pick(results.flatMap(r => r.methods), m => m.name),
+      datasets: pick(results.flatMap(r => r.datasets), d => d.name),
+      metrics: pick(results.flatMap(r => r.metrics), m => m.name),
+      relationships: pick(results.flatMap(r => r.relationships), r => `${r.relationship_type}:${r.target_concept}`)
+    };
+  }
 
-        console.log(`   Mistral AI response received (${content.length} chars)`);
-        return content;
+  private buildAnalysisPrompt(paper: Paper, source: SectionText): string {
+    const sourceLabel = source.section === 'abstract' ? 'abstract' : `${source.section.replace('_', ' ')} section`;
+    const sourceBlock = source.section === 'abstract'
+      ? `ABSTRACT: ${source.text}`
+      : `ABSTRACT: ${paper.abstract}
 
-      } catch (error: any) {
-        lastError = error;
-        console.log(`     Mistral API attempt ${attempt} failed: ${error.message}`);
-        
-        if (attempt < 3) {
-          const delay = 2000 * attempt;
-          console.log(`   Retrying Mistral API in ${delay}ms...`);
-          await this.sleep(delay);
-        }
-      }
-    }
+${source.section.replace('_', ' ').toUpperCase()} SECTION: ${source.text}
+
+Extract only what is stated in the ${sourceLabel}; the abstract is context.`;
 
-    throw new Error(`FAILED to call Mistral AI API after 3 attempts. Last error: ${lastError!.message}`);
+    return renderPromptTemplate(this.template, {
+      field: this.profile.field,
+      focus: this.profile.prompt_focus,
+      categories: this.profile.concept_categories.join('|'),
+      title: paper.title,
+      authors: paper.authors.join(', '),
+      abstract: paper.abstract,
+      source_label: sourceLabel,
+      source_text: source.text,
+      source: sourceBlock
+    });
   }
 
-  private parseAIResponse(response: string, paper: Paper): ExtractionResult {
+  private parseAIResponse(response: string, sourceText: string): ExtractionResult {
     try {
       console.log(`   Parsing AI response...`);
       
@@ -243,7 +196,7 @@ Focus on computer vision and 3D reconstruction concepts. Be precise and evidence
         methods: this.validateMethods(parsed.methods),
         datasets: this.validateDatasets(parsed.datasets),
         metrics: this.validateMetrics(parsed.metrics),
-        relationships: this.validateRelationships(parsed.relationships, paper)
+        relationships: this.validateRelationships(parsed.relationships, sourceText)
       };
 
     } catch (error: any) {
@@ -296,7 +249,7 @@ Focus on computer vision and 3D reconstruction concepts. Be precise and evidence
       }));
   }
 
-  private validateRelationships(relationships: any[], paper: Paper): Relationship[] {
+  private validateRelationships(relationships: any[], sourceText: string): Relationship[] {
     return relationships
       .filter(rel => rel && rel.relationship_type && rel.target_concept && rel.evidence)
       .map(rel => ({
@@ -305,12 +258,12 @@ Focus on computer vision and 3D reconstruction concepts. Be precise and evidence
         evidence: rel.evidence.toString().trim(),
         confidence: Math.min(1, Math.max(0, Number(rel.confidence) || 0.7))
       }))
-      .filter(rel => this.isEvidenceInPaper(rel.evidence, paper));
+      .filter(rel => this.isEvidenceInText(rel.evidence, sourceText));
   }
 
   private validateCategory(category: string): Concept['category'] {
-    const validCategories = ['method', 'technique', 'problem', 'domain', 'application', 'framework'];
-    return validCategories.includes(category.toLowerCase()) ? category.toLowerCase() as any : 'technique';
+    const validCategories = this.profile.concept_categories;
+    return validCategories.includes(category.toLowerCase()) ? category.toLowerCase() : validCategories[0];
   }
 
   private validateRelationshipType(type: string): Relationship['relationship_type'] {
@@ -318,12 +271,31 @@ Focus on computer vision and 3D reconstruction concepts. Be precise and evidence
     return validTypes.includes(type.toLowerCase()) ? type.toLowerCase() as any : 'uses';
   }
 
-  private isEvidenceInPaper(evidence: string, paper: Paper): boolean {
-    const paperText = `${paper.title} ${paper.abstract}`.toLowerCase();
-    return paperText.includes(evidence.toLowerCase().substring(0, 20));
+  // Quotes may run across the line breaks kept in full-text sections
+  private isEvidenceInText(evidence: string, sourceText: string): boolean {
+    const collapse = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+    return collapse(sourceText).includes(collapse(evidence).substring(0, 20));
   }
+}
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Splits a section into parts of at most MAX_SECTION_CHARS, cutting at the last
+ * paragraph break, else line break, else sentence end, else space in the second
+ * half of each part
+ */
+function splitSectionText(text: string): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > MAX_SECTION_CHARS) {
+    const window = rest.substring(0, MAX_SECTION_CHARS);
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < MAX_SECTION_CHARS / 2) cut = window.lastIndexOf('\n');
+    if (cut < MAX_SECTION_CHARS / 2) cut = window.lastIndexOf('. ') + 1;
+    if (cut < MAX_SECTION_CHARS / 2) cut = window.lastIndexOf(' ');
+    if (cut < MAX_SECTION_CHARS / 2) cut = MAX_SECTION_CHARS;
+    parts.push(rest.substring(0, cut).trim());
+    rest = rest.substring(cut);
   }
+  if (rest.trim() || parts.length === 0) parts.push(rest.trim());
+  return parts;
 }
@@ -0,0 +1,147 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { PDFParse } from 'pdf-parse';
+import type { Paper, PaperSection, SectionText, FullTextDocument } from '../types.js';
+import { ARXIV_RATE_LIMITS } from './arxivAgent.js';
+import { rateLimiter } from '../scheduling/rateLimiter.js';
+import { fetchWithTimeout, withRetry } from '../scheduling/retry.js';
+
+// Headings are matched against whole lines, optionally numbered ("3", "3.", "III.")
+const SECTION_HEADINGS: Array<{ section: PaperSection | 'stop'; pattern: RegExp }> = [
+  { section: 'introduction', pattern: /^introduction$/ },
+  { section: 'related_work', pattern: /^(related work|related works|background|prior work|previous work)$/ },
+  { section: 'method', pattern: /^(method|methods|methodology|approach|our approach|proposed method|our method|preliminaries|overview)$/ },
+  { section: 'experiments', pattern: /^(experiments|experiment|experimental results|experimental setup|evaluation|results|implementation)$/ },
+  { section: 'conclusion', pattern: /^(conclusion|conclusions|discussion|limitations|conclusion and future work)$/ },
+  { section: 'stop', pattern: /^(references|bibliography|acknowledgements|acknowledgments|appendix)$/ }
+];
+
+const MAX_HEADING_LENGTH = 60;
+
+export class FullTextAgent {
+  private pdfDir?: string;
+
+  constructor(pdfDir?: string) {
+    this.pdfDir = pdfDir;
+    console.log(`   FullTextAgent initialized${pdfDir ? ` (local PDFs: ${pdfDir})` : ''}`);
+  }
+
+  /**
+   * Loads the paper PDF (local copy first, then pdf_url) and splits it into sections
+   */
+  async fetchFullText(paper: Paper): Promise<FullTextDocument> {
+    const { buffer, source } = await this.loadPdf(paper);
+
+    console.log(`   Extracting text from PDF (${buffer.length} bytes)...`);
+    const parser = new PDFParse({ data: buffer });
+    let text: string;
+    try {
+      // Pages are joined without "-- 1 of 12 --" markers, which would split sections mid-text
+      ({ text } = await parser.getText({ pageJoiner: '' }));
+    } finally {
+      await parser.destroy();
+    }
+
+    const sections = this.splitIntoSections(text);
+    if (sections.length === 0) {
+      throw new Error(`No recognizable sections in PDF for ${paper.arxiv_id}`);
+    }
+
+    console.log(`   Found sections: ${sections.map(s => s.section).join(', ')}`);
+    return { arxiv_id: paper.arxiv_id, source, sections };
+  }
+
+  splitIntoSections(text: string): SectionText[] {
+    const buckets = new Map<PaperSection, string[]>();
+    let current: PaperSection | null = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) {
+        // Kept as a paragraph break
+        if (current) buckets.get(current)!.push('');
+        continue;
+      }
+
+      const heading = this.matchHeading(line);
+      if (heading === 'stop') break;
+      if (heading) {
+        current = heading;
+        if (!buckets.has(current)) buckets.set(current, []);
+        continue;
+      }
+
+      if (current) {
+        buckets.get(current)!.push(line);
+      }
+    }
+
+    const sections: SectionText[] = [];
+    for (const [section, lines] of buckets) {
+      const body = this.joinLines(lines);
+      if (body.length > 0) {
+        sections.push({ section, text: body });
+      }
+    }
+    return sections;
+  }
+
+  private matchHeading(line: string): PaperSection | 'stop' | null {
+    if (line.length > MAX_HEADING_LENGTH) return null;
+
+    const normalized = line
+      .replace(/^((\d+(\.\d+)*)|([IVX]+))\.?\s+/, '')
+      .replace(/[:.]$/, '')
+      .trim()
+      .toLowerCase();
+
+    // Subsections ("3.1 Rasterization") belong to their parent section
+    if (/^\d+\.\d+/.test(line)) return null;
+
+    const match = SECTION_HEADINGS.find(heading => heading.pattern.test(normalized));
+    return match ? match.section : null;
+  }
+
+  // Undoes end-of-line hyphenation and collapses spaces, but keeps line and paragraph
+  // breaks: ExtractionAgent cuts long sections at them
+  private joinLines(lines: string[]): string {
+    return lines
+      .join('\n')
+      .replace(/-\n(?=[a-z])/g, '')
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private async loadPdf(paper: Paper): Promise<{ buffer: Buffer; source: string }> {
+    if (this.pdfDir) {
+      const localPath = join(this.pdfDir, `${paper.arxiv_id}.pdf`);
+      if (existsSync(localPath)) {
+        console.log(`   Reading local PDF: ${localPath}`);
+        return { buffer: readFileSync(localPath), source: localPath };
+      }
+    }
+
+    if (!/^https?:\/\//i.test(paper.pdf_url)) {
+      const localPath = paper.pdf_url.replace(/^file:\/\//i, '');
+      console.log(`   Reading local PDF: ${localPath}`);
+      return { buffer: readFileSync(localPath), source: localPath };
+    }
+
+    return { buffer: await this.downloadPdf(paper.pdf_url), source: paper.pdf_url };
+  }
+
+  private async downloadPdf(url: string): Promise<Buffer> {
+    return withRetry(`download PDF ${url}`, async attempt => {
+      console.log(`   Downloading PDF attempt ${attempt}/3: ${url}`);
+
+      const response = await fetchWithTimeout(url, {
+        headers: {
+          'User-Agent': 'AcademicKnowledgeGraph/1.0'
+        }
+      }, 60000);
+
+      return Buffer.from(await response.arrayBuffer());
+    }, { limiter: rateLimiter('arxiv', ARXIV_RATE_LIMITS), baseDelayMs: 3000 });
+  }
+}
@@ -0,0 +1,362 @@
+import type { GraphStore } from '../database/graphStore.js';
+import type { SemanticIndex } from '../embeddings/semanticIndex.js';
+import { ConceptResolver, conceptNameSimilarity, normalizeConceptName } from '../resolution/conceptResolver.js';
+import type { GraphSnapshot, LlmProvider, StoredPaper } from '../types.js';
+
+export interface AskOptions {
+  // Papers handed to the model as context (default 8)
+  maxPapers?: number;
+  // Links and evidence below this confidence are left out of the context (default 0.5)
+  minConfidence?: number;
+}
+
+// A claim in the answer, backed by a quote from the retrieved context
+export interface AnswerCitation {
+  arxiv_id: string;
+  title: string;
+  evidence: string;
+}
+
+export interface GraphAnswer {
+  question: string;
+  answer: string;
+  citations: AnswerCitation[];
+  // Graph entities the question was matched to
+  matchedEntities: string[];
+  // Papers given to the model, most relevant first
+  retrievedPapers: string[];
+  model: string;
+}
+
+// One retrieved paper with the parts of the graph around it
+interface PaperContext {
+  paper: StoredPaper;
+  score: number;
+  concepts: string[];
+  methods: string[];
+  datasets: string[];
+  metrics: string[];
+  // Quotes the model may cite: extracted relationship evidence, paper-to-paper edge evidence
+  evidence: string[];
+  links: string[];
+}
+
+// Question words that never name an entity on their own
+const QUESTION_STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'for', 'and', 'or', 'in', 'on', 'with', 'via', 'to', 'by', 'at', 'from',
+  'which', 'what', 'who', 'how', 'why', 'when', 'where', 'do', 'doe', 'did', 'is', 'are', 'wa', 'were',
+  'they', 'their', 'it', 'its', 'that', 'this', 'these', 'those', 'there', 'paper', 'work', 'use', 'used',
+  'report', 'reported', 'any', 'all', 'some', 'most', 'best', 'than', 'about', 'between', 'me', 'show'
+]);
+
+// Longest question phrase looked up as an entity name
+const MAX_PHRASE_WORDS = 4;
+const MAX_ABSTRACT_CHARS = 800;
+// Leading characters of a cited quote that must appear in the cited paper's context
+const EVIDENCE_PREFIX_CHARS = 30;
+
+/**
+ * Answers natural-language questions from the graph (GraphRAG): finds the papers
+ * and entities the question is about, hands them with their stored evidence to
+ * the LLM, and keeps only citations whose quotes appear in that context
+ */
+export class QuestionAgent {
+  private conceptResolver: ConceptResolver;
+
+  constructor(
+    private llm: LlmProvider,
+    private store: GraphStore,
+    private semanticIndex: SemanticIndex | null = null
+  ) {
+    this.conceptResolver = new ConceptResolver(store);
+    console.log(`   QuestionAgent initialized (${llm.name}: ${llm.config.model})`);
+  }
+
+  async ask(question: string, options: AskOptions = {}): Promise<GraphAnswer> {
+    const { matchedEntities, contexts } = await this.retrieve(question, options);
+
+    if (contexts.length === 0) {
+      return {
+        question,
+        answer: 'The knowledge graph has no papers related to this question.',
+        citations: [],
+        matchedEntities,
+        retrievedPapers: [],
+        model: this.llm.config.model
+      };
+    }
+
+    const response = await this.llm.complete({
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: this.buildPrompt(question, contexts) }
+      ],
+      jsonMode: true
+    });
+    const parsed = this.parseAnswer(response.content);
+
+    return {
+      question,
+      answer: parsed.answer,
+      citations: this.verifyCitations(parsed.citations, contexts),
+      matchedEntities,
+      retrievedPapers: contexts.map(context => context.paper.arxiv_id),
+      model: response.model
+    };
+  }
+
+  // What `ask` would hand the model, without calling it
+  async plan(question: string, options: AskOptions = {}): Promise<Pick<GraphAnswer, 'question' | 'matchedEntities' | 'retrievedPapers'>> {
+    const { matchedEntities, contexts } = await this.retrieve(question, options);
+    return { question, matchedEntities, retrievedPapers: contexts.map(context => context.paper.arxiv_id) };
+  }
+
+  private async retrieve(question: string, options: AskOptions): Promise<{ matchedEntities: string[]; contexts: PaperContext[] }> {
+    const snapshot = await this.store.loadSnapshot();
+    const result = await this.rank(question, snapshot, options.maxPapers ?? 8, options.minConfidence ?? 0.5);
+    console.log(`   Retrieved ${result.contexts.length} papers (${result.matchedEntities.length} matching entities)`);
+    return result;
+  }
+
+  /**
+   * Scores papers by the entities they are linked to, question words in their
+   * title and abstract, and (with embeddings) abstract similarity; then lets the
+   * best papers pass part of their score to the papers they are linked to
+   */
+  private async rank(
+    question: string,
+    snapshot: GraphSnapshot,
+    maxPapers: number,
+    minConfidence: number
+  ): Promise<{ matchedEntities: string[]; contexts: PaperContext[] }> {
+    const words = normalizeConceptName(question).split(' ').filter(word => word && !QUESTION_STOPWORDS.has(word));
+    const phrases = questionPhrases(words);
+
+    const conceptIds = new Set<string>();
+    for (const phrase of phrases) {
+      const resolved = await this.conceptResolver.findConcept(phrase);
+      if (resolved) conceptIds.add(resolved.id);
+    }
+    const matches = (names: Array<{ id: string; name: string }>): Set<string> => new Set(
+      names
+        .filter(entity => phrases.some(phrase => conceptNameSimilarity(phrase, entity.name) >= 0.88))
+        .map(entity => entity.id)
+    );
+    const methodIds = matches(snapshot.methods);
+    const datasetIds = matches(snapshot.datasets);
+    const metricIds = matches(snapshot.metrics);
+
+    const scores = new Map<string, number>();
+    const add = (paperId: string, points: number) => scores.set(paperId, (scores.get(paperId) ?? 0) + points);
+
+    for (const link of snapshot.paperConcepts) {
+      if (conceptIds.has(link.concept_id) && link.confidence >= minConfidence) add(link.paper_id, 3 * link.confidence);
+    }
+    for (const rel of snapshot.relationships) {
+      if (rel.target_concept_id && conceptIds.has(rel.target_concept_id) && rel.confidence >= minConfidence) {
+        add(rel.paper_id, 2 * rel.confidence);
+      }
+    }
+    for (const link of snapshot.paperMethods) {
+      if (methodIds.has(link.method_id) && link.confidence >= minConfidence) add(link.paper_id, 3 * link.confidence);
+    }
+    for (const link of snapshot.paperDatasets) {
+      if (datasetIds.has(link.dataset_id)) add(link.paper_id, 2);
+    }
+    for (const link of snapshot.paperMetrics) {
+      if (metricIds.has(link.metric_id)) add(link.paper_id, 1);
+    }
+
+    for (const paper of snapshot.papers) {
+      const title = normalizeConceptName(paper.title);
+      const abstract = normalizeConceptName(paper.abstract);
+      const hits = words.reduce((total, word) =>
+        total + (title.includes(word) ? 0.5 : 0) + (abstract.includes(word) ? 0.25 : 0), 0);
+      if (hits > 0) add(paper.id, hits);
+    }
+
+    if (this.semanticIndex) {
+      try {
+        for (const hit of await this.semanticIndex.searchText(question, maxPapers)) {
+          add(hit.id, 4 * Math.max(0, hit.score));
+        }
+      } catch (error: any) {
+        console.error(`   Semantic retrieval failed: ${error.message}`);
+      }
+    }
+
+    // One hop along paper-to-paper edges, so "what improves on X" reaches the improvers
+    const seeds = new Map(scores);
+    for (const edge of snapshot.paperRelationships) {
+      if (edge.confidence < minConfidence) continue;
+      const source = seeds.get(edge.source_paper_id) ?? 0;
+      const target = seeds.get(edge.target_paper_id) ?? 0;
+      if (target > 0) add(edge.source_paper_id, 0.5 * edge.confidence * target);
+      if (source > 0) add(edge.target_paper_id, 0.5 * edge.confidence * source);
+    }
+
+    const ranked = snapshot.papers
+      .filter(paper => (scores.get(paper.id) ?? 0) > 0)
+      .sort((a, b) => scores.get(b.id)! - scores.get(a.id)!)
+      .slice(0, maxPapers);
+
+    const names = [
+      ...snapshot.concepts.filter(c => conceptIds.has(c.id)),
+      ...snapshot.methods.filter(m => methodIds.has(m.id)),
+      ...snapshot.datasets.filter(d => datasetIds.has(d.id)),
+      ...snapshot.metrics.filter(m => metricIds.has(m.id))
+    ].map(entity => entity.name);
+
+    return {
+      matchedEntities: [...new Set(names)],
+      contexts: ranked.map(paper => this.describePaper(paper, scores.get(paper.id)!, snapshot, minConfidence))
+    };
+  }
+
+  private describePaper(paper: StoredPaper, score: number, snapshot: GraphSnapshot, minConfidence: number): PaperContext {
+    const byId = <T extends { id: string }>(items: T[]) => new Map(items.map(item => [item.id, item]));
+    const concepts = byId(snapshot.concepts);
+    const methods = byId(snapshot.methods);
+    const datasets = byId(snapshot.datasets);
+    const metrics = byId(snapshot.metrics);
+    const papers = byId(snapshot.papers);
+
+    const links: string[] = [];
+    const evidence: string[] = [];
+    for (const edge of snapshot.paperRelationships) {
+      if (edge.confidence < minConfidence) continue;
+      const outgoing = edge.source_paper_id === paper.id;
+      if (!outgoing && edge.target_paper_id !== paper.id) continue;
+
+      const other = papers.get(outgoing ? edge.target_paper_id : edge.source_paper_id);
+      if (!other) continue;
+      const description = outgoing
+        ? `${edge.relationship_type} [${other.arxiv_id}]`
+        : `[${other.arxiv_id}] ${edge.relationship_type} this paper`;
+      links.push(`${description} (${edge.confidence.toFixed(2)}): ${edge.evidence}`);
+      if (edge.evidence) evidence.push(edge.evidence);
+    }
+
+    const relationshipLines = snapshot.relationships
+      .filter(rel => rel.paper_id === paper.id && rel.confidence >= minConfidence)
+      .sort((a, b) => b.confidence - a.confidence)
+      .map(rel => {
+        evidence.push(rel.evidence);
+        return `${rel.relationship_type} "${rel.target_concept}" (${rel.confidence.toFixed(2)}): "${rel.evidence}"`;
+      });
+
+    return {
+      paper,
+      score,
+      concepts: snapshot.paperConcepts
+        .filter(link => link.paper_id === paper.id && link.confidence >= minConfidence && concepts.has(link.concept_id))
+        .map(link => `${concepts.get(link.concept_id)!.name} (${link.relationship})`),
+      methods: snapshot.paperMethods
+        .filter(link => link.paper_id === paper.id && link.confidence >= minConfidence && methods.has(link.method_id))
+        .map(link => {
+          const role = link.introduces ? ', introduced' : link.is_baseline ? ', baseline' : '';
+          return `${methods.get(link.method_id)!.name}${role}`;
+        }),
+      datasets: snapshot.paperDatasets
+        .filter(link => link.paper_id === paper.id && datasets.has(link.dataset_id))
+        .map(link => datasets.get(link.dataset_id)!.name),
+      metrics: snapshot.paperMetrics
+        .filter(link => link.paper_id === paper.id && metrics.has(link.metric_id))
+        .map(link => metrics.get(link.metric_id)!.name),
+      evidence: [paper.abstract, ...evidence],
+      links: [...relationshipLines, ...links]
+    };
+  }
+
+  private buildPrompt(question: string, contexts: PaperContext[]): string {
+    const blocks = contexts.map(context => {
+      const { paper } = context;
+      const abstract = paper.abstract.length > MAX_ABSTRACT_CHARS
+        ? `${paper.abstract.substring(0, MAX_ABSTRACT_CHARS)}...`
+        : paper.abstract;
+      const list = (label: string, items: string[]) => items.length > 0 ? `${label}: ${[...new Set(items)].join('; ')}\n` : '';
+
+      return `[${paper.arxiv_id}] "${paper.title}" (${paper.published_date})
+ABSTRACT: ${abstract}
+${list('CONCEPTS', context.concepts)}${list('METHODS', context.methods)}${list('DATASETS', context.datasets)}${list('METRICS', context.metrics)}${context.links.length > 0 ? `EVIDENCE:\n${context.links.map(line => `- ${line}`).join('\n')}\n` : ''}`;
+    });
+
+    return `QUESTION: ${question}
+
+CONTEXT (${contexts.length} papers from the knowledge graph, most relevant first):
+
+${blocks.join('\n')}
+Answer the question from this context only. Return ONLY valid JSON in this exact structure:
+{
+  "answer": "the answer, naming papers by arXiv ID in square brackets, e.g. [2308.04079]",
+  "citations": [
+    {
+      "arxiv_id": "2308.04079",
+      "evidence": "a verbatim quote from that paper's ABSTRACT or EVIDENCE lines"
+    }
+  ]
+}`;
+  }
+
+  private parseAnswer(response: string): { answer: string; citations: Array<{ arxiv_id: string; evidence: string }> } {
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON object found in AI answer');
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(jsonMatch[0]);
+    } catch (error: any) {
+      throw new Error(`Failed to parse AI answer: ${error.message}`);
+    }
+    if (typeof parsed.answer !== 'string' || parsed.answer.trim() === '') {
+      throw new Error('AI answer has no "answer" text');
+    }
+
+    const citations = Array.isArray(parsed.citations) ? parsed.citations : [];
+    return {
+      answer: parsed.answer.trim(),
+      citations: citations
+        .filter((citation: any) => citation && citation.arxiv_id && citation.evidence)
+        .map((citation: any) => ({
+          arxiv_id: citation.arxiv_id.toString().replace(/^\[|\]$/g, '').trim(),
+          evidence: citation.evidence.toString().trim()
+        }))
+    };
+  }
+
+  // A citation stands only if its paper was retrieved and its quote is in that paper's context
+  private verifyCitations(citations: Array<{ arxiv_id: string; evidence: string }>, contexts: PaperContext[]): AnswerCitation[] {
+    const verified: AnswerCitation[] = [];
+    for (const citation of citations) {
+      const context = contexts.find(candidate => candidate.paper.arxiv_id === citation.arxiv_id);
+      const quote = normalizeQuote(citation.evidence.replace(/^"|"$/g, '')).substring(0, EVIDENCE_PREFIX_CHARS);
+      if (!context || !context.evidence.some(text => normalizeQuote(text).includes(quote))) {
+        console.log(`   Dropped unsupported citation: [${citation.arxiv_id}] "${citation.evidence.substring(0, 60)}"`);
+        continue;
+      }
+      if (verified.some(existing => existing.arxiv_id === citation.arxiv_id && existing.evidence === citation.evidence)) continue;
+      verified.push({ arxiv_id: citation.arxiv_id, title: context.paper.title, evidence: citation.evidence });
+    }
+    return verified;
+  }
+}
+
+const SYSTEM_PROMPT = `You answer questions about a knowledge graph of research papers. Use only the context provided: the papers, their extracted concepts, methods, datasets and metrics, and the evidence quotes stored on their relationships. Name every paper you rely on by its arXiv ID, and back each claim with a verbatim quote from the context. If the context does not answer the question, say so.`;
+
+// Runs of 1 to MAX_PHRASE_WORDS consecutive question words, longest first
+function questionPhrases(words: string[]): string[] {
+  const phrases = new Set<string>();
+  for (let size = Math.min(MAX_PHRASE_WORDS, words.length); size >= 1; size--) {
+    for (let start = 0; start + size <= words.length; start++) {
+      const phrase = words.slice(start, start + size).join(' ');
+      if (size > 1 || phrase.length > 2) phrases.add(phrase);
+    }
+  }
+  return [...phrases];
+}
+
+function normalizeQuote(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
@@ -1,22 +1,206 @@
-import type { Paper } from '../types.js';
-import type { DatabaseClient } from '../database/client.js';
+import type {
+  Paper,
+  StoredPaper,
+  Relationship,
+  PaperRelationship,
+  PaperRelationshipType
+} from '../types.js';
+import type { GraphStore } from '../database/graphStore.js';
+import { conceptNameSimilarity, normalizeConceptName } from '../resolution/conceptResolver.js';
+
+// What the analyzer needs to know about one paper in the graph
+interface PaperProfile {
+  paper: StoredPaper;
+  concepts: Set<string>;
+  introduced: Set<string>;
+  relationships: Relationship[];
+}
+
+const EDGE_TYPE_FOR: Partial<Record<Relationship['relationship_type'], PaperRelationshipType>> = {
+  improves_on: 'improves_on',
+  extends: 'extends',
+  compares: 'compares',
+  evaluates: 'compares',
+  uses: 'builds_on',
+  applies: 'builds_on'
+};
 
 export class RelationshipAnalyzer {
+  private readonly MIN_EDGE_CONFIDENCE = 0.5;
+  private readonly MIN_SHARED_CONCEPTS = 3;
+  private readonly MIN_CONCEPT_OVERLAP = 0.25;
+
   constructor() {
     console.log('   RelationshipAnalyzer initialized');
   }
 
+  /**
+   * Links a newly stored paper to the papers already in the graph
+   */
   async analyzeCrossPaperRelationships(
-    paperId: string, 
-    paper: Paper, 
-    db: DatabaseClient
-  ): Promise<void> {
+    paperId: string,
+    paper: Paper,
+    db: GraphStore
+  ): Promise<number> {
     console.log(`   Analyzing cross-paper relationships for ${paper.arxiv_id}`);
-    await this.sleep(500);
-    console.log(`   Cross-paper relationships analyzed`);
+
+    const papers = await db.listPapers();
+    const current = papers.find(p => p.id === paperId);
+    if (!current) {
+      console.log(`   Paper ${paper.arxiv_id} not found in graph, skipping`);
+      return 0;
+    }
+
+    const profile = await this.buildProfile(current, db);
+    let stored = 0;
+
+    for (const other of papers) {
+      if (other.id === paperId) continue;
+      const otherProfile = await this.buildProfile(other, db);
+      stored += await this.linkPair(profile, otherProfile, db);
+    }
+
+    console.log(`   Cross-paper relationships analyzed: ${stored} edges`);
+    return stored;
+  }
+
+  /**
+   * Full pass over every pair of papers in the graph
+   */
+  async analyzeGraph(db: GraphStore): Promise<number> {
+    const papers = await db.listPapers();
+    console.log(`   Analyzing ${papers.length} papers pairwise...`);
+
+    const profiles: PaperProfile[] = [];
+    for (const paper of papers) {
+      profiles.push(await this.buildProfile(paper, db));
+    }
+
+    let stored = 0;
+    for (let i = 0; i < profiles.length; i++) {
+      for (let j = i + 1; j < profiles.length; j++) {
+        stored += await this.linkPair(profiles[i], profiles[j], db);
+      }
+    }
+
+    console.log(`   Graph analysis complete: ${stored} paper-to-paper edges`);
+    return stored;
+  }
+
+  private async buildProfile(paper: StoredPaper, db: GraphStore): Promise<PaperProfile> {
+    const [concepts, relationships] = await Promise.all([
+      db.getPaperConcepts(paper.id),
+      db.getPaperRelationships(paper.id)
+    ]);
+
+    const introduced = new Set<string>(
+      relationships
+        .filter(rel => rel.relationship_type === 'introduces')
+        .map(rel => this.normalize(rel.target_concept))
+    );
+
+    return {
+      paper,
+      concepts: new Set(concepts.map(concept => this.normalize(concept.name))),
+      introduced,
+      relationships
+    };
+  }
+
+  /**
+   * Publication order decides direction: only a later paper can improve on, extend or compare against an earlier one
+   */
+  private async linkPair(a: PaperProfile, b: PaperProfile, db: GraphStore): Promise<number> {
+    const order = this.comparePublication(a.paper, b.paper);
+    if (order === 0) return 0;
+
+    const [later, earlier] = order > 0 ? [a, b] : [b, a];
+    const edges = this.inferEdges(later, earlier);
+
+    let stored = 0;
+    for (const edge of edges) {
+      try {
+        await db.upsertPaperRelationship(edge);
+        stored++;
+        console.log(`    ${later.paper.arxiv_id} ${edge.relationship_type} ${earlier.paper.arxiv_id} (${edge.confidence.toFixed(2)})`);
+      } catch (error: any) {
+        console.error(`   Failed to store paper relationship: ${error.message}`);
+      }
+    }
+    return stored;
+  }
+
+  private inferEdges(later: PaperProfile, earlier: PaperProfile): PaperRelationship[] {
+    const shared = [...later.concepts].filter(concept => earlier.concepts.has(concept));
+    const union = new Set([...later.concepts, ...earlier.concepts]).size;
+    const overlap = union > 0 ? shared.length / union : 0;
+    const sharedEvidence = shared.length > 0 ? ` Shared concepts: ${shared.slice(0, 5).join(', ')}.` : '';
+
+    const edges = new Map<PaperRelationshipType, PaperRelationship>();
+
+    // Explicit claims: the later paper's relationship targets something the earlier paper introduced
+    for (const rel of later.relationships) {
+      const edgeType = EDGE_TYPE_FOR[rel.relationship_type];
+      if (!edgeType) continue;
+
+      const matchScore = this.matchIntroduced(rel.target_concept, earlier.introduced);
+      if (matchScore === 0) continue;
+
+      const confidence = Math.min(1, rel.confidence * matchScore * (0.7 + 0.3 * Math.min(1, overlap * 2)));
+      if (confidence < this.MIN_EDGE_CONFIDENCE) continue;
+
+      const existing = edges.get(edgeType);
+      if (!existing || confidence > existing.confidence) {
+        edges.set(edgeType, {
+          source_paper_id: later.paper.id,
+          target_paper_id: earlier.paper.id,
+          relationship_type: edgeType,
+          evidence: `"${rel.evidence}" (${rel.relationship_type} -> ${rel.target_concept}).${sharedEvidence}`,
+          confidence
+        });
+      }
+    }
+
+    // No explicit claim, but enough common vocabulary to say the later paper builds on the earlier one
+    if (edges.size === 0 && shared.length >= this.MIN_SHARED_CONCEPTS && overlap >= this.MIN_CONCEPT_OVERLAP) {
+      const confidence = Math.min(0.6, overlap + 0.2);
+      if (confidence >= this.MIN_EDGE_CONFIDENCE) {
+        edges.set('builds_on', {
+          source_paper_id: later.paper.id,
+          target_paper_id: earlier.paper.id,
+          relationship_type: 'builds_on',
+          evidence: `Concept overlap ${(overlap * 100).toFixed(0)}%.${sharedEvidence}`,
+          confidence
+        });
+      }
+    }
+
+    return [...edges.values()];
+  }
+
+  private matchIntroduced(target: string, introduced: Set<string>): number {
+    const normalized = this.normalize(target);
+    if (introduced.has(normalized)) return 1;
+
+    // No substring matching: "NeRF" is contained in "Mip-NeRF" and "NeRF-W" but is not what they introduced
+    let best = 0;
+    for (const name of introduced) {
+      const similarity = conceptNameSimilarity(normalized, name);
+      if (similarity >= 0.85) best = Math.max(best, similarity);
+    }
+    return best;
+  }
+
+  // Papers published at the same time are ordered by arXiv ID, which arXiv assigns in submission order
+  private comparePublication(a: Paper, b: Paper): number {
+    const aTime = Date.parse(a.published_date);
+    const bTime = Date.parse(b.published_date);
+    if (isNaN(aTime) || isNaN(bTime)) return 0;
+    if (aTime !== bTime) return Math.sign(aTime - bTime);
+    return a.arxiv_id === b.arxiv_id ? 0 : a.arxiv_id > b.arxiv_id ? 1 : -1;
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private normalize(name: string): string {
+    return normalizeConceptName(name);
   }
 }
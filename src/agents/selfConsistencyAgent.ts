@@ -0,0 +1,171 @@
+import { ExtractionAgent, ExtractionError } from './extractionAgent.js';
+import { conceptNameSimilarity, FUZZY_THRESHOLD } from '../resolution/conceptResolver.js';
+import type { PromptTemplate } from '../prompts/promptTemplate.js';
+import type {
+  DomainProfile,
+  ExtractionCall,
+  ExtractionResult,
+  LlmProvider,
+  Paper,
+  ReviewCandidate,
+  SectionText
+} from '../types.js';
+
+// A model and prompt to draw samples from
+export interface SampleVariant {
+  llm: LlmProvider;
+  template: PromptTemplate;
+}
+
+export interface SamplingOptions {
+  // Samples per paper, at least 2
+  samples: number;
+  // Sample i is drawn from variants[i % variants.length]
+  variants: SampleVariant[];
+}
+
+// Voted entities are stored when more than this share of the samples found them; the rest go to review
+export const MAJORITY_SHARE = 0.5;
+
+// Whether a vote share is enough to store the entity: exactly half of the samples is not
+export function isMajority(share: number): boolean {
+  return share > MAJORITY_SHARE;
+}
+
+/**
+ * Self-consistency extraction: extracts each paper several times, aligns the
+ * entities across samples and replaces the model's self-reported confidence with
+ * the share of samples that found the entity. Entities found by a single sample are
+ * left out of the extraction and returned as `unconfirmed`, for the review queue;
+ * datasets and metrics have no review kind and are dropped instead.
+ */
+export class SelfConsistencyAgent {
+  readonly samples: number;
+  private variants: SampleVariant[];
+  private agents: ExtractionAgent[];
+
+  constructor(profile: DomainProfile, options: SamplingOptions, private threshold: number = FUZZY_THRESHOLD) {
+    if (!Number.isInteger(options.samples) || options.samples < 2) {
+      throw new Error(`Self-consistency extraction needs at least 2 samples, got ${options.samples}`);
+    }
+    if (options.variants.length === 0) {
+      throw new Error('Self-consistency extraction needs at least one model and prompt to sample');
+    }
+    this.samples = options.samples;
+    this.variants = options.variants;
+    this.agents = options.variants.map(variant => new ExtractionAgent(variant.llm, profile, variant.template));
+    console.log(`   SelfConsistencyAgent initialized (${this.samples} samples from ${this.describeVariants().join(', ')})`);
+  }
+
+  // Distinct "<model>/<prompt>" pairs sampled from
+  describeVariants(): string[] {
+    return [...new Set(this.variants.map(describeVariant))];
+  }
+
+  async extractEntities(paper: Paper): Promise<ExtractionResult> {
+    return this.vote(paper, agent => agent.extractEntities(paper));
+  }
+
+  async extractEntitiesFromSections(paper: Paper, sections: SectionText[]): Promise<ExtractionResult> {
+    return this.vote(paper, agent => agent.extractEntitiesFromSections(paper, sections));
+  }
+
+  private async vote(paper: Paper, extract: (agent: ExtractionAgent) => Promise<ExtractionResult>): Promise<ExtractionResult> {
+    const results: ExtractionResult[] = [];
+    const calls: ExtractionCall[] = [];
+
+    for (let sample = 0; sample < this.samples; sample++) {
+      const variant = sample % this.variants.length;
+      const agent = this.agents[variant];
+      console.log(`   Sample ${sample + 1}/${this.samples} (${describeVariant(this.variants[variant])})`);
+      try {
+        const { calls: sampleCalls = [], ...result } = await extract(agent);
+        calls.push(...sampleCalls);
+        results.push(result);
+      } catch (error: any) {
+        if (error instanceof ExtractionError) calls.push(...error.calls);
+        console.error(`   ✗ Sample ${sample + 1} failed: ${error.message}`);
+      }
+    }
+
+    // A single sample has nothing to agree with
+    if (results.length < 2) {
+      throw new ExtractionError(calls, `Only ${results.length} of ${this.samples} samples of ${paper.arxiv_id} succeeded`);
+    }
+
+    const unconfirmed: ReviewCandidate[] = [];
+    const reason = `found in 1 of ${results.length} samples`;
+    const concepts = this.align(results.map(result => result.concepts), concept => concept.name);
+    const methods = this.align(results.map(result => result.methods), method => method.name);
+    const relationships = this.align(
+      results.map(result => result.relationships),
+      rel => rel.target_concept,
+      (a, b) => a.relationship_type === b.relationship_type
+    );
+
+    const datasets = this.align(results.map(result => result.datasets), dataset => dataset.name);
+    const metrics = this.align(results.map(result => result.metrics), metric => metric.name);
+    const dropped = [...datasets, ...metrics].filter(group => group.length === 1).map(([entity]) => entity.name);
+    if (dropped.length > 0) {
+      console.log(`   ⚠️  Dropped ${dropped.length} datasets and metrics found by a single sample: ${dropped.join(', ')}`);
+    }
+
+    const extraction: ExtractionResult = {
+      concepts: this.confirmed(concepts, results.length, entity => unconfirmed.push({ kind: 'concept', entity, reasons: [reason] })),
+      methods: this.confirmed(methods, results.length, entity => unconfirmed.push({ kind: 'method', entity, reasons: [reason] })),
+      relationships: this.confirmed(relationships, results.length, entity => unconfirmed.push({ kind: 'relationship', entity, reasons: [reason] })),
+      datasets: datasets.filter(group => group.length > 1).map(group => group[0]),
+      metrics: metrics.filter(group => group.length > 1).map(group => group[0])
+    };
+
+    console.log(`   Self-consistency vote over ${results.length} samples: ${extraction.concepts.length} concepts, ` +
+      `${extraction.methods.length} methods, ${extraction.relationships.length} relationships confirmed, ${unconfirmed.length} unconfirmed`);
+    return { ...extraction, calls, unconfirmed };
+  }
+
+  /**
+   * Groups the mentions of one entity across samples: names match when
+   * conceptNameSimilarity reaches the threshold, and a group takes at most one
+   * mention per sample, so its size is the number of samples that agree
+   */
+  private align<T>(samples: T[][], name: (item: T) => string, compatible: (a: T, b: T) => boolean = () => true): T[][] {
+    const groups: Array<{ items: T[]; samples: Set<number> }> = [];
+    samples.forEach((items, sample) => {
+      for (const item of items) {
+        let best: { items: T[]; samples: Set<number> } | null = null;
+        let bestSimilarity = this.threshold;
+        for (const group of groups) {
+          if (group.samples.has(sample) || !compatible(group.items[0], item)) continue;
+          const similarity = conceptNameSimilarity(name(group.items[0]), name(item));
+          if (similarity >= bestSimilarity) {
+            best = group;
+            bestSimilarity = similarity;
+          }
+        }
+        if (best) {
+          best.items.push(item);
+          best.samples.add(sample);
+        } else {
+          groups.push({ items: [item], samples: new Set([sample]) });
+        }
+      }
+    });
+    return groups.map(group => group.items);
+  }
+
+  // The most confident mention of each entity, with the share of samples that found it as its confidence
+  private confirmed<T extends { confidence: number }>(groups: T[][], samples: number, hold: (entity: T) => void): T[] {
+    const entities: T[] = [];
+    for (const group of groups) {
+      const mention = group.reduce((best, item) => (item.confidence > best.confidence ? item : best));
+      const entity = { ...mention, confidence: Number((group.length / samples).toFixed(3)) };
+      if (group.length > 1) entities.push(entity);
+      else hold(entity);
+    }
+    return entities;
+  }
+}
+
+function describeVariant({ llm, template }: SampleVariant): string {
+  return `${llm.config.model}/${template.name}`;
+}
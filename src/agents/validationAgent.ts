@@ -1,38 +1,70 @@
-import { Paper, ExtractionResult, Concept, Relationship, ValidationResult } from '../types.js';
+import { Paper, ExtractionResult, ExtractionCall, Concept, Relationship, ValidationResult, FullTextDocument, PaperSection, ReviewCandidate, LlmProvider, EntailmentVerdict } from '../types.js';
+import { recordedCall } from '../llm/recordedCall.js';
+
+const ENTAILMENT_VERDICTS: EntailmentVerdict[] = ['supported', 'not_supported', 'unclear'];
+// Recorded as the prompt version of entailment calls; change it with the prompt
+export const ENTAILMENT_PROMPT_VERSION = 'entailment-v1';
+
+// What each relationship type claims about the paper, for the entailment prompt
+const RELATIONSHIP_CLAIMS: Record<Relationship['relationship_type'], string> = {
+  introduces: 'presents it as a new contribution of its own',
+  extends: 'builds on it and adds to it',
+  improves_on: 'reports better results than it',
+  evaluates: 'measures or benchmarks it',
+  uses: 'relies on it as a component, tool or data',
+  compares: 'compares against it',
+  applies: 'applies it to a problem or domain'
+};
 
 export class ValidationAgent {
-  constructor() {
-    console.log('   ValidationAgent initialized (REAL validation only)');
+  // With an LLM, relationships that pass the text checks are also checked for entailment
+  constructor(private entailmentLlm: LlmProvider | null = null) {
+    console.log(`   ValidationAgent initialized (REAL validation only${entailmentLlm ? `, entailment check with ${entailmentLlm.config.model}` : ''})`);
   }
 
-  async validateExtraction(extraction: ExtractionResult, paper: Paper): Promise<ValidationResult> {
+  async validateExtraction(extraction: ExtractionResult, paper: Paper, fullText?: FullTextDocument): Promise<ValidationResult> {
     console.log(`   Validating extraction quality...`);
     
+    const contentFor = (section?: PaperSection): string => this.sourceContent(paper, fullText, section);
+    
     const issues: string[] = [];
+    const rejected: ReviewCandidate[] = [];
+    const calls: ExtractionCall[] = [];
     let overallConfidence = 0;
     let validEntityCount = 0;
 
     // Validate concepts - REAL validation only
     const validConcepts: Concept[] = [];
     for (const concept of extraction.concepts) {
-      if (this.validateConcept(concept, paper)) {
+      const reasons = this.validateConcept(concept, contentFor(concept.section));
+      if (reasons.length === 0) {
         validConcepts.push(concept);
         overallConfidence += concept.confidence;
         validEntityCount++;
       } else {
         issues.push(`Low-confidence concept: ${concept.name}`);
+        rejected.push({ kind: 'concept', entity: concept, reasons });
       }
     }
 
     // Validate relationships - REAL validation only
     const validRelationships: Relationship[] = [];
-    for (const relationship of extraction.relationships) {
-      if (this.validateRelationship(relationship, paper)) {
+    for (const extracted of extraction.relationships) {
+      let relationship = extracted;
+      const reasons = this.validateRelationship(relationship, contentFor(relationship.section));
+      if (reasons.length === 0 && this.entailmentLlm) {
+        relationship = await this.checkEntailment(relationship, paper, calls);
+        if (relationship.entailment_verdict === 'not_supported') {
+          reasons.push(`evidence does not support ${relationship.relationship_type} "${relationship.target_concept}": ${relationship.entailment_rationale ?? 'no rationale given'}`);
+        }
+      }
+      if (reasons.length === 0) {
         validRelationships.push(relationship);
         overallConfidence += relationship.confidence;
         validEntityCount++;
       } else {
         issues.push(`Weak relationship: ${relationship.relationship_type} -> ${relationship.target_concept}`);
+        rejected.push({ kind: 'relationship', entity: relationship, reasons });
       }
     }
 
@@ -53,35 +85,96 @@ export class ValidationAgent {
         ...extraction,
         concepts: validConcepts,
         relationships: validRelationships
-      }
+      },
+      rejected,
+      calls
     };
   }
 
-  private validateConcept(concept: Concept, paper: Paper): boolean {
+  // Entities extracted from the full text are checked against the section they came from
+  private sourceContent(paper: Paper, fullText: FullTextDocument | undefined, section?: PaperSection): string {
+    const sectionText = section && section !== 'abstract'
+      ? fullText?.sections.find(s => s.section === section)?.text
+      : undefined;
+    // Line breaks in full-text sections would hide names and quotes that run across them
+    return `${paper.title} ${sectionText ?? paper.abstract}`.toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  // The checks the concept fails; none means it is valid
+  private validateConcept(concept: Concept, content: string): string[] {
     // Real validation logic - no mock fallback
-    if (concept.confidence < 0.4) return false;
-    if (concept.name.length < 2 || concept.name.length > 100) return false;
-    if (!this.isConceptRelevant(concept, paper)) return false;
-    return true;
+    const reasons: string[] = [];
+    if (concept.confidence < 0.4) reasons.push(`confidence ${concept.confidence} below 0.4`);
+    if (concept.name.length < 2 || concept.name.length > 100) reasons.push('name shorter than 2 or longer than 100 characters');
+    if (!this.isConceptRelevant(concept, content)) reasons.push(`name not found in the ${concept.section ?? 'abstract'}`);
+    return reasons;
   }
 
-  private validateRelationship(relationship: Relationship, paper: Paper): boolean {
+  private validateRelationship(relationship: Relationship, content: string): string[] {
     // Real validation logic - no mock fallback
-    if (relationship.confidence < 0.5) return false;
-    if (relationship.evidence.length < 10) return false;
-    if (!this.isRelationshipSensible(relationship, paper)) return false;
-    return true;
+    const reasons: string[] = [];
+    if (relationship.confidence < 0.5) reasons.push(`confidence ${relationship.confidence} below 0.5`);
+    if (relationship.evidence.length < 10) reasons.push('evidence shorter than 10 characters');
+    if (!this.isRelationshipSensible(relationship, content)) reasons.push(`evidence not found in the ${relationship.section ?? 'abstract'}`);
+    return reasons;
+  }
+
+  /**
+   * Asks the model whether the evidence states the relationship; the verdict and
+   * rationale are returned on the relationship, with the call appended to `calls`.
+   * A check that fails keeps the relationship with an `unclear` verdict whose
+   * rationale says why, so it is not taken for a supported one.
+   */
+  private async checkEntailment(relationship: Relationship, paper: Paper, calls: ExtractionCall[]): Promise<Relationship> {
+    const prompt = `Decide whether a quote from a research paper supports a claim about that paper.
+
+PAPER: "${paper.title}"
+CLAIM: the paper ${relationship.relationship_type.replaceAll('_', ' ')} "${relationship.target_concept}", i.e. it ${RELATIONSHIP_CLAIMS[relationship.relationship_type]}
+QUOTE: "${relationship.evidence}"
+
+Answer "supported" only if the quote itself states the claim, "not_supported" if it states something else or contradicts it, and "unclear" if it is about the target but leaves the claim open.
+
+Return ONLY valid JSON: {"verdict": "supported|not_supported|unclear", "rationale": "one sentence"}`;
+
+    const checked = calls.length;
+    try {
+      const request = { messages: [{ role: 'user' as const, content: prompt }], jsonMode: true };
+      const source = { section: relationship.section ?? 'abstract', prompt_version: ENTAILMENT_PROMPT_VERSION };
+      return await recordedCall(this.entailmentLlm!, request, source, calls, (response, call) => {
+        const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+          throw new Error('No JSON object found in entailment response');
+        }
+        const parsed = JSON.parse(jsonMatch[0]);
+        const verdict = String(parsed.verdict ?? '').trim().toLowerCase();
+        if (!ENTAILMENT_VERDICTS.includes(verdict as EntailmentVerdict)) {
+          throw new Error(`Unknown entailment verdict "${parsed.verdict}"`);
+        }
+        return {
+          ...relationship,
+          entailment_verdict: verdict as EntailmentVerdict,
+          entailment_rationale: typeof parsed.rationale === 'string' ? parsed.rationale.trim() : null,
+          entailment_id: call.id
+        };
+      });
+    } catch (error: any) {
+      console.error(`   Entailment check failed for ${relationship.relationship_type} -> ${relationship.target_concept}: ${error.message}`);
+      return {
+        ...relationship,
+        entailment_verdict: 'unclear',
+        entailment_rationale: `entailment check failed: ${error.message}`,
+        entailment_id: calls[checked]?.id ?? null
+      };
+    }
   }
 
-  private isConceptRelevant(concept: Concept, paper: Paper): boolean {
-    const content = `${paper.title} ${paper.abstract}`.toLowerCase();
+  private isConceptRelevant(concept: Concept, content: string): boolean {
     const conceptLower = concept.name.toLowerCase();
     return content.includes(conceptLower) || this.hasSemanticOverlap(concept.name, content);
   }
 
-  private isRelationshipSensible(relationship: Relationship, paper: Paper): boolean {
-    const content = `${paper.title} ${paper.abstract}`.toLowerCase();
-    const evidence = relationship.evidence.toLowerCase();
+  private isRelationshipSensible(relationship: Relationship, content: string): boolean {
+    const evidence = relationship.evidence.toLowerCase().replace(/\s+/g, ' ');
     return content.includes(evidence) || evidence.length > 20;
   }
 
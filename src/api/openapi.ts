@@ -0,0 +1,505 @@
+/**
+ * OpenAPI 3.0 description of the API, served at /openapi.json.
+ * Kept by hand next to the routes in server.ts; update both together.
+ */
+export const OPENAPI_DOCUMENT = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Paper Graph API',
+    version: '1.0.0',
+    description: 'Access to the research knowledge graph: papers, concepts, paper-to-paper relationships, search, ' +
+      'the provenance of extracted entities ' +
+      'and the review queue. Everything is read-only except the review decisions, which are only served by `serve --allow-review`.'
+  },
+  paths: {
+    '/stats': {
+      get: {
+        summary: 'Graph counts and the latest pipeline run',
+        responses: { '200': json({ $ref: '#/components/schemas/Overview' }) }
+      }
+    },
+    '/papers': {
+      get: {
+        summary: 'All papers, oldest first',
+        parameters: [ref('limit'), ref('offset')],
+        responses: { '200': json(page('Paper')), '400': error() }
+      }
+    },
+    '/papers/{arxivId}': {
+      get: {
+        summary: 'A paper with its concepts and extracted relationships',
+        parameters: [ref('arxivId'), ref('minConfidence')],
+        responses: { '200': json({ $ref: '#/components/schemas/PaperDetail' }), '400': error(), '404': error() }
+      }
+    },
+    '/papers/{arxivId}/neighbors': {
+      get: {
+        summary: 'Papers linked to this one, most confident first',
+        parameters: [
+          ref('arxivId'),
+          {
+            name: 'type',
+            in: 'query',
+            schema: { type: 'string', enum: ['improves_on', 'extends', 'compares', 'builds_on', 'cites'] }
+          },
+          {
+            name: 'direction',
+            in: 'query',
+            description: '`out`: this paper is the source; `in`: this paper is the target',
+            schema: { type: 'string', enum: ['in', 'out', 'both'], default: 'both' }
+          },
+          ref('minConfidence'),
+          ref('limit'),
+          ref('offset')
+        ],
+        responses: { '200': json(page('Neighbor')), '400': error(), '404': error() }
+      }
+    },
+    '/papers/{arxivId}/versions': {
+      get: {
+        summary: 'Every arXiv version of the paper seen by the pipeline, oldest first, with what changed',
+        parameters: [ref('arxivId')],
+        responses: {
+          '200': json({ type: 'array', items: { $ref: '#/components/schemas/PaperVersion' } }),
+          '404': error()
+        }
+      }
+    },
+    '/papers/{arxivId}/extractions': {
+      get: {
+        summary: 'The LLM calls made to extract the paper, oldest first, without request and response payloads',
+        parameters: [ref('arxivId'), ref('limit'), ref('offset')],
+        responses: { '200': json(page('ExtractionSummary')), '400': error(), '404': error() }
+      }
+    },
+    '/extractions/{id}': {
+      get: {
+        summary: 'One extraction call with the exact request sent and the raw response',
+        parameters: [ref('extractionId')],
+        responses: { '200': json({ $ref: '#/components/schemas/ExtractionRecord' }), '404': error() }
+      }
+    },
+    '/concepts': {
+      get: {
+        summary: 'Concepts sorted by name',
+        parameters: [
+          { name: 'category', in: 'query', description: 'e.g. method, dataset, metric', schema: { type: 'string' } },
+          ref('limit'),
+          ref('offset')
+        ],
+        responses: { '200': json(page('Concept')), '400': error() }
+      }
+    },
+    '/concepts/{id}': {
+      get: {
+        summary: 'A single concept',
+        parameters: [ref('conceptId')],
+        responses: { '200': json({ $ref: '#/components/schemas/Concept' }), '404': error() }
+      }
+    },
+    '/concepts/{id}/papers': {
+      get: {
+        summary: 'Papers linked to a concept, newest first',
+        parameters: [ref('conceptId'), ref('minConfidence'), ref('limit'), ref('offset')],
+        responses: { '200': json(page('ConceptPaper')), '400': error(), '404': error() }
+      }
+    },
+    '/search': {
+      get: {
+        summary: 'Keyword search over paper titles and abstracts, and concept names',
+        parameters: [
+          { name: 'q', in: 'query', required: true, schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 500, default: 20 } }
+        ],
+        responses: { '200': json({ $ref: '#/components/schemas/SearchResults' }), '400': error() }
+      }
+    },
+    '/review': {
+      get: {
+        summary: 'Extracted entities kept out of the graph for review, oldest first, with the reasons',
+        parameters: [
+          {
+            name: 'status',
+            in: 'query',
+            schema: { type: 'string', enum: ['pending', 'accepted', 'rejected', 'all'], default: 'pending' }
+          },
+          { name: 'kind', in: 'query', schema: { type: 'string', enum: ['concept', 'relationship', 'method'] } },
+          { name: 'paper', in: 'query', description: 'Only items of this arXiv paper', schema: { type: 'string' } },
+          ref('limit'),
+          ref('offset')
+        ],
+        responses: { '200': json(page('ReviewItem')), '400': error(), '404': error() }
+      }
+    },
+    '/review/{id}': {
+      get: {
+        summary: 'A single review item',
+        parameters: [ref('reviewId')],
+        responses: { '200': json({ $ref: '#/components/schemas/ReviewItem' }), '404': error() }
+      }
+    },
+    '/review/{id}/accept': {
+      post: {
+        summary: 'Store the entity in the graph, with any edits, marked with the reviewer (needs serve --allow-review)',
+        parameters: [ref('reviewId')],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['reviewed_by'],
+                properties: {
+                  reviewed_by: { type: 'string' },
+                  edits: {
+                    type: 'object',
+                    description: 'Concepts: name, category, description. Relationships: relationship_type, ' +
+                      'target_concept, evidence. Methods: name, description, is_baseline.',
+                    properties: {
+                      name: { type: 'string' },
+                      category: { type: 'string' },
+                      description: { type: 'string' },
+                      relationship_type: { type: 'string' },
+                      target_concept: { type: 'string' },
+                      evidence: { type: 'string' },
+                      is_baseline: { type: 'boolean' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          '200': json({ $ref: '#/components/schemas/ReviewItem' }),
+          '400': error(),
+          '404': error(),
+          '405': error(),
+          '409': error()
+        }
+      }
+    },
+    '/review/{id}/reject': {
+      post: {
+        summary: 'Keep the entity out of the graph (needs serve --allow-review)',
+        parameters: [ref('reviewId')],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', required: ['reviewed_by'], properties: { reviewed_by: { type: 'string' } } }
+            }
+          }
+        },
+        responses: {
+          '200': json({ $ref: '#/components/schemas/ReviewItem' }),
+          '400': error(),
+          '404': error(),
+          '405': error(),
+          '409': error()
+        }
+      }
+    }
+  },
+  components: {
+    parameters: {
+      arxivId: {
+        name: 'arxivId',
+        in: 'path',
+        required: true,
+        description: 'arXiv ID, e.g. 2308.04079 (a version suffix is ignored); old-style IDs need the slash encoded (hep-th%2F9901001)',
+        schema: { type: 'string' }
+      },
+      conceptId: { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      reviewId: { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      extractionId: { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      limit: { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 500, default: 50 } },
+      offset: { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } },
+      minConfidence: {
+        name: 'min_confidence',
+        in: 'query',
+        description: 'Leave out links with lower confidence',
+        schema: { type: 'number', minimum: 0, maximum: 1, default: 0 }
+      }
+    },
+    schemas: {
+      Error: {
+        type: 'object',
+        properties: { error: { type: 'string' } }
+      },
+      PaperSummary: {
+        type: 'object',
+        properties: {
+          arxiv_id: { type: 'string' },
+          title: { type: 'string' },
+          published_date: { type: 'string', format: 'date' }
+        }
+      },
+      Paper: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          arxiv_id: { type: 'string' },
+          title: { type: 'string' },
+          authors: { type: 'array', items: { type: 'string' } },
+          abstract: { type: 'string' },
+          published_date: { type: 'string', format: 'date' },
+          pdf_url: { type: 'string' },
+          categories: { type: 'array', items: { type: 'string' } },
+          version: { type: 'integer', nullable: true },
+          updated_date: { type: 'string', format: 'date-time', nullable: true },
+          primary_category: { type: 'string', nullable: true },
+          doi: { type: 'string', nullable: true },
+          journal_ref: { type: 'string', nullable: true },
+          comment: { type: 'string', nullable: true },
+          author_details: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                affiliations: { type: 'array', items: { type: 'string' } }
+              }
+            }
+          },
+          links: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                href: { type: 'string' },
+                rel: { type: 'string' },
+                type: { type: 'string' },
+                title: { type: 'string' }
+              }
+            }
+          }
+        }
+      },
+      PaperVersion: {
+        type: 'object',
+        properties: {
+          version: { type: 'integer' },
+          title: { type: 'string' },
+          abstract: { type: 'string' },
+          updated_date: { type: 'string', format: 'date-time', nullable: true },
+          changes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                field: { type: 'string', enum: ['title', 'authors', 'abstract', 'categories'] },
+                before: { type: 'string' },
+                after: { type: 'string' }
+              }
+            }
+          },
+          recorded_at: { type: 'string', format: 'date-time' }
+        }
+      },
+      Concept: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          category: { type: 'string' }
+        }
+      },
+      PaperConcept: {
+        allOf: [
+          { $ref: '#/components/schemas/Concept' },
+          {
+            type: 'object',
+            properties: {
+              relationship: { type: 'string' },
+              confidence: { type: 'number' },
+              section: { type: 'string' },
+              extraction_id: { type: 'string', nullable: true, description: 'Extraction record of the LLM call it came from' },
+              reviewed_by: { type: 'string', nullable: true, description: 'Set when accepted from the review queue' }
+            }
+          }
+        ]
+      },
+      ConceptRelationship: {
+        type: 'object',
+        properties: {
+          relationship_type: { type: 'string' },
+          target_concept: { type: 'string' },
+          evidence: { type: 'string' },
+          confidence: { type: 'number' },
+          section: { type: 'string' },
+          extraction_id: { type: 'string', nullable: true, description: 'Extraction record of the LLM call it came from' },
+          reviewed_by: { type: 'string', nullable: true, description: 'Set when accepted from the review queue' },
+          entailment_verdict: {
+            type: 'string',
+            nullable: true,
+            enum: ['supported', 'not_supported', 'unclear'],
+            description: 'Whether a model found the evidence to support the relationship; null when not checked'
+          },
+          entailment_rationale: { type: 'string', nullable: true },
+          entailment_id: { type: 'string', nullable: true, description: 'Extraction record of the entailment call' }
+        }
+      },
+      PaperDetail: {
+        allOf: [
+          { $ref: '#/components/schemas/Paper' },
+          {
+            type: 'object',
+            properties: {
+              concepts: { type: 'array', items: { $ref: '#/components/schemas/PaperConcept' } },
+              relationships: { type: 'array', items: { $ref: '#/components/schemas/ConceptRelationship' } }
+            }
+          }
+        ]
+      },
+      ConceptPaper: {
+        type: 'object',
+        properties: {
+          paper: { $ref: '#/components/schemas/Paper' },
+          relationship: { type: 'string' },
+          confidence: { type: 'number' },
+          section: { type: 'string' }
+        }
+      },
+      Neighbor: {
+        type: 'object',
+        properties: {
+          relationship_type: { type: 'string' },
+          direction: { type: 'string', enum: ['in', 'out'] },
+          confidence: { type: 'number' },
+          evidence: { type: 'string' },
+          paper: { $ref: '#/components/schemas/PaperSummary' }
+        }
+      },
+      SearchResults: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          papers: {
+            type: 'array',
+            items: {
+              allOf: [
+                { $ref: '#/components/schemas/PaperSummary' },
+                { type: 'object', properties: { score: { type: 'number' } } }
+              ]
+            }
+          },
+          concepts: {
+            type: 'array',
+            items: {
+              allOf: [
+                { $ref: '#/components/schemas/Concept' },
+                { type: 'object', properties: { score: { type: 'number' } } }
+              ]
+            }
+          }
+        }
+      },
+      ReviewItem: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          paper_id: { type: 'string' },
+          arxiv_id: { type: 'string' },
+          kind: { type: 'string', enum: ['concept', 'relationship', 'method'] },
+          entity: { type: 'object', description: 'The concept, relationship or method as extracted; as stored once accepted' },
+          reasons: { type: 'array', items: { type: 'string' } },
+          status: { type: 'string', enum: ['pending', 'accepted', 'rejected'] },
+          reviewed_by: { type: 'string', nullable: true },
+          reviewed_at: { type: 'string', format: 'date-time', nullable: true },
+          created_at: { type: 'string', format: 'date-time' }
+        }
+      },
+      ExtractionSummary: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          paper_id: { type: 'string' },
+          run_id: { type: 'string', nullable: true },
+          section: { type: 'string' },
+          provider: { type: 'string' },
+          model: { type: 'string' },
+          temperature: { type: 'number' },
+          max_tokens: { type: 'integer' },
+          prompt_version: { type: 'string' },
+          error: { type: 'string', nullable: true, description: 'Why the call, or parsing its response, failed' },
+          latency_ms: { type: 'integer' },
+          usage: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              prompt_tokens: { type: 'integer' },
+              completion_tokens: { type: 'integer' },
+              total_tokens: { type: 'integer' }
+            }
+          },
+          created_at: { type: 'string', format: 'date-time' }
+        }
+      },
+      ExtractionRecord: {
+        allOf: [
+          { $ref: '#/components/schemas/ExtractionSummary' },
+          {
+            type: 'object',
+            properties: {
+              request: {
+                type: 'object',
+                properties: {
+                  messages: {
+                    type: 'array',
+                    items: { type: 'object', properties: { role: { type: 'string' }, content: { type: 'string' } } }
+                  }
+                }
+              },
+              response: { type: 'string', nullable: true, description: 'Raw completion text; null when the call failed' }
+            }
+          }
+        ]
+      },
+      Overview: {
+        type: 'object',
+        properties: {
+          stats: {
+            type: 'object',
+            properties: {
+              papers: { type: 'integer' },
+              concepts: { type: 'integer' },
+              relationships: { type: 'integer' },
+              methods: { type: 'integer' },
+              datasets: { type: 'integer' },
+              metrics: { type: 'integer' }
+            }
+          },
+          latestRun: { type: 'object', nullable: true }
+        }
+      }
+    }
+  }
+};
+
+function ref(parameter: string) {
+  return { $ref: `#/components/parameters/${parameter}` };
+}
+
+function json(schema: object) {
+  return { description: 'OK', content: { 'application/json': { schema } } };
+}
+
+function error() {
+  return {
+    description: 'Error',
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+  };
+}
+
+function page(schema: string) {
+  return {
+    type: 'object',
+    properties: {
+      items: { type: 'array', items: { $ref: `#/components/schemas/${schema}` } },
+      total: { type: 'integer' },
+      limit: { type: 'integer' },
+      offset: { type: 'integer' }
+    }
+  };
+}
@@ -0,0 +1,285 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { GraphStore } from '../database/graphStore.js';
+import { GraphQueries, NeighborOptions, PageOptions, PAPER_RELATIONSHIP_TYPES, ReviewQueueOptions } from '../query/graphQueries.js';
+import { REVIEW_KINDS, REVIEW_STATUSES, ReviewError, ReviewQueue } from '../review/reviewQueue.js';
+import type { ReviewEdits } from '../review/reviewQueue.js';
+import { OPENAPI_DOCUMENT } from './openapi.js';
+import type { PaperRelationshipType, ReviewKind, ReviewStatus } from '../types.js';
+
+const MAX_PAGE_SIZE = 500;
+// Request bodies are small JSON objects (review decisions)
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Reported to the client as `{ "error": message }` with this status
+ */
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ApiServerOptions {
+  // Access-Control-Allow-Origin for browser front-ends (default "*")
+  corsOrigin?: string;
+  // Serve the POST routes that accept and reject review items; off by default, so the API is read-only
+  allowReview?: boolean;
+}
+
+type Handler = (params: Record<string, string>, query: URLSearchParams, body: any) => Promise<unknown>;
+
+interface Route {
+  method: 'GET' | 'POST';
+  path: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+/**
+ * JSON API over the graph. Only GET and HEAD are served unless review is allowed,
+ * which adds the POST routes deciding review items. Path parameters are
+ * URL-decoded, so old-style arXiv IDs are passed as hep-th%2F9901001.
+ */
+export function createApiServer(store: GraphStore, options: ApiServerOptions = {}): Server {
+  const queries = new GraphQueries(store);
+  const reviewQueue = new ReviewQueue(store);
+  const corsOrigin = options.corsOrigin ?? '*';
+  const methods = options.allowReview ? 'GET, HEAD, POST, OPTIONS' : 'GET, HEAD, OPTIONS';
+
+  const routes: Route[] = [
+    route('/openapi.json', async () => OPENAPI_DOCUMENT),
+
+    route('/stats', async () => queries.overview()),
+
+    route('/papers', async (_, query) => queries.listPapers(pageOptions(query))),
+
+    route('/papers/:arxivId', async ({ arxivId }, query) =>
+      found(await queries.getPaper(arxivId, minConfidence(query)), `Paper ${arxivId} not found`)),
+
+    route('/papers/:arxivId/neighbors', async ({ arxivId }, query) =>
+      found(await queries.neighbors(arxivId, neighborOptions(query)), `Paper ${arxivId} not found`)),
+
+    route('/papers/:arxivId/versions', async ({ arxivId }) =>
+      found(await queries.paperVersions(arxivId), `Paper ${arxivId} not found`)),
+
+    route('/papers/:arxivId/extractions', async ({ arxivId }, query) =>
+      found(await queries.extractions(arxivId, pageOptions(query)), `Paper ${arxivId} not found`)),
+
+    route('/extractions/:id', async ({ id }) =>
+      found(await queries.getExtraction(id), `Extraction record ${id} not found`)),
+
+    route('/concepts', async (_, query) =>
+      queries.listConcepts({ ...pageOptions(query), category: query.get('category') ?? undefined })),
+
+    route('/concepts/:id', async ({ id }) =>
+      found(await queries.getConcept(id), `Concept ${id} not found`)),
+
+    route('/concepts/:id/papers', async ({ id }, query) =>
+      found(await queries.conceptPapers(id, { ...pageOptions(query), minConfidence: minConfidence(query) }), `Concept ${id} not found`)),
+
+    route('/search', async (_, query) => {
+      const q = query.get('q');
+      if (!q || q.trim() === '') {
+        throw new ApiError(400, 'Query parameter "q" is required');
+      }
+      return queries.search(q, integerParam(query, 'limit', 20, 1, MAX_PAGE_SIZE));
+    }),
+
+    route('/review', async (_, query) =>
+      found(await queries.reviewQueue(reviewOptions(query)), `Paper ${query.get('paper')} not found`)),
+
+    route('/review/:id', async ({ id }) => reviewQueue.get(id)),
+
+    route('/review/:id/accept', async ({ id }, _, body) =>
+      reviewQueue.accept(id, reviewer(body), reviewEdits(body)), 'POST'),
+
+    route('/review/:id/reject', async ({ id }, _, body) =>
+      reviewQueue.reject(id, reviewer(body)), 'POST')
+  ];
+
+  return createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    const started = Date.now();
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    response.setHeader('Access-Control-Allow-Origin', corsOrigin);
+
+    let status = 200;
+    let body: unknown;
+    try {
+      if (request.method === 'OPTIONS') {
+        response.setHeader('Access-Control-Allow-Methods', methods);
+        response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+        response.writeHead(204).end();
+        return;
+      }
+      if (request.method === 'POST' && options.allowReview) {
+        body = await dispatch(routes, 'POST', url, await readJsonBody(request));
+      } else if (request.method === 'GET' || request.method === 'HEAD') {
+        body = await dispatch(routes, 'GET', url, null);
+      } else {
+        response.setHeader('Allow', methods);
+        throw new ApiError(405, `${request.method} not allowed; the API is read-only${request.method === 'POST' ? ' (serve --allow-review enables review decisions)' : ''}`);
+      }
+    } catch (error: any) {
+      status = error instanceof ApiError ? error.status : error instanceof ReviewError ? REVIEW_ERROR_STATUS[error.reason] : 500;
+      body = { error: error.message };
+      if (status === 500) {
+        console.error(`   API error on ${url.pathname}: ${error.stack ?? error.message}`);
+      }
+    }
+
+    const json = JSON.stringify(body, null, 2);
+    response.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(json)
+    });
+    response.end(request.method === 'HEAD' ? undefined : json);
+    console.log(`   ${request.method} ${url.pathname}${url.search} -> ${status} (${Date.now() - started}ms)`);
+  });
+}
+
+const REVIEW_ERROR_STATUS: Record<ReviewError['reason'], number> = { 'not-found': 404, decided: 409, invalid: 400 };
+
+async function dispatch(routes: Route[], method: Route['method'], url: URL, body: unknown): Promise<unknown> {
+  const pathname = url.pathname.replace(/\/+$/, '') || '/';
+  let pathMatched = false;
+  for (const candidate of routes) {
+    const match = candidate.pattern.exec(pathname);
+    if (!match) continue;
+    pathMatched = true;
+    if (candidate.method !== method) continue;
+
+    const params: Record<string, string> = {};
+    candidate.keys.forEach((key, i) => {
+      params[key] = decodeURIComponent(match[i + 1]);
+    });
+    return candidate.handler(params, url.searchParams, body);
+  }
+  if (pathMatched) {
+    throw new ApiError(405, `${method} not allowed on ${pathname}`);
+  }
+  throw new ApiError(404, `No route for ${pathname}; see /openapi.json`);
+}
+
+// "/papers/:arxivId" -> /^\/papers\/([^/]+)$/ with keys ["arxivId"]
+function route(path: string, handler: Handler, method: Route['method'] = 'GET'): Route {
+  const keys: string[] = [];
+  const source = path.replace(/:([A-Za-z]+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method, path, pattern: new RegExp(`^${source}$`), keys, handler };
+}
+
+// An empty body reads as {}
+async function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ApiError(413, `Request body over ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf-8').trim();
+  if (text === '') return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ApiError(400, 'Request body is not valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ApiError(400, 'Request body must be a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function found<T>(value: T | null, message: string): T {
+  if (value === null) {
+    throw new ApiError(404, message);
+  }
+  return value;
+}
+
+function pageOptions(query: URLSearchParams): PageOptions {
+  return {
+    limit: integerParam(query, 'limit', 50, 1, MAX_PAGE_SIZE),
+    offset: integerParam(query, 'offset', 0, 0, Number.MAX_SAFE_INTEGER)
+  };
+}
+
+function neighborOptions(query: URLSearchParams): NeighborOptions {
+  const type = query.get('type');
+  if (type !== null && !PAPER_RELATIONSHIP_TYPES.includes(type as PaperRelationshipType)) {
+    throw new ApiError(400, `"type" must be one of ${PAPER_RELATIONSHIP_TYPES.join(', ')}`);
+  }
+  const direction = query.get('direction') ?? 'both';
+  if (direction !== 'in' && direction !== 'out' && direction !== 'both') {
+    throw new ApiError(400, '"direction" must be in, out or both');
+  }
+  return {
+    ...pageOptions(query),
+    type: (type ?? undefined) as PaperRelationshipType | undefined,
+    direction,
+    minConfidence: minConfidence(query)
+  };
+}
+
+function reviewOptions(query: URLSearchParams): ReviewQueueOptions {
+  const status = query.get('status') ?? 'pending';
+  if (status !== 'all' && !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+    throw new ApiError(400, `"status" must be one of ${REVIEW_STATUSES.join(', ')}, all`);
+  }
+  const kind = query.get('kind');
+  if (kind !== null && !REVIEW_KINDS.includes(kind as ReviewKind)) {
+    throw new ApiError(400, `"kind" must be one of ${REVIEW_KINDS.join(', ')}`);
+  }
+  return {
+    ...pageOptions(query),
+    status: status === 'all' ? undefined : status as ReviewStatus,
+    kind: (kind ?? undefined) as ReviewKind | undefined,
+    arxivId: query.get('paper') ?? undefined
+  };
+}
+
+// Decisions are attributed to the name the client gives; there are no accounts
+function reviewer(body: Record<string, unknown>): string {
+  const name = body.reviewed_by;
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new ApiError(400, '"reviewed_by" is required');
+  }
+  return name.trim();
+}
+
+// Field values are checked by ReviewQueue
+function reviewEdits(body: Record<string, unknown>): ReviewEdits {
+  const edits = body.edits ?? {};
+  if (!edits || typeof edits !== 'object' || Array.isArray(edits)) {
+    throw new ApiError(400, '"edits" must be an object');
+  }
+  return edits as ReviewEdits;
+}
+
+function minConfidence(query: URLSearchParams): number {
+  const value = query.get('min_confidence');
+  if (value === null) return 0;
+  const parsed = Number(value);
+  if (value.trim() === '' || Number.isNaN(parsed) || parsed < 0 || parsed > 1) {
+    throw new ApiError(400, `"min_confidence" must be between 0 and 1, got "${value}"`);
+  }
+  return parsed;
+}
+
+function integerParam(query: URLSearchParams, name: string, fallback: number, min: number, max: number): number {
+  const value = query.get(name);
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ApiError(400, `"${name}" must be an integer from ${min} to ${max}, got "${value}"`);
+  }
+  return parsed;
+}
@@ -0,0 +1,26 @@
+export interface ArxivIdParts {
+  // Without the version suffix: 2308.04079, hep-th/9901001
+  id: string;
+  version: number | null;
+}
+
+/**
+ * Splits an arXiv identifier into its base ID and version. Accepts bare IDs,
+ * "arXiv:" prefixes and abs/pdf URLs as returned in Atom `<id>` elements.
+ */
+export function parseArxivId(raw: string): ArxivIdParts {
+  const id = raw
+    .trim()
+    .replace(/^https?:\/\/(export\.)?arxiv\.org\/(abs|pdf)\//i, '')
+    .replace(/^arxiv:/i, '')
+    .replace(/\.pdf$/i, '');
+  const versioned = id.match(/^(.+?)v(\d+)$/);
+  return versioned
+    ? { id: versioned[1], version: Number(versioned[2]) }
+    : { id, version: null };
+}
+
+// The base ID papers are stored and looked up under
+export function normalizeArxivId(raw: string): string {
+  return parseArxivId(raw).id;
+}
@@ -0,0 +1,233 @@
+import type { ArxivPaper, PaperAuthor, PaperLink } from '../types.js';
+import { parseArxivId } from './arxivId.js';
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const ARXIV_NS = 'http://arxiv.org/schemas/atom';
+const OPENSEARCH_NS = 'http://a9.com/-/spec/opensearch/1.1/';
+
+export interface ArxivFeed {
+  // opensearch:totalResults, startIndex and itemsPerPage; totalResults is null when absent
+  totalResults: number | null;
+  startIndex: number;
+  itemsPerPage: number | null;
+  entries: ArxivPaper[];
+  // Entries left out for missing an ID, title or abstract, with the reason
+  skipped: string[];
+}
+
+/**
+ * The error arXiv reports as an Atom entry (id http://arxiv.org/api/errors#...),
+ * e.g. for a malformed ID or query
+ */
+export class ArxivApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArxivApiError';
+  }
+}
+
+/**
+ * Reads an arXiv API Atom feed (search results or id_list lookups)
+ */
+export function parseArxivFeed(xml: string): ArxivFeed {
+  const feed = parseXml(xml);
+  if (feed.ns !== ATOM_NS || feed.name !== 'feed') {
+    throw new Error(`Expected an Atom feed, got <${feed.name}>`);
+  }
+
+  const entries: ArxivPaper[] = [];
+  const skipped: string[] = [];
+  for (const entry of children(feed, ATOM_NS, 'entry')) {
+    const id = text(child(entry, ATOM_NS, 'id'));
+    if (id.includes('arxiv.org/api/errors')) {
+      throw new ArxivApiError(`arXiv API error: ${collapse(text(child(entry, ATOM_NS, 'summary'))) || id}`);
+    }
+    try {
+      entries.push(parseEntry(entry));
+    } catch (error: any) {
+      skipped.push(error.message);
+    }
+  }
+
+  const totalResults = child(feed, OPENSEARCH_NS, 'totalResults');
+  const itemsPerPage = child(feed, OPENSEARCH_NS, 'itemsPerPage');
+  return {
+    totalResults: totalResults ? Number(text(totalResults)) : null,
+    startIndex: Number(text(child(feed, OPENSEARCH_NS, 'startIndex'))) || 0,
+    itemsPerPage: itemsPerPage ? Number(text(itemsPerPage)) : null,
+    entries,
+    skipped
+  };
+}
+
+function parseEntry(entry: XmlElement): ArxivPaper {
+  const rawId = text(child(entry, ATOM_NS, 'id'));
+  const title = collapse(text(child(entry, ATOM_NS, 'title')));
+  const abstract = collapse(text(child(entry, ATOM_NS, 'summary')));
+  if (!rawId) throw new Error('Entry without an <id>');
+  if (!title) throw new Error(`Entry ${rawId} has no title`);
+  if (!abstract) throw new Error(`Entry ${rawId} has no abstract`);
+
+  const { id, version } = parseArxivId(rawId);
+  const authors: PaperAuthor[] = children(entry, ATOM_NS, 'author').map(author => ({
+    name: collapse(text(child(author, ATOM_NS, 'name'))),
+    affiliations: children(author, ARXIV_NS, 'affiliation').map(affiliation => collapse(text(affiliation))).filter(Boolean)
+  })).filter(author => author.name);
+
+  const links: PaperLink[] = children(entry, ATOM_NS, 'link')
+    .filter(link => link.attributes.href)
+    .map(link => ({
+      href: link.attributes.href,
+      rel: link.attributes.rel ?? 'alternate',
+      ...(link.attributes.type ? { type: link.attributes.type } : {}),
+      ...(link.attributes.title ? { title: link.attributes.title } : {})
+    }));
+  const pdf = links.find(link => link.title === 'pdf' || link.type === 'application/pdf');
+
+  return {
+    arxiv_id: id,
+    version,
+    title,
+    authors: authors.map(author => author.name),
+    abstract,
+    published_date: text(child(entry, ATOM_NS, 'published')),
+    updated_date: text(child(entry, ATOM_NS, 'updated')) || null,
+    pdf_url: pdf?.href ?? `https://arxiv.org/pdf/${id}`,
+    categories: children(entry, ATOM_NS, 'category').map(category => category.attributes.term).filter(Boolean),
+    primary_category: child(entry, ARXIV_NS, 'primary_category')?.attributes.term ?? null,
+    doi: collapse(text(child(entry, ARXIV_NS, 'doi'))) || null,
+    journal_ref: collapse(text(child(entry, ARXIV_NS, 'journal_ref'))) || null,
+    comment: collapse(text(child(entry, ARXIV_NS, 'comment'))) || null,
+    author_details: authors,
+    links
+  };
+}
+
+// Atom text constructs are free to wrap lines; titles and abstracts are stored on one line
+function collapse(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+// --- Minimal namespace-aware XML reader -----------------------------------
+// Enough XML for Atom feeds: elements, attributes, namespaces, character and
+// entity references, CDATA; comments, processing instructions and DOCTYPE are skipped.
+
+interface XmlElement {
+  ns: string | null;
+  name: string;
+  // By qualified name as written (href, rel, term, xml:lang); namespace declarations excluded
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+const TAG = /<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { ns: null, name: '#document', attributes: {}, children: [], text: '' };
+  const stack: Array<{ element: XmlElement; prefixes: Map<string, string>; qualifiedName: string }> = [
+    { element: root, prefixes: new Map([['xml', 'http://www.w3.org/XML/1998/namespace']]), qualifiedName: '' }
+  ];
+  let position = 0;
+
+  while (position < xml.length) {
+    const open = xml.indexOf('<', position);
+    const top = stack[stack.length - 1];
+    if (open === -1) {
+      top.element.text += decodeEntities(xml.slice(position));
+      break;
+    }
+    if (open > position) {
+      top.element.text += decodeEntities(xml.slice(position, open));
+    }
+
+    if (xml.startsWith('<!--', open)) {
+      position = skipPast(xml, open, '-->');
+    } else if (xml.startsWith('<![CDATA[', open)) {
+      const end = xml.indexOf(']]>', open);
+      if (end === -1) throw new Error('Unterminated CDATA section');
+      top.element.text += xml.slice(open + 9, end);
+      position = end + 3;
+    } else if (xml.startsWith('<?', open)) {
+      position = skipPast(xml, open, '?>');
+    } else if (xml.startsWith('<!', open)) {
+      position = skipPast(xml, open, '>');
+    } else {
+      TAG.lastIndex = open;
+      const tag = TAG.exec(xml);
+      if (!tag) throw new Error(`Malformed tag at offset ${open}`);
+      const [whole, closing, qualifiedName, rawAttributes, selfClosing] = tag;
+      position = open + whole.length;
+
+      if (closing) {
+        if (stack.length === 1 || top.qualifiedName !== qualifiedName) {
+          throw new Error(`Unexpected </${qualifiedName}> at offset ${open}`);
+        }
+        stack.pop();
+        continue;
+      }
+
+      const prefixes = new Map(top.prefixes);
+      const attributes: Record<string, string> = {};
+      for (const [, name, doubleQuoted, singleQuoted] of rawAttributes.matchAll(ATTRIBUTE)) {
+        const value = decodeEntities(doubleQuoted ?? singleQuoted);
+        if (name === 'xmlns') prefixes.set('', value);
+        else if (name.startsWith('xmlns:')) prefixes.set(name.slice(6), value);
+        else attributes[name] = value;
+      }
+
+      const separator = qualifiedName.indexOf(':');
+      const prefix = separator === -1 ? '' : qualifiedName.slice(0, separator);
+      const element: XmlElement = {
+        ns: prefixes.get(prefix) ?? null,
+        name: separator === -1 ? qualifiedName : qualifiedName.slice(separator + 1),
+        attributes,
+        children: [],
+        text: ''
+      };
+      if (prefix && !prefixes.has(prefix)) {
+        throw new Error(`Undeclared namespace prefix "${prefix}" at offset ${open}`);
+      }
+      top.element.children.push(element);
+      if (!selfClosing) stack.push({ element, prefixes, qualifiedName });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed <${stack[stack.length - 1].qualifiedName}>`);
+  }
+  if (root.children.length !== 1) {
+    throw new Error('Expected a single root element');
+  }
+  return root.children[0];
+}
+
+function skipPast(xml: string, from: number, terminator: string): number {
+  const end = xml.indexOf(terminator, from);
+  if (end === -1) throw new Error(`Expected "${terminator}" after offset ${from}`);
+  return end + terminator.length;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z]+);/g, (reference, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return NAMED_ENTITIES[name] ?? reference;
+  });
+}
+
+function children(element: XmlElement, ns: string, name: string): XmlElement[] {
+  return element.children.filter(candidate => candidate.ns === ns && candidate.name === name);
+}
+
+function child(element: XmlElement, ns: string, name: string): XmlElement | undefined {
+  return element.children.find(candidate => candidate.ns === ns && candidate.name === name);
+}
+
+// Text of the element and its descendants
+function text(element: XmlElement | undefined): string {
+  if (!element) return '';
+  return element.text + element.children.map(text).join('');
+}
@@ -0,0 +1,40 @@
+import { readFileSync } from 'fs';
+import type { CitationProvider, CitedPaper } from '../types.js';
+
+// A neighbour given as a bare arXiv ID, or with whatever else is known about it
+type FileEntry = string | CitedPaper;
+
+interface FileRecord {
+  references?: FileEntry[];
+  citations?: FileEntry[];
+}
+
+/**
+ * Serves citations from a JSON file keyed by arXiv ID, for running offline:
+ *   { "2308.04079": { "references": ["2003.08934"], "citations": [{ "arxiv_id": "2311.12775", "title": "..." }] } }
+ * Papers missing from the file have no links.
+ */
+export class FileCitationProvider implements CitationProvider {
+  readonly name = 'file';
+  private records: Record<string, FileRecord>;
+
+  constructor(file: string) {
+    const parsed = JSON.parse(readFileSync(file, 'utf-8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`CITATION_FILE must contain a JSON object keyed by arXiv ID: ${file}`);
+    }
+    this.records = parsed;
+  }
+
+  async getReferences(arxivId: string): Promise<CitedPaper[]> {
+    return (this.records[arxivId]?.references ?? []).map(toCitedPaper);
+  }
+
+  async getCitations(arxivId: string, limit: number): Promise<CitedPaper[]> {
+    return (this.records[arxivId]?.citations ?? []).slice(0, limit).map(toCitedPaper);
+  }
+}
+
+function toCitedPaper(entry: FileEntry): CitedPaper {
+  return typeof entry === 'string' ? { arxiv_id: entry, title: '' } : entry;
+}
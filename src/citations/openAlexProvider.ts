@@ -0,0 +1,127 @@
+import { rateLimiter, RateLimits } from '../scheduling/rateLimiter.js';
+import { fetchWithTimeout, HttpError, withRetry } from '../scheduling/retry.js';
+import type { CitationProvider, CitedPaper } from '../types.js';
+
+// OpenAlex allows 10 requests/second
+export const OPENALEX_RATE_LIMITS: RateLimits = { minIntervalMs: 150 };
+
+const SELECT = 'id,doi,title,publication_date,abstract_inverted_index,locations';
+// OpenAlex caps an OR filter at 50 values
+const BATCH_SIZE = 50;
+
+interface OpenAlexWork {
+  id: string;
+  doi?: string | null;
+  title?: string | null;
+  publication_date?: string | null;
+  abstract_inverted_index?: Record<string, number[]> | null;
+  locations?: Array<{ landing_page_url?: string | null }> | null;
+  referenced_works?: string[];
+}
+
+/**
+ * Finds arXiv papers through the DOI arXiv registers for every preprint
+ * (10.48550/arXiv.<id>). OpenAlex sometimes keeps the preprint apart from its
+ * published version, in which case it knows fewer links than Semantic Scholar.
+ */
+export class OpenAlexProvider implements CitationProvider {
+  readonly name = 'openalex';
+  private baseUrl = 'https://api.openalex.org';
+  private limiter = rateLimiter('openalex', OPENALEX_RATE_LIMITS);
+
+  // A contact address puts requests in OpenAlex's faster "polite pool"
+  constructor(private mailto?: string) {}
+
+  async getReferences(arxivId: string): Promise<CitedPaper[]> {
+    const work = await this.findWork(arxivId);
+    const referenced = (work?.referenced_works ?? []).map(shortId);
+
+    const papers: CitedPaper[] = [];
+    for (let i = 0; i < referenced.length; i += BATCH_SIZE) {
+      const batch = referenced.slice(i, i + BATCH_SIZE);
+      const works = await this.list(`filter=openalex:${batch.join('|')}&per-page=${BATCH_SIZE}`, `fetch references of ${arxivId}`);
+      papers.push(...toCitedPapers(works));
+    }
+    return papers;
+  }
+
+  async getCitations(arxivId: string, limit: number): Promise<CitedPaper[]> {
+    const work = await this.findWork(arxivId);
+    if (!work) return [];
+
+    const works = await this.list(
+      `filter=cites:${shortId(work.id)}&sort=cited_by_count:desc&per-page=${Math.min(limit, 200)}`,
+      `fetch citations of ${arxivId}`
+    );
+    return toCitedPapers(works);
+  }
+
+  private async findWork(arxivId: string): Promise<OpenAlexWork | null> {
+    return this.get<OpenAlexWork>(
+      `works/doi:10.48550/arXiv.${arxivId}?select=id,referenced_works`,
+      `look up ${arxivId}`
+    );
+  }
+
+  private async list(query: string, label: string): Promise<OpenAlexWork[]> {
+    const page = await this.get<{ results: OpenAlexWork[] }>(`works?${query}&select=${SELECT}`, label);
+    return page?.results ?? [];
+  }
+
+  // Works OpenAlex does not know come back as 404, which just means no links
+  private async get<T>(path: string, label: string): Promise<T | null> {
+    const separator = path.includes('?') ? '&' : '?';
+    const url = `${this.baseUrl}/${path}${this.mailto ? `${separator}mailto=${encodeURIComponent(this.mailto)}` : ''}`;
+
+    return withRetry(`${label} from OpenAlex`, async () => {
+      try {
+        const response = await fetchWithTimeout(url, {}, 20000);
+        return await response.json() as T;
+      } catch (error) {
+        if (error instanceof HttpError && error.status === 404) return null;
+        throw error;
+      }
+    }, { limiter: this.limiter });
+  }
+}
+
+function toCitedPapers(works: OpenAlexWork[]): CitedPaper[] {
+  const papers: CitedPaper[] = [];
+  for (const work of works) {
+    const arxivId = arxivIdOf(work);
+    if (!arxivId) continue;
+    papers.push({
+      arxiv_id: arxivId,
+      title: work.title ?? '',
+      abstract: work.abstract_inverted_index ? rebuildAbstract(work.abstract_inverted_index) : undefined,
+      published_date: work.publication_date ?? undefined
+    });
+  }
+  return papers;
+}
+
+function arxivIdOf(work: OpenAlexWork): string | null {
+  const fromDoi = work.doi?.match(/10\.48550\/arxiv\.(.+)$/i);
+  if (fromDoi) return fromDoi[1];
+
+  for (const location of work.locations ?? []) {
+    const fromUrl = location.landing_page_url?.match(/arxiv\.org\/abs\/([^?#]+?)(?:v\d+)?$/i);
+    if (fromUrl) return fromUrl[1];
+  }
+  return null;
+}
+
+// OpenAlex ships abstracts as word -> positions
+function rebuildAbstract(index: Record<string, number[]>): string {
+  const words: string[] = [];
+  for (const [word, positions] of Object.entries(index)) {
+    for (const position of positions) {
+      words[position] = word;
+    }
+  }
+  return words.filter(Boolean).join(' ');
+}
+
+function shortId(id: string): string {
+  return id.replace('https://openalex.org/', '');
+}
@@ -0,0 +1,34 @@
+import { SemanticScholarProvider } from './semanticScholarProvider.js';
+import { OpenAlexProvider } from './openAlexProvider.js';
+import { FileCitationProvider } from './fileCitationProvider.js';
+import type { CitationProvider } from '../types.js';
+
+/**
+ * Builds the citation source selected by CITATION_PROVIDER
+ * (semantic-scholar | openalex | file | none). Returns null for none, which
+ * leaves discovery to keyword search.
+ */
+export function createCitationProvider(env: NodeJS.ProcessEnv = process.env): CitationProvider | null {
+  const providerName = (env.CITATION_PROVIDER || 'semantic-scholar').trim().toLowerCase();
+
+  switch (providerName) {
+    case 'semantic-scholar':
+    case 's2':
+      return new SemanticScholarProvider(env.SEMANTIC_SCHOLAR_API_KEY);
+
+    case 'openalex':
+      return new OpenAlexProvider(env.OPENALEX_MAILTO);
+
+    case 'file':
+      if (!env.CITATION_FILE) {
+        throw new Error('CITATION_PROVIDER=file needs CITATION_FILE');
+      }
+      return new FileCitationProvider(env.CITATION_FILE);
+
+    case 'none':
+      return null;
+
+    default:
+      throw new Error(`Unknown CITATION_PROVIDER "${providerName}". Use semantic-scholar, openalex, file or none`);
+  }
+}
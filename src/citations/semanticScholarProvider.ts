@@ -0,0 +1,67 @@
+import { rateLimiter, RateLimits } from '../scheduling/rateLimiter.js';
+import { fetchWithTimeout, HttpError, withRetry } from '../scheduling/retry.js';
+import type { CitationProvider, CitedPaper } from '../types.js';
+
+// Keys are granted 1 request/second; anonymous callers share a pool and see 429s sooner
+export const SEMANTIC_SCHOLAR_RATE_LIMITS: RateLimits = { minIntervalMs: 1000 };
+
+const FIELDS = 'externalIds,title,abstract,publicationDate';
+
+interface S2Paper {
+  externalIds?: { ArXiv?: string } | null;
+  title?: string | null;
+  abstract?: string | null;
+  publicationDate?: string | null;
+}
+
+export class SemanticScholarProvider implements CitationProvider {
+  readonly name = 'semantic-scholar';
+  private baseUrl = 'https://api.semanticscholar.org/graph/v1';
+  private limiter = rateLimiter('semantic-scholar', SEMANTIC_SCHOLAR_RATE_LIMITS);
+
+  constructor(private apiKey?: string) {}
+
+  async getReferences(arxivId: string): Promise<CitedPaper[]> {
+    const data = await this.get<{ citedPaper: S2Paper }>(`paper/arXiv:${arxivId}/references?fields=${FIELDS}&limit=1000`, `fetch references of ${arxivId}`);
+    return toCitedPapers(data.map(entry => entry.citedPaper));
+  }
+
+  async getCitations(arxivId: string, limit: number): Promise<CitedPaper[]> {
+    const data = await this.get<{ citingPaper: S2Paper }>(
+      `paper/arXiv:${arxivId}/citations?fields=${FIELDS}&limit=${Math.min(limit, 1000)}`,
+      `fetch citations of ${arxivId}`
+    );
+    return toCitedPapers(data.map(entry => entry.citingPaper));
+  }
+
+  // Papers Semantic Scholar has not indexed come back as 404, which just means no links
+  private async get<T>(path: string, label: string): Promise<T[]> {
+    const headers: Record<string, string> = this.apiKey ? { 'x-api-key': this.apiKey } : {};
+
+    return withRetry(`${label} from Semantic Scholar`, async () => {
+      try {
+        const response = await fetchWithTimeout(`${this.baseUrl}/${path}`, { headers }, 20000);
+        const body = await response.json() as { data?: T[] | null };
+        return body.data ?? [];
+      } catch (error) {
+        if (error instanceof HttpError && error.status === 404) return [];
+        throw error;
+      }
+    }, { limiter: this.limiter });
+  }
+}
+
+function toCitedPapers(papers: Array<S2Paper | null | undefined>): CitedPaper[] {
+  const result: CitedPaper[] = [];
+  for (const paper of papers) {
+    const arxivId = paper?.externalIds?.ArXiv;
+    if (!paper || !arxivId) continue;
+    result.push({
+      arxiv_id: arxivId,
+      title: paper.title ?? '',
+      abstract: paper.abstract ?? undefined,
+      published_date: paper.publicationDate ?? undefined
+    });
+  }
+  return result;
+}
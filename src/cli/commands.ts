@@ -0,0 +1,908 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { userInfo } from 'os';
+import { basename, join } from 'path';
+import type { GraphStore } from '../database/graphStore.js';
+import type { PaperPlan, PipelineOrchestrator, RunReport } from '../orchestrator.js';
+import { GraphQueries } from '../query/graphQueries.js';
+import type { SemanticIndex } from '../embeddings/semanticIndex.js';
+import { exportGraph, EXPORT_FORMATS, ExportFilters, ExportFormat } from '../export/graphExport.js';
+import { createApiServer } from '../api/server.js';
+import { ENTITY_TYPES, loadEvalReport, loadGoldSet } from '../evaluation/extractionEval.js';
+import type { EvalScore, GoldPaper, StageScores } from '../evaluation/extractionEval.js';
+import { COMPARED_TYPES } from '../evaluation/promptComparison.js';
+import type { PromptComparisonReport, PromptStats } from '../evaluation/promptComparison.js';
+import { loadPromptTemplate } from '../prompts/promptTemplate.js';
+import { REVIEW_KINDS, REVIEW_STATUSES, ReviewError, ReviewQueue } from '../review/reviewQueue.js';
+import type { ReviewEdits } from '../review/reviewQueue.js';
+import { ConceptResolver } from '../resolution/conceptResolver.js';
+import type { Concept, Method, Relationship, ReviewItem, ReviewKind, ReviewStatus } from '../types.js';
+
+// Exit codes, so cron jobs can tell a partial run from a broken one
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_PARTIAL = 3;
+
+/**
+ * Bad arguments; reported with the command's usage and EXIT_USAGE
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface CommandContext {
+  store: GraphStore;
+  // Created on first use, so commands that only read the graph need no LLM credentials
+  orchestrator(): PipelineOrchestrator;
+  // Likewise; needs only embedding settings
+  semanticIndex(): SemanticIndex;
+  dryRun: boolean;
+}
+
+export interface CommandResult {
+  // Printed as JSON with --json
+  data: unknown;
+  // Printed otherwise
+  lines: string[];
+  exitCode?: number;
+}
+
+export type OptionValues = Record<string, string | boolean | undefined>;
+
+export interface Command {
+  usage: string;
+  description: string;
+  options: Record<string, { type: 'string' | 'boolean'; short?: string }>;
+  // Command prints a document of its own on stdout, so logging must go to stderr
+  writesStdout?: boolean;
+  run(context: CommandContext, positionals: string[], values: OptionValues): Promise<CommandResult>;
+}
+
+export const COMMANDS: Record<string, Command> = {
+  build: {
+    usage: 'build [--seed <arxiv-id,...>] [--limit <n>] [--keywords <a,b,...>]',
+    description: "Process the profile's seed papers, discover related papers on arXiv and process them (default command)",
+    options: {
+      seed: { type: 'string' },
+      limit: { type: 'string' },
+      keywords: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 0, 0);
+      const options = {
+        seeds: values.seed ? (values.seed as string).split(',').map(s => s.trim()).filter(Boolean) : undefined,
+        limit: values.limit !== undefined ? positiveInteger('--limit', values.limit as string) : undefined,
+        keywords: values.keywords ? (values.keywords as string).split(',').map(k => k.trim()).filter(Boolean) : undefined
+      };
+
+      if (context.dryRun) {
+        return planResult(await context.orchestrator().planBuild(options));
+      }
+      return runResult(await context.orchestrator().buildKnowledgeGraph(options));
+    }
+  },
+
+  ingest: {
+    usage: 'ingest <arxiv-id...>',
+    description: 'Process specific papers, skipping ones already in the graph',
+    options: {},
+    async run(context, positionals) {
+      expectPositionals(positionals, 1);
+      if (context.dryRun) {
+        return planResult(await context.orchestrator().planPapers(positionals));
+      }
+      return runResult(await context.orchestrator().ingest(positionals));
+    }
+  },
+
+  reextract: {
+    usage: 'reextract <arxiv-id...> | reextract --all',
+    description: 'Extract stored papers again, replacing their concepts, relationships and entities',
+    options: {
+      all: { type: 'boolean' }
+    },
+    async run(context, positionals, values) {
+      if (values.all ? positionals.length > 0 : positionals.length === 0) {
+        throw new UsageError('Give either paper IDs or --all');
+      }
+      const orchestrator = context.orchestrator();
+      const arxivIds = values.all ? await orchestrator.listStoredArxivIds() : positionals;
+
+      if (context.dryRun) {
+        return planResult(await orchestrator.planPapers(arxivIds));
+      }
+      return runResult(await orchestrator.reextract(arxivIds));
+    }
+  },
+
+  sync: {
+    usage: 'sync [--since <date>] [--keywords <a,b,...>]',
+    description: "Process papers submitted since the profile's last sync and re-extract stored papers revised on arXiv",
+    options: {
+      since: { type: 'string' },
+      keywords: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 0, 0);
+      const since = values.since as string | undefined;
+      if (since !== undefined && Number.isNaN(Date.parse(since))) {
+        throw new UsageError(`--since must be a date such as 2024-01-01, got "${since}"`);
+      }
+      const options = {
+        since,
+        keywords: values.keywords ? (values.keywords as string).split(',').map(k => k.trim()).filter(Boolean) : undefined
+      };
+
+      if (context.dryRun) {
+        const plan = await context.orchestrator().planSync(options);
+        return {
+          data: plan,
+          lines: [
+            `Submitted ${plan.since} to ${plan.until}: ${plan.newPapers.length} new papers`,
+            ...plan.newPapers.map(paper => `  ${paper.arxiv_id}  ${paper.title}`),
+            `Revised since ${plan.revisedSince}: ${plan.updatedPapers.length} updated papers`,
+            ...plan.updatedPapers.map(paper => `  ${paper.arxiv_id}  ${paper.title}`),
+            `High-water mark after sync: ${plan.highWaterMark}`
+          ]
+        };
+      }
+      return runResult(await context.orchestrator().sync(options));
+    }
+  },
+
+  resume: {
+    usage: 'resume [run-id]',
+    description: 'Continue a run (the latest by default): unreached, interrupted and retryable failed papers',
+    options: {},
+    async run(context, positionals) {
+      expectPositionals(positionals, 0, 1);
+      if (context.dryRun) {
+        const plan = await context.orchestrator().planResume(positionals[0]);
+        const result = planResult(plan.papers);
+        return { ...result, data: plan, lines: [`Run ${plan.runId}`, ...result.lines] };
+      }
+      return runResult(await context.orchestrator().resume(positionals[0]));
+    }
+  },
+
+  search: {
+    usage: 'search <query...> [--limit <n>]',
+    description: 'Search stored papers (title, abstract) and concepts (name)',
+    options: {
+      limit: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 1);
+      const limit = values.limit !== undefined ? positiveInteger('--limit', values.limit as string) : 20;
+      const results = await new GraphQueries(context.store).search(positionals.join(' '), limit);
+
+      return {
+        data: results,
+        lines: [
+          `Papers (${results.papers.length}):`,
+          ...results.papers.map(hit => `  ${hit.arxiv_id}  ${hit.title}  [${hit.score}]`),
+          `Concepts (${results.concepts.length}):`,
+          ...results.concepts.map(hit => `  ${hit.name} (${hit.category})  [${hit.score}]`)
+        ]
+      };
+    }
+  },
+
+  similar: {
+    usage: 'similar <arxiv-id> [--limit <n>]',
+    description: 'Stored papers closest to a stored paper by abstract embedding',
+    options: {
+      limit: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 1, 1);
+      const limit = values.limit !== undefined ? positiveInteger('--limit', values.limit as string) : 10;
+      const papers = await context.semanticIndex().similarPapers(positionals[0], limit);
+
+      return {
+        data: papers,
+        lines: papers.map(hit => `  ${hit.arxiv_id}  ${hit.title}  [${hit.score}]`)
+      };
+    }
+  },
+
+  versions: {
+    usage: 'versions <arxiv-id>',
+    description: "A stored paper's arXiv versions and what changed in each",
+    options: {},
+    async run(context, positionals) {
+      expectPositionals(positionals, 1, 1);
+      const versions = await new GraphQueries(context.store).paperVersions(positionals[0]);
+      if (!versions) {
+        throw new Error(`Paper ${positionals[0]} is not in the knowledge graph`);
+      }
+
+      const lines: string[] = [];
+      for (const version of versions) {
+        lines.push(`v${version.version}  ${version.updated_date ?? 'date unknown'}  recorded ${version.recorded_at}`);
+        for (const change of version.changes) {
+          lines.push(change.field === 'abstract'
+            ? `  abstract changed (${change.before.length} -> ${change.after.length} characters)`
+            : `  ${change.field}: "${change.before}" -> "${change.after}"`);
+        }
+      }
+      return { data: versions, lines };
+    }
+  },
+
+  extractions: {
+    usage: 'extractions <arxiv-id> [--limit <n>]',
+    description: 'The LLM calls made to extract a paper, oldest first: model, prompt version, latency, tokens and errors',
+    options: {
+      limit: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 1, 1);
+      const page = await new GraphQueries(context.store).extractions(positionals[0], {
+        limit: values.limit !== undefined ? positiveInteger('--limit', values.limit as string) : 50
+      });
+      if (!page) {
+        throw new Error(`Paper ${positionals[0]} is not in the knowledge graph`);
+      }
+
+      const lines = [`${page.total} extraction calls${page.total > page.items.length ? `, showing ${page.items.length}` : ''}`];
+      for (const call of page.items) {
+        const tokens = call.usage ? `${call.usage.total_tokens} tokens` : 'tokens not reported';
+        lines.push(`  ${call.id}  ${call.created_at}  ${call.section}  ${call.provider}/${call.model}  ${call.prompt_version}  ${call.latency_ms} ms, ${tokens}`);
+        if (call.error) {
+          lines.push(`      failed: ${call.error}`);
+        }
+      }
+      return { data: page, lines };
+    }
+  },
+
+  extraction: {
+    usage: 'extraction <id>',
+    description: 'One extraction call in full: the prompt sent and the raw response, as referenced by extraction_id',
+    options: {},
+    async run(context, positionals) {
+      expectPositionals(positionals, 1, 1);
+      const record = await new GraphQueries(context.store).getExtraction(positionals[0]);
+      if (!record) {
+        throw new Error(`Extraction record ${positionals[0]} not found`);
+      }
+
+      const lines = [
+        `Extraction ${record.id} (${record.section}, run ${record.run_id ?? 'none'}, ${record.created_at})`,
+        `  ${record.provider}/${record.model}, temperature ${record.temperature}, max tokens ${record.max_tokens}, prompt ${record.prompt_version}`,
+        `  ${record.latency_ms} ms` + (record.usage
+          ? `, ${record.usage.prompt_tokens} prompt + ${record.usage.completion_tokens} completion tokens`
+          : ', tokens not reported')
+      ];
+      if (record.error) {
+        lines.push(`  failed: ${record.error}`);
+      }
+      for (const message of record.request.messages) {
+        lines.push('', `--- ${message.role} ---`, message.content);
+      }
+      lines.push('', '--- response ---', record.response ?? '(none)');
+      return { data: record, lines };
+    }
+  },
+
+  ask: {
+    usage: 'ask <question...> [--papers <n>] [--min-confidence <0-1>]',
+    description: 'Answer a question from the graph with the LLM, citing arXiv IDs and stored evidence',
+    options: {
+      papers: { type: 'string' },
+      'min-confidence': { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 1);
+      const options = {
+        maxPapers: values.papers !== undefined ? positiveInteger('--papers', values.papers as string) : undefined,
+        minConfidence: values['min-confidence'] !== undefined
+          ? confidence('--min-confidence', values['min-confidence'] as string)
+          : undefined
+      };
+      const question = positionals.join(' ');
+      if (context.dryRun) {
+        const plan = await context.orchestrator().planAnswer(question, options);
+        return {
+          data: plan,
+          lines: [
+            `Matched: ${plan.matchedEntities.join(', ') || 'no entities'}`,
+            `Would send ${plan.retrievedPapers.length} papers to the model: ${plan.retrievedPapers.join(', ')}`
+          ]
+        };
+      }
+      const answer = await context.orchestrator().ask(question, options);
+
+      return {
+        data: answer,
+        lines: [
+          answer.answer,
+          ...(answer.citations.length > 0 ? ['', 'Sources:'] : []),
+          ...answer.citations.map(citation => `  [${citation.arxiv_id}] ${citation.title}: "${citation.evidence}"`)
+        ]
+      };
+    }
+  },
+
+  eval: {
+    usage: 'eval <gold-file> [--output <path>] [--threshold <0-1>] | eval --compare <report...>',
+    description: 'Score extraction and validation against hand-annotated papers, or compare saved reports',
+    options: {
+      output: { type: 'string', short: 'o' },
+      threshold: { type: 'string' },
+      compare: { type: 'boolean' }
+    },
+    async run(context, positionals, values) {
+      if (values.compare) {
+        expectPositionals(positionals, 1);
+        const reports = positionals.map(path => ({ path, report: loadEvalReport(path) }));
+        return {
+          data: reports,
+          lines: [
+            ...reports.map(({ path, report }) =>
+              `${basename(path)}: ${report.provider}/${report.model}, ${report.gold}, threshold ${report.threshold}, ${report.created_at}`),
+            '',
+            ...scoreTable(reports.map(({ path, report }) => ({ label: basename(path), scores: report.validated })))
+          ]
+        };
+      }
+
+      expectPositionals(positionals, 1, 1);
+      const gold = loadGoldSet(positionals[0]);
+      const threshold = values.threshold !== undefined ? confidence('--threshold', values.threshold as string) : undefined;
+
+      if (context.dryRun) {
+        const papers = await textSources(context, gold.papers);
+        return {
+          data: { gold: gold.name, papers },
+          lines: [`Would evaluate ${papers.length} papers from ${gold.name}`, ...papers.map(p => `  ${p.arxivId}  text from ${p.source}`)]
+        };
+      }
+
+      const report = await context.orchestrator().evaluateExtraction(gold, { threshold });
+      const output = values.output as string | undefined;
+      if (output) {
+        writeFileSync(output, JSON.stringify(report, null, 2));
+      }
+
+      const failed = report.papers.filter(paper => paper.error);
+      return {
+        data: report,
+        lines: [
+          `${report.gold}: ${report.papers.length - failed.length}/${report.papers.length} papers, ${report.provider}/${report.model}, threshold ${report.threshold}`,
+          '',
+          ...scoreTable([
+            { label: 'extracted', scores: report.extracted },
+            { label: 'validated', scores: report.validated }
+          ]),
+          ...failed.map(paper => `Failed: ${paper.arxiv_id}: ${paper.error}`),
+          ...(output ? [`Report written to ${output}`] : [])
+        ],
+        exitCode: failed.length > 0 ? EXIT_PARTIAL : EXIT_OK
+      };
+    }
+  },
+
+  'compare-prompts': {
+    usage: 'compare-prompts <template-a> <template-b> [arxiv-id...] [--gold <file>] [--output <path>] [--threshold <0-1>]',
+    description: 'Run two extraction prompt templates over the same papers and compare the results',
+    options: {
+      gold: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      threshold: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 2);
+      const templates = [loadPromptTemplate(positionals[0]), loadPromptTemplate(positionals[1])] as const;
+      if (templates[0].text === templates[1].text) {
+        throw new UsageError(`${templates[0].file} and ${templates[1].file} are the same prompt`);
+      }
+      const papers: Array<Pick<GoldPaper, 'arxiv_id' | 'title' | 'abstract'>> = [
+        ...(values.gold ? loadGoldSet(values.gold as string).papers : []),
+        ...positionals.slice(2).map(arxivId => ({ arxiv_id: arxivId }))
+      ];
+      if (papers.length === 0) {
+        throw new UsageError('Give the papers to compare on as arXiv IDs or with --gold');
+      }
+      const threshold = values.threshold !== undefined ? confidence('--threshold', values.threshold as string) : undefined;
+
+      if (context.dryRun) {
+        const sources = await textSources(context, papers);
+        return {
+          data: { templates: templates.map(template => template.file), papers: sources },
+          lines: [
+            `Would compare ${templates[0].name} (A) and ${templates[1].name} (B) on ${sources.length} papers`,
+            ...sources.map(p => `  ${p.arxivId}  text from ${p.source}`)
+          ]
+        };
+      }
+
+      const report = await context.orchestrator().comparePrompts([templates[0], templates[1]], papers, { threshold });
+      const output = values.output as string | undefined;
+      if (output) {
+        writeFileSync(output, JSON.stringify(report, null, 2));
+      }
+
+      const failed = report.papers.filter(paper => paper.error);
+      return {
+        data: report,
+        lines: [
+          `${report.a.template} (A) vs ${report.b.template} (B): ${report.papers.length - failed.length}/${report.papers.length} papers, ` +
+            `${report.provider}/${report.model}, threshold ${report.threshold}`,
+          '',
+          ...comparisonTable(report),
+          ...failed.map(paper => `Failed: ${paper.arxiv_id}: ${paper.error}`),
+          ...(output ? [`Report written to ${output}`] : [])
+        ],
+        exitCode: failed.length > 0 ? EXIT_PARTIAL : EXIT_OK
+      };
+    }
+  },
+
+  review: {
+    usage: 'review [--status <pending|accepted|rejected|all>] [--kind <concept|relationship|method>] [--paper <arxiv-id>] [--limit <n>]',
+    description: 'List extracted entities kept out of the graph for review (pending ones by default), with the reasons',
+    options: {
+      status: { type: 'string' },
+      kind: { type: 'string' },
+      paper: { type: 'string' },
+      limit: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 0, 0);
+      const status = (values.status as string | undefined) ?? 'pending';
+      if (status !== 'all' && !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+        throw new UsageError(`--status must be one of ${REVIEW_STATUSES.join(', ')}, all; got "${status}"`);
+      }
+      const kind = values.kind as string | undefined;
+      if (kind !== undefined && !REVIEW_KINDS.includes(kind as ReviewKind)) {
+        throw new UsageError(`--kind must be one of ${REVIEW_KINDS.join(', ')}; got "${kind}"`);
+      }
+      const arxivId = values.paper as string | undefined;
+
+      const page = await new GraphQueries(context.store).reviewQueue({
+        status: status === 'all' ? undefined : status as ReviewStatus,
+        kind: kind as ReviewKind | undefined,
+        arxivId,
+        limit: values.limit !== undefined ? positiveInteger('--limit', values.limit as string) : 50
+      });
+      if (!page) {
+        throw new Error(`Paper ${arxivId} is not in the knowledge graph`);
+      }
+
+      const lines = [`${page.total} ${status === 'all' ? '' : `${status} `}review items${page.total > page.items.length ? `, showing ${page.items.length}` : ''}`];
+      for (const item of page.items) {
+        lines.push(`  ${item.id}  ${item.arxiv_id}  ${describeReviewEntity(item)}`);
+        lines.push(`      ${item.reasons.join('; ')}`);
+        if (item.status !== 'pending') {
+          lines.push(`      ${item.status} by ${item.reviewed_by} at ${item.reviewed_at}`);
+        }
+      }
+      return { data: page, lines };
+    }
+  },
+
+  'review-accept': {
+    usage: 'review-accept <id...> [--reviewer <name>]',
+    description: 'Store review items in the graph, marked as reviewed by you',
+    options: {
+      reviewer: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 1);
+      return decideReviewItems(context, positionals, 'accept', reviewerName(values));
+    }
+  },
+
+  'review-edit': {
+    usage: 'review-edit <id> [--name <s>] [--category <s>] [--description <s>] [--type <t>] [--target <s>] [--evidence <s>] [--baseline <true|false>] [--reviewer <name>]',
+    description: 'Correct a review item (name, category, description for concepts; type, target, evidence for relationships) and accept it',
+    options: {
+      name: { type: 'string' },
+      category: { type: 'string' },
+      description: { type: 'string' },
+      type: { type: 'string' },
+      target: { type: 'string' },
+      evidence: { type: 'string' },
+      baseline: { type: 'string' },
+      reviewer: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 1, 1);
+      const baseline = values.baseline as string | undefined;
+      if (baseline !== undefined && baseline !== 'true' && baseline !== 'false') {
+        throw new UsageError(`--baseline must be true or false, got "${baseline}"`);
+      }
+      const edits: ReviewEdits = {
+        name: values.name as string | undefined,
+        category: values.category as string | undefined,
+        description: values.description as string | undefined,
+        relationship_type: values.type as string | undefined,
+        target_concept: values.target as string | undefined,
+        evidence: values.evidence as string | undefined,
+        is_baseline: baseline === undefined ? undefined : baseline === 'true'
+      };
+      if (Object.values(edits).every(value => value === undefined)) {
+        throw new UsageError('Give at least one field to change; use review-accept to accept as is');
+      }
+      return decideReviewItems(context, positionals, 'accept', reviewerName(values), edits);
+    }
+  },
+
+  'review-reject': {
+    usage: 'review-reject <id...> [--reviewer <name>]',
+    description: 'Reject review items; they stay out of the graph and off the pending list',
+    options: {
+      reviewer: { type: 'string' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 1);
+      return decideReviewItems(context, positionals, 'reject', reviewerName(values));
+    }
+  },
+
+  stats: {
+    usage: 'stats',
+    description: 'Graph counts and the outcome of the latest run',
+    options: {},
+    async run(context, positionals) {
+      expectPositionals(positionals, 0, 0);
+      const overview = await new GraphQueries(context.store).overview();
+      const { stats, latestRun } = overview;
+
+      const lines = [
+        `Papers: ${stats.papers}`,
+        `Concepts: ${stats.concepts}`,
+        `Relationships: ${stats.relationships}`,
+        `Methods: ${stats.methods}`,
+        `Datasets: ${stats.datasets}`,
+        `Metrics: ${stats.metrics}`
+      ];
+      if (latestRun) {
+        const { summary } = latestRun;
+        lines.push(
+          `Latest run: ${latestRun.id} (${latestRun.mode}, ${latestRun.status}, started ${latestRun.started_at})`,
+          `  completed ${summary.completed}, failed ${summary.failed}, skipped ${summary.skipped}, ` +
+          `unfinished ${summary.pending + summary.running}`
+        );
+      }
+      return { data: overview, lines };
+    }
+  },
+
+  export: {
+    usage: 'export [--format <format>] [--output <path>] [--min-confidence <0-1>] [--from <date>] [--to <date>] [--category <a,b,...>]',
+    description: `Write the graph as ${EXPORT_FORMATS.join(', ')} to a file (a directory for neo4j-csv), or to stdout`,
+    options: {
+      format: { type: 'string', short: 'f' },
+      output: { type: 'string', short: 'o' },
+      'min-confidence': { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      category: { type: 'string' }
+    },
+    writesStdout: true,
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 0, 0);
+      const format = (values.format ?? 'json') as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        throw new UsageError(`--format must be one of ${EXPORT_FORMATS.join(', ')}, got "${format}"`);
+      }
+      const output = values.output as string | undefined;
+      if (format === 'neo4j-csv' && !output) {
+        throw new UsageError('neo4j-csv writes several files; give a directory with --output');
+      }
+
+      const result = await exportGraph(context.store, format, exportFilters(values));
+      const summary = `${result.nodes} nodes and ${result.edges} edges as ${format}`;
+
+      if (context.dryRun) {
+        return { data: { format, output: output ?? null, nodes: result.nodes, edges: result.edges, dryRun: true }, lines: [`Would export ${summary}`] };
+      }
+      if (!output) {
+        process.stdout.write(result.document!);
+        return { data: null, lines: [] };
+      }
+
+      if (result.files) {
+        mkdirSync(output, { recursive: true });
+        for (const file of result.files) {
+          writeFileSync(join(output, file.name), file.content);
+        }
+      } else {
+        writeFileSync(output, result.document!);
+      }
+      return { data: { format, output, nodes: result.nodes, edges: result.edges }, lines: [`Exported ${summary} to ${output}`] };
+    }
+  },
+
+  serve: {
+    usage: 'serve [--port <n>] [--host <address>] [--allow-review]',
+    description: 'Serve the graph over a read-only HTTP API (OpenAPI description at /openapi.json) until interrupted; --allow-review adds review decisions',
+    options: {
+      port: { type: 'string', short: 'p' },
+      host: { type: 'string' },
+      'allow-review': { type: 'boolean' }
+    },
+    async run(context, positionals, values) {
+      expectPositionals(positionals, 0, 0);
+      const port = positiveInteger('--port', (values.port as string | undefined) ?? process.env.API_PORT ?? '3000');
+      const host = (values.host as string | undefined) ?? process.env.API_HOST ?? '127.0.0.1';
+      const address = `http://${host}:${port}`;
+
+      if (context.dryRun) {
+        return { data: { address, dryRun: true }, lines: [`Would serve the API on ${address}`] };
+      }
+
+      const server = createApiServer(context.store, {
+        corsOrigin: process.env.API_CORS_ORIGIN,
+        allowReview: Boolean(values['allow-review'])
+      });
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => resolve());
+      });
+      console.log(`API listening on ${address} (Ctrl+C to stop)`);
+
+      await new Promise<void>(resolve => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+      });
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      return { data: { address }, lines: [`Stopped serving ${address}`] };
+    }
+  },
+
+  'merge-concepts': {
+    usage: 'merge-concepts <source> <target> | merge-concepts --auto',
+    description: 'Fold one concept (id or name) into another, or merge every duplicate group the resolver finds',
+    options: {
+      auto: { type: 'boolean' }
+    },
+    async run(context, positionals, values) {
+      // Works on the store alone, so no LLM credentials are needed
+      const resolver = new ConceptResolver(context.store);
+
+      if (values.auto) {
+        expectPositionals(positionals, 0, 0);
+        if (context.dryRun) {
+          const groups = await resolver.findDuplicateGroups();
+          return {
+            data: groups,
+            lines: groups.flatMap(([canonical, ...duplicates]) =>
+              duplicates.map(duplicate => `"${duplicate.name}" -> "${canonical.name}"`))
+          };
+        }
+        const merged = await resolver.mergeDuplicates();
+        return { data: { merged }, lines: [`Merged ${merged} duplicate concepts`] };
+      }
+
+      expectPositionals(positionals, 2, 2);
+      const [source, target] = positionals;
+      const pair = { source: await resolver.lookupConcept(source), target: await resolver.lookupConcept(target) };
+      if (context.dryRun) {
+        return { data: pair, lines: [`Would merge "${pair.source.name}" into "${pair.target.name}"`] };
+      }
+      await resolver.mergeConcepts(pair.source.id, pair.target.id);
+      return { data: { source, target }, lines: [`Merged "${source}" into "${target}"`] };
+    }
+  }
+};
+
+export function usage(): string {
+  const width = Math.max(...Object.values(COMMANDS).map(command => command.usage.length));
+  return [
+    'Usage: npm start -- <command> [options]',
+    '',
+    'Commands:',
+    ...Object.values(COMMANDS).map(command => `  ${command.usage.padEnd(width)}  ${command.description}`),
+    '',
+    'Options:',
+    '  --profile   Domain profile: a name in profiles/ or a path to a JSON file (default: DOMAIN_PROFILE or gaussian-splatting)',
+    '  --prompt    Extraction prompt: a name in prompts/ or a path to a text file (default: PROMPT_TEMPLATE or extraction-v1)',
+    '  --dry-run   Report what would be done without processing papers or writing to the graph',
+    '  --json      Print the result as JSON on stdout (logs go to stderr)',
+    '  --help      Show this help',
+    '',
+    `Exit codes: ${EXIT_OK} ok, ${EXIT_FAILURE} failure, ${EXIT_USAGE} usage error, ${EXIT_PARTIAL} some papers failed`
+  ].join('\n');
+}
+
+function runResult(report: RunReport): CommandResult {
+  const { summary } = report;
+  return {
+    data: report,
+    lines: [
+      `Run ${report.runId}: ${summary.completed} completed, ${summary.failed} failed, ${summary.skipped} skipped`,
+      `Graph: ${report.stats.papers} papers, ${report.stats.concepts} concepts, ${report.stats.relationships} relationships`
+    ],
+    exitCode: summary.failed > 0 ? EXIT_PARTIAL : EXIT_OK
+  };
+}
+
+function planResult(plans: PaperPlan[]): CommandResult {
+  return {
+    data: plans,
+    lines: plans.map(plan =>
+      `  ${plan.arxivId}  ${plan.stored ? 'stored' : 'new'}` +
+      (plan.status ? `, last job ${plan.status}${plan.stage ? ` after ${plan.stage}` : ''}` : ''))
+  };
+}
+
+async function decideReviewItems(
+  context: CommandContext,
+  ids: string[],
+  action: 'accept' | 'reject',
+  reviewer: string,
+  edits: ReviewEdits = {}
+): Promise<CommandResult> {
+  const queue = new ReviewQueue(context.store);
+  const items: ReviewItem[] = [];
+  try {
+    for (const id of ids) {
+      if (context.dryRun) {
+        items.push(await queue.preview(id, edits));
+      } else {
+        items.push(action === 'accept' ? await queue.accept(id, reviewer, edits) : await queue.reject(id, reviewer));
+      }
+    }
+  } catch (error) {
+    if (error instanceof ReviewError && error.reason === 'invalid') {
+      throw new UsageError(error.message);
+    }
+    throw error;
+  }
+
+  const verb = context.dryRun ? `Would ${action}` : action === 'accept' ? 'Accepted' : 'Rejected';
+  return {
+    data: items,
+    lines: items.map(item => `${verb} ${item.id}: ${item.arxiv_id} ${describeReviewEntity(item)}`)
+  };
+}
+
+function describeReviewEntity(item: ReviewItem): string {
+  if (item.kind === 'relationship') {
+    const relationship = item.entity as Relationship;
+    return `relationship ${relationship.relationship_type} -> "${relationship.target_concept}" [${relationship.confidence}]`;
+  }
+  if (item.kind === 'concept') {
+    const concept = item.entity as Concept;
+    return `concept "${concept.name}" (${concept.category}) [${concept.confidence}]`;
+  }
+  const method = item.entity as Method;
+  return `method "${method.name}"${method.is_baseline ? ' (baseline)' : ''} [${method.confidence}]`;
+}
+
+// --reviewer, else REVIEWER, else the login name
+function reviewerName(values: OptionValues): string {
+  const name = ((values.reviewer as string | undefined) ?? process.env.REVIEWER ?? userInfo().username).trim();
+  if (name === '') {
+    throw new UsageError('--reviewer must not be empty');
+  }
+  return name;
+}
+
+/**
+ * Precision, recall and F1 per entity and relationship type, one column per
+ * score set; later columns show their F1 change against the first
+ */
+function scoreTable(columns: Array<{ label: string; scores: StageScores }>): string[] {
+  const width = Math.max(24, ...columns.map(column => column.label.length + 2));
+  const relationshipTypes = [...new Set(columns.flatMap(column => Object.keys(column.scores.relationships)))]
+    .sort((a, b) => (a === 'all' ? 1 : b === 'all' ? -1 : a.localeCompare(b)));
+  const rows: Array<{ label: string; pick: (scores: StageScores) => EvalScore | undefined }> = [
+    ...ENTITY_TYPES.map(type => ({ label: type, pick: (scores: StageScores) => scores.entities[type] })),
+    ...relationshipTypes.map(type => ({ label: `relationships ${type}`, pick: (scores: StageScores) => scores.relationships[type] }))
+  ];
+
+  const labelled = rows.map(row => ({ ...row, label: `${row.label} (${row.pick(columns[0].scores)?.expected ?? 0} gold)` }));
+  const labelWidth = Math.max(...labelled.map(row => row.label.length)) + 2;
+
+  const lines = [
+    ''.padEnd(labelWidth) + columns.map(column => column.label.padEnd(width)).join(''),
+    ''.padEnd(labelWidth) + columns.map(() => 'P     R     F1'.padEnd(width)).join('')
+  ];
+  for (const { label, pick } of labelled) {
+    const first = pick(columns[0].scores);
+    const cells = columns.map((column, index) => {
+      const score = pick(column.scores);
+      if (!score) return '-'.padEnd(width);
+      const delta = index > 0 && first ? score.f1 - first.f1 : 0;
+      const change = index > 0 && first && Math.abs(delta) >= 0.005 ? ` (${delta > 0 ? '+' : ''}${delta.toFixed(2)})` : '';
+      return `${score.precision.toFixed(2)}  ${score.recall.toFixed(2)}  ${score.f1.toFixed(2)}${change}`.padEnd(width);
+    });
+    lines.push(label.padEnd(labelWidth) + cells.join(''));
+  }
+  return lines;
+}
+
+// Entity counts per type with the overlap of the validated ones, then pass rates and cost
+function comparisonTable(report: PromptComparisonReport): string[] {
+  const sides = [report.a, report.b];
+  const width = Math.max(22, ...sides.map(side => side.template.length + 5));
+  const lines = [
+    ''.padEnd(15) + sides.map((side, index) => `${'AB'[index]}: ${side.template}`.padEnd(width)).join('') +
+      'shared  only A  only B  jaccard',
+    ''.padEnd(15) + sides.map(() => 'extracted -> valid'.padEnd(width)).join('')
+  ];
+  for (const type of COMPARED_TYPES) {
+    const overlap = report.overlap[type];
+    lines.push(
+      type.padEnd(15) +
+      sides.map(side => `${side.extracted[type]} -> ${side.validated[type]}`.padEnd(width)).join('') +
+      `${overlap.shared}`.padEnd(8) + `${overlap.only_a}`.padEnd(8) + `${overlap.only_b}`.padEnd(9) + overlap.jaccard.toFixed(2)
+    );
+  }
+
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const summary = (side: PromptStats) =>
+    `${percent(side.pass_rate.concepts)} of concepts and ${percent(side.pass_rate.relationships)} of relationships validated; ` +
+    `${side.calls} calls${side.failed_calls > 0 ? ` (${side.failed_calls} failed)` : ''}, ` +
+    `${(side.latency_ms / 1000).toFixed(1)}s, ${side.total_tokens} tokens`;
+  lines.push('', ...sides.map((side, index) => `${'AB'[index]}: ${summary(side)}`));
+  return lines;
+}
+
+// Where eval and compare-prompts would read each paper's text from
+async function textSources(
+  context: CommandContext,
+  items: Array<Pick<GoldPaper, 'arxiv_id' | 'title' | 'abstract'>>
+): Promise<Array<{ arxivId: string; source: string }>> {
+  const sources = [];
+  for (const item of items) {
+    const source = item.title && item.abstract
+      ? 'gold file'
+      : (await context.store.findPaperByArxivId(item.arxiv_id)) ? 'graph' : 'arXiv';
+    sources.push({ arxivId: item.arxiv_id, source });
+  }
+  return sources;
+}
+
+function expectPositionals(positionals: string[], min: number, max: number = Infinity): void {
+  if (positionals.length > max) {
+    throw new UsageError(`Unexpected argument: ${positionals[max]}`);
+  }
+  if (positionals.length < min) {
+    throw new UsageError(`Expected ${min === max ? min : `at least ${min}`} argument(s)`);
+  }
+}
+
+function exportFilters(values: OptionValues): ExportFilters {
+  const filters: ExportFilters = {};
+  if (values['min-confidence'] !== undefined) {
+    filters.minConfidence = confidence('--min-confidence', values['min-confidence'] as string);
+  }
+  for (const flag of ['from', 'to'] as const) {
+    const value = values[flag] as string | undefined;
+    if (value === undefined) continue;
+    if (Number.isNaN(Date.parse(value))) {
+      throw new UsageError(`--${flag} must be a date such as 2023-08-01, got "${value}"`);
+    }
+    filters[flag] = value;
+  }
+  if (values.category) {
+    filters.categories = (values.category as string).split(',').map(c => c.trim()).filter(Boolean);
+  }
+  return filters;
+}
+
+function confidence(flag: string, value: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || Number.isNaN(parsed) || parsed < 0 || parsed > 1) {
+    throw new UsageError(`${flag} must be between 0 and 1, got "${value}"`);
+  }
+  return parsed;
+}
+
+function positiveInteger(flag: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new UsageError(`${flag} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
@@ -0,0 +1,172 @@
+import type {
+  Paper,
+  Concept,
+  Relationship,
+  Method,
+  Dataset,
+  Metric,
+  DatabaseStats,
+  PaperSection,
+  StoredPaper,
+  StoredConcept,
+  PaperRelationship,
+  PaperRelationshipType,
+  PaperMethodLink,
+  PipelineRun,
+  PaperJob,
+  GraphSnapshot,
+  EmbeddingKind,
+  SimilarityHit,
+  PaperConceptLink,
+  ConceptPaperLink,
+  SyncState,
+  PaperChange,
+  PaperVersion,
+  ReviewCandidate,
+  ReviewItem,
+  ReviewFilter,
+  ReviewStatus,
+  ExtractionRecord
+} from '../types.js';
+
+/**
+ * Everything the pipeline reads from or writes to the knowledge graph.
+ * Implemented by PostgresGraphStore, SqliteGraphStore and MemoryGraphStore.
+ */
+export interface GraphStore {
+  readonly kind: string;
+
+  // Papers, stored under their base arXiv ID; lookups accept versioned IDs
+  findPaperByArxivId(arxivId: string): Promise<StoredPaper | null>;
+  // Also starts the paper's version history
+  insertPaper(paper: Paper): Promise<string>;
+  listPapers(): Promise<StoredPaper[]>;
+  // Replaces a stored paper's metadata with a newer arXiv version and adds that version
+  // to its history; links are untouched
+  revisePaper(paperId: string, paper: Paper, changes: PaperChange[]): Promise<void>;
+  // Oldest first
+  listPaperVersions(paperId: string): Promise<PaperVersion[]>;
+
+  // Concepts and aliases (deduplication lives in ConceptResolver)
+  // Reuses the concept of the same name when another writer inserted it first (created: false)
+  insertConcept(concept: Concept): Promise<{ id: string; created: boolean }>;
+  listConcepts(): Promise<StoredConcept[]>;
+  findConceptIdByAlias(aliasKeys: string[]): Promise<string | null>;
+  addConceptAlias(aliasKey: string, alias: string, conceptId: string): Promise<void>;
+  mergeConcepts(sourceId: string, targetId: string): Promise<void>;
+  linkPaperConcept(
+    paperId: string,
+    conceptId: string,
+    relationship: string,
+    confidence: number,
+    section?: PaperSection,
+    provenance?: Pick<PaperConceptLink, 'extraction_id' | 'reviewed_by'>
+  ): Promise<void>;
+  getPaperConcepts(paperId: string): Promise<StoredConcept[]>;
+  // With the link's relationship, confidence and section, most confident first
+  getPaperConceptLinks(paperId: string): Promise<PaperConceptLink[]>;
+  // Newest papers first
+  listConceptPapers(conceptId: string): Promise<ConceptPaperLink[]>;
+
+  // Paper -> concept relationships
+  insertRelationship(paperId: string, relationship: Relationship, targetConceptId?: string): Promise<void>;
+  getPaperRelationships(paperId: string): Promise<Relationship[]>;
+
+  // Methods, datasets and metrics, shared across papers by normalized name
+  upsertMethod(method: Method): Promise<string>;
+  linkPaperMethod(paperId: string, methodId: string, link: PaperMethodLink): Promise<void>;
+  upsertDataset(dataset: Dataset): Promise<string>;
+  linkPaperDataset(paperId: string, datasetId: string, section?: PaperSection, extractionId?: string): Promise<void>;
+  upsertMetric(metric: Metric): Promise<string>;
+  linkPaperMetric(paperId: string, metricId: string, section?: PaperSection, extractionId?: string): Promise<void>;
+  countMethodIntroductions(): Promise<number>;
+  // Drops everything extracted for a paper (concept links, relationships, methods, datasets,
+  // metrics, paper edges other than citations, review items) so it can be extracted again;
+  // the paper itself and its extraction records are kept
+  clearPaperExtraction(paperId: string): Promise<void>;
+
+  // Extraction provenance: every LLM call made to extract a paper, referred to by the
+  // extraction_id of the entities it produced
+  insertExtractionRecords(records: ExtractionRecord[]): Promise<void>;
+  // Oldest first
+  listExtractionRecords(paperId: string): Promise<ExtractionRecord[]>;
+  getExtractionRecord(id: string): Promise<ExtractionRecord | null>;
+
+  // Paper -> paper edges
+  upsertPaperRelationship(edge: PaperRelationship): Promise<void>;
+  countPaperRelationships(type: PaperRelationshipType): Promise<number>;
+  listPaperRelationships(): Promise<PaperRelationship[]>;
+  // Edges in either direction, most confident first
+  getPaperEdges(paperId: string): Promise<PaperRelationship[]>;
+
+  // Run/job ledger
+  createRun(run: PipelineRun): Promise<void>;
+  finishRun(runId: string, status: PipelineRun['status'], finishedAt: string): Promise<void>;
+  getRun(runId: string): Promise<PipelineRun | null>;
+  getLatestRun(): Promise<PipelineRun | null>;
+  upsertPaperJob(job: PaperJob): Promise<void>;
+  listPaperJobs(runId: string): Promise<PaperJob[]>;
+  // Most recently updated job for the paper across all runs
+  findLatestPaperJob(arxivId: string): Promise<PaperJob | null>;
+
+  // Review queue of entities kept out of the graph. `key` identifies the entity within the
+  // paper; adding returns false when the paper already has an item with that key
+  addReviewItem(paperId: string, key: string, candidate: ReviewCandidate): Promise<boolean>;
+  // Oldest first
+  listReviewItems(filter: ReviewFilter): Promise<ReviewItem[]>;
+  getReviewItem(id: string): Promise<ReviewItem | null>;
+  // Records the decision, with the entity as the reviewer left it, if the item still has
+  // status `from`; false when another decision got there first
+  decideReviewItem(id: string, decision: Pick<ReviewItem, 'status' | 'entity' | 'reviewed_by' | 'reviewed_at'>, from?: ReviewStatus): Promise<boolean>;
+
+  // Incremental sync
+  getSyncState(profile: string): Promise<SyncState | null>;
+  saveSyncState(state: SyncState): Promise<void>;
+
+  // Embeddings of paper abstracts and concept descriptions, one per entity and model
+  upsertEmbedding(kind: EmbeddingKind, id: string, model: string, vector: number[]): Promise<void>;
+  getEmbedding(kind: EmbeddingKind, id: string, model: string): Promise<number[] | null>;
+  listEmbeddedIds(kind: EmbeddingKind, model: string): Promise<string[]>;
+  // Nearest entities by cosine similarity, best first
+  findSimilar(kind: EmbeddingKind, model: string, vector: number[], limit: number): Promise<SimilarityHit[]>;
+
+  // The whole graph in one read, for exporters
+  loadSnapshot(): Promise<GraphSnapshot>;
+
+  getStats(): Promise<DatabaseStats>;
+  close(): Promise<void>;
+}
+
+/**
+ * Picks the store from DATABASE_URL:
+ *   postgres://... | postgresql://...   PostgresGraphStore
+ *   sqlite:path | sqlite://path | *.db  SqliteGraphStore
+ *   memory:                             MemoryGraphStore
+ */
+export async function createGraphStore(url: string): Promise<GraphStore> {
+  if (!url || url.trim() === '') {
+    throw new Error('DATABASE_URL is required');
+  }
+  const trimmed = url.trim();
+
+  if (/^memory:/i.test(trimmed)) {
+    const { MemoryGraphStore } = await import('./memoryStore.js');
+    return new MemoryGraphStore();
+  }
+
+  if (/^sqlite:/i.test(trimmed) || /\.(db|sqlite|sqlite3)$/i.test(trimmed)) {
+    const { SqliteGraphStore } = await import('./sqliteStore.js');
+    return new SqliteGraphStore(trimmed.replace(/^sqlite:(\/\/)?/i, '') || ':memory:');
+  }
+
+  if (/^postgres(ql)?:\/\//i.test(trimmed)) {
+    const { PostgresGraphStore } = await import('./postgresStore.js');
+    return new PostgresGraphStore(trimmed);
+  }
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    throw new Error('DATABASE_URL looks like a Supabase API URL; use the project\'s Postgres connection string (postgresql://...) instead');
+  }
+
+  throw new Error(`Unsupported DATABASE_URL: ${trimmed}`);
+}
@@ -0,0 +1,571 @@
+import { randomUUID } from 'crypto';
+import type { GraphStore } from './graphStore.js';
+import type {
+  Paper,
+  Concept,
+  Relationship,
+  Method,
+  Dataset,
+  Metric,
+  DatabaseStats,
+  PaperSection,
+  StoredPaper,
+  StoredConcept,
+  PaperRelationship,
+  PaperRelationshipType,
+  PaperMethodLink,
+  PipelineRun,
+  PaperJob,
+  GraphSnapshot,
+  EmbeddingKind,
+  SimilarityHit,
+  PaperConceptLink,
+  ConceptPaperLink,
+  SyncState,
+  PaperChange,
+  PaperVersion,
+  ReviewCandidate,
+  ReviewItem,
+  ReviewFilter,
+  ReviewStatus,
+  ExtractionRecord
+} from '../types.js';
+import { normalizeConceptName } from '../resolution/conceptResolver.js';
+import { normalizeArxivId } from '../arxiv/arxivId.js';
+import { VectorIndex } from '../embeddings/vectorIndex.js';
+
+interface StoredRelationship extends Relationship {
+  id: string;
+  source_paper_id: string;
+  target_concept_id: string | null;
+}
+
+// What the SQL stores' unique index on relationships covers
+function relationshipKey(rel: Relationship & { source_paper_id: string }): string {
+  return JSON.stringify([rel.source_paper_id, rel.relationship_type, rel.target_concept, rel.extraction_id ?? '']);
+}
+
+interface ConceptRecord extends StoredConcept {
+  description: string;
+}
+
+interface ReviewRecord extends Omit<ReviewItem, 'arxiv_id'> {
+  key: string;
+}
+
+interface NamedRecord {
+  id: string;
+  name: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Process-local store for tests and dry runs; nothing survives close()
+ */
+export class MemoryGraphStore implements GraphStore {
+  readonly kind = 'memory';
+
+  private papers = new Map<string, StoredPaper>();
+  private paperVersions: PaperVersion[] = [];
+  private concepts = new Map<string, ConceptRecord>();
+  private aliases = new Map<string, string>();
+  private paperConcepts: GraphSnapshot['paperConcepts'] = [];
+  private relationships: StoredRelationship[] = [];
+  private methods = new Map<string, NamedRecord>();
+  private datasets = new Map<string, NamedRecord>();
+  private metrics = new Map<string, NamedRecord>();
+  private paperMethods: Array<{ paper_id: string; method_id: string } & PaperMethodLink> = [];
+  private paperDatasets: GraphSnapshot['paperDatasets'] = [];
+  private paperMetrics: GraphSnapshot['paperMetrics'] = [];
+  private paperRelationships: PaperRelationship[] = [];
+  private runs = new Map<string, PipelineRun>();
+  private syncStates = new Map<string, SyncState>();
+  private reviewItems: ReviewRecord[] = [];
+  private extractionRecords: ExtractionRecord[] = [];
+  private jobs = new Map<string, PaperJob>();
+  // Keyed "<kind>:<model>"
+  private vectorIndexes = new Map<string, VectorIndex>();
+
+  constructor() {
+    console.log('    MemoryGraphStore: in-process graph created');
+  }
+
+  async findPaperByArxivId(arxivId: string): Promise<StoredPaper | null> {
+    const id = normalizeArxivId(arxivId);
+    for (const paper of this.papers.values()) {
+      if (paper.arxiv_id === id) return { ...paper };
+    }
+    return null;
+  }
+
+  async insertPaper(paper: Paper): Promise<string> {
+    if (await this.findPaperByArxivId(paper.arxiv_id)) {
+      throw new Error(`Failed to insert paper: ${paper.arxiv_id} already exists`);
+    }
+    const id = randomUUID();
+    this.papers.set(id, { ...paper, id, arxiv_id: normalizeArxivId(paper.arxiv_id) });
+    this.addPaperVersion(id, paper, []);
+    console.log(`   Paper stored: "${paper.title.substring(0, 60)}..."`);
+    return id;
+  }
+
+  async listPapers(): Promise<StoredPaper[]> {
+    return [...this.papers.values()]
+      .map(paper => ({ ...paper }))
+      .sort((a, b) => a.published_date.localeCompare(b.published_date));
+  }
+
+  async revisePaper(paperId: string, paper: Paper, changes: PaperChange[]): Promise<void> {
+    const stored = this.papers.get(paperId);
+    if (stored) {
+      this.papers.set(paperId, { ...paper, id: paperId, arxiv_id: stored.arxiv_id });
+      this.addPaperVersion(paperId, paper, changes);
+    }
+  }
+
+  async listPaperVersions(paperId: string): Promise<PaperVersion[]> {
+    return this.paperVersions
+      .filter(version => version.paper_id === paperId)
+      .sort((a, b) => a.version - b.version)
+      .map(version => ({ ...version, changes: version.changes.map(change => ({ ...change })) }));
+  }
+
+  private addPaperVersion(paperId: string, paper: Paper, changes: PaperChange[]): void {
+    const version = paper.version ?? 1;
+    if (this.paperVersions.some(existing => existing.paper_id === paperId && existing.version === version)) return;
+    this.paperVersions.push({
+      paper_id: paperId,
+      version,
+      title: paper.title,
+      abstract: paper.abstract,
+      updated_date: paper.updated_date ?? null,
+      changes,
+      recorded_at: new Date().toISOString()
+    });
+  }
+
+  async insertConcept(concept: Concept): Promise<{ id: string; created: boolean }> {
+    for (const existing of this.concepts.values()) {
+      if (existing.name === concept.name) {
+        return { id: existing.id, created: false };
+      }
+    }
+    const id = randomUUID();
+    this.concepts.set(id, { id, name: concept.name, category: concept.category, description: concept.description });
+    console.log(`    Concept stored: "${concept.name}"`);
+    return { id, created: true };
+  }
+
+  async listConcepts(): Promise<StoredConcept[]> {
+    return [...this.concepts.values()].map(({ id, name, category }) => ({ id, name, category }));
+  }
+
+  async findConceptIdByAlias(aliasKeys: string[]): Promise<string | null> {
+    for (const key of aliasKeys) {
+      const conceptId = this.aliases.get(key);
+      if (conceptId) return conceptId;
+    }
+    return null;
+  }
+
+  async addConceptAlias(aliasKey: string, _alias: string, conceptId: string): Promise<void> {
+    if (!this.aliases.has(aliasKey)) {
+      this.aliases.set(aliasKey, conceptId);
+    }
+  }
+
+  async mergeConcepts(sourceId: string, targetId: string): Promise<void> {
+    const source = this.concepts.get(sourceId);
+    const target = this.concepts.get(targetId);
+    if (!source || !target) {
+      throw new Error(`Concept not found for merge: ${!source ? sourceId : targetId}`);
+    }
+
+    for (const link of this.paperConcepts.filter(l => l.concept_id === sourceId)) {
+      const duplicate = this.paperConcepts.some(l =>
+        l.paper_id === link.paper_id && l.concept_id === targetId && l.relationship === link.relationship
+      );
+      if (!duplicate) {
+        this.paperConcepts.push({ ...link, concept_id: targetId });
+      }
+    }
+    this.paperConcepts = this.paperConcepts.filter(l => l.concept_id !== sourceId);
+
+    const renamed = new Set<StoredRelationship>();
+    for (const rel of this.relationships) {
+      if (rel.target_concept_id === sourceId || rel.target_concept.toLowerCase() === source.name.toLowerCase()) {
+        if (rel.target_concept !== target.name) renamed.add(rel);
+        rel.target_concept = target.name;
+        rel.target_concept_id = targetId;
+      }
+    }
+    // Renamed relationships give way to ones of the same paper, type and extraction call
+    const keys = new Set(this.relationships.filter(rel => !renamed.has(rel)).map(relationshipKey));
+    this.relationships = this.relationships.filter(rel => {
+      if (!renamed.has(rel)) return true;
+      const key = relationshipKey(rel);
+      if (keys.has(key)) return false;
+      keys.add(key);
+      return true;
+    });
+
+    for (const [key, conceptId] of this.aliases) {
+      if (conceptId === sourceId) this.aliases.set(key, targetId);
+    }
+    await this.addConceptAlias(normalizeConceptName(source.name), source.name, targetId);
+    this.concepts.delete(sourceId);
+    for (const [key, index] of this.vectorIndexes) {
+      if (key.startsWith('concept:')) index.delete(sourceId);
+    }
+
+    console.log(`    Merged concept "${source.name}" into "${target.name}"`);
+  }
+
+  async linkPaperConcept(
+    paperId: string,
+    conceptId: string,
+    relationship: string,
+    confidence: number,
+    section?: PaperSection,
+    provenance: Pick<PaperConceptLink, 'extraction_id' | 'reviewed_by'> = {}
+  ): Promise<void> {
+    const exists = this.paperConcepts.some(l =>
+      l.paper_id === paperId && l.concept_id === conceptId && l.relationship === relationship
+    );
+    if (!exists) {
+      this.paperConcepts.push({
+        paper_id: paperId,
+        concept_id: conceptId,
+        relationship,
+        confidence,
+        section,
+        extraction_id: provenance.extraction_id ?? null,
+        reviewed_by: provenance.reviewed_by ?? null
+      });
+    }
+  }
+
+  async getPaperConcepts(paperId: string): Promise<StoredConcept[]> {
+    return this.paperConcepts
+      .filter(link => link.paper_id === paperId)
+      .map(link => this.concepts.get(link.concept_id))
+      .filter((concept): concept is ConceptRecord => concept !== undefined)
+      .map(({ id, name, category }) => ({ id, name, category }));
+  }
+
+  async getPaperConceptLinks(paperId: string): Promise<PaperConceptLink[]> {
+    const links: PaperConceptLink[] = [];
+    for (const link of this.paperConcepts.filter(l => l.paper_id === paperId)) {
+      const concept = this.concepts.get(link.concept_id);
+      if (!concept) continue;
+      const { id, name, category } = concept;
+      links.push({
+        id,
+        name,
+        category,
+        relationship: link.relationship,
+        confidence: link.confidence,
+        section: link.section,
+        extraction_id: link.extraction_id ?? null,
+        reviewed_by: link.reviewed_by ?? null
+      });
+    }
+    return links.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  async listConceptPapers(conceptId: string): Promise<ConceptPaperLink[]> {
+    const links: ConceptPaperLink[] = [];
+    for (const link of this.paperConcepts.filter(l => l.concept_id === conceptId)) {
+      const paper = this.papers.get(link.paper_id);
+      if (!paper) continue;
+      links.push({ paper: { ...paper }, relationship: link.relationship, confidence: link.confidence, section: link.section });
+    }
+    return links.sort((a, b) => b.paper.published_date.localeCompare(a.paper.published_date));
+  }
+
+  async insertRelationship(paperId: string, relationship: Relationship, targetConceptId?: string): Promise<void> {
+    const key = relationshipKey({ ...relationship, source_paper_id: paperId });
+    if (this.relationships.some(rel => relationshipKey(rel) === key)) return;
+    this.relationships.push({
+      ...relationship,
+      id: randomUUID(),
+      source_paper_id: paperId,
+      target_concept_id: targetConceptId ?? null
+    });
+    console.log(`    Relationship stored: ${relationship.relationship_type} -> ${relationship.target_concept}`);
+  }
+
+  async getPaperRelationships(paperId: string): Promise<Relationship[]> {
+    return this.relationships
+      .filter(rel => rel.source_paper_id === paperId)
+      .map(({ relationship_type, target_concept, evidence, confidence, section, extraction_id, reviewed_by, entailment_verdict, entailment_rationale, entailment_id }) => ({
+        relationship_type, target_concept, evidence, confidence, section,
+        extraction_id: extraction_id ?? null,
+        reviewed_by: reviewed_by ?? null,
+        entailment_verdict: entailment_verdict ?? null,
+        entailment_rationale: entailment_rationale ?? null,
+        entailment_id: entailment_id ?? null
+      }));
+  }
+
+  async upsertMethod(method: Method): Promise<string> {
+    return this.findOrInsertByNameKey(this.methods, method.name, { description: method.description });
+  }
+
+  async linkPaperMethod(paperId: string, methodId: string, link: PaperMethodLink): Promise<void> {
+    if (!this.paperMethods.some(l => l.paper_id === paperId && l.method_id === methodId)) {
+      this.paperMethods.push({ paper_id: paperId, method_id: methodId, ...link });
+    }
+  }
+
+  async upsertDataset(dataset: Dataset): Promise<string> {
+    return this.findOrInsertByNameKey(this.datasets, dataset.name, {
+      description: dataset.description,
+      task_type: dataset.task_type,
+      size: dataset.size
+    });
+  }
+
+  async linkPaperDataset(paperId: string, datasetId: string, section?: PaperSection, extractionId?: string): Promise<void> {
+    if (!this.paperDatasets.some(l => l.paper_id === paperId && l.dataset_id === datasetId)) {
+      this.paperDatasets.push({ paper_id: paperId, dataset_id: datasetId, section, extraction_id: extractionId ?? null });
+    }
+  }
+
+  async upsertMetric(metric: Metric): Promise<string> {
+    return this.findOrInsertByNameKey(this.metrics, metric.name, {
+      unit: metric.unit,
+      higher_is_better: metric.higher_is_better,
+      description: metric.description
+    });
+  }
+
+  async linkPaperMetric(paperId: string, metricId: string, section?: PaperSection, extractionId?: string): Promise<void> {
+    if (!this.paperMetrics.some(l => l.paper_id === paperId && l.metric_id === metricId)) {
+      this.paperMetrics.push({ paper_id: paperId, metric_id: metricId, section, extraction_id: extractionId ?? null });
+    }
+  }
+
+  async countMethodIntroductions(): Promise<number> {
+    return this.paperMethods.filter(link => link.introduces).length;
+  }
+
+  async upsertPaperRelationship(edge: PaperRelationship): Promise<void> {
+    const existing = this.paperRelationships.find(e =>
+      e.source_paper_id === edge.source_paper_id &&
+      e.target_paper_id === edge.target_paper_id &&
+      e.relationship_type === edge.relationship_type
+    );
+    if (existing) {
+      existing.evidence = edge.evidence;
+      existing.confidence = edge.confidence;
+    } else {
+      this.paperRelationships.push({ ...edge });
+    }
+  }
+
+  async countPaperRelationships(type: PaperRelationshipType): Promise<number> {
+    return this.paperRelationships.filter(edge => edge.relationship_type === type).length;
+  }
+
+  async listPaperRelationships(): Promise<PaperRelationship[]> {
+    return this.paperRelationships.map(edge => ({ ...edge }));
+  }
+
+  async getPaperEdges(paperId: string): Promise<PaperRelationship[]> {
+    return this.paperRelationships
+      .filter(edge => edge.source_paper_id === paperId || edge.target_paper_id === paperId)
+      .map(edge => ({ ...edge }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  async clearPaperExtraction(paperId: string): Promise<void> {
+    this.paperConcepts = this.paperConcepts.filter(link => link.paper_id !== paperId);
+    this.paperMethods = this.paperMethods.filter(link => link.paper_id !== paperId);
+    this.paperDatasets = this.paperDatasets.filter(link => link.paper_id !== paperId);
+    this.paperMetrics = this.paperMetrics.filter(link => link.paper_id !== paperId);
+    this.relationships = this.relationships.filter(rel => rel.source_paper_id !== paperId);
+    this.reviewItems = this.reviewItems.filter(item => item.paper_id !== paperId);
+    // Citations come from the bibliography, not the extraction
+    this.paperRelationships = this.paperRelationships.filter(edge =>
+      edge.relationship_type === 'cites' || (edge.source_paper_id !== paperId && edge.target_paper_id !== paperId)
+    );
+  }
+
+  async createRun(run: PipelineRun): Promise<void> {
+    this.runs.set(run.id, { ...run });
+  }
+
+  async finishRun(runId: string, status: PipelineRun['status'], finishedAt: string): Promise<void> {
+    const run = this.runs.get(runId);
+    if (run) {
+      run.status = status;
+      run.finished_at = finishedAt;
+    }
+  }
+
+  async getRun(runId: string): Promise<PipelineRun | null> {
+    const run = this.runs.get(runId);
+    return run ? { ...run } : null;
+  }
+
+  async getLatestRun(): Promise<PipelineRun | null> {
+    const runs = [...this.runs.values()].sort((a, b) => b.started_at.localeCompare(a.started_at));
+    return runs.length > 0 ? { ...runs[0] } : null;
+  }
+
+  async upsertPaperJob(job: PaperJob): Promise<void> {
+    this.jobs.set(`${job.run_id}:${job.arxiv_id}`, { ...job });
+  }
+
+  async listPaperJobs(runId: string): Promise<PaperJob[]> {
+    return [...this.jobs.values()]
+      .filter(job => job.run_id === runId)
+      .sort((a, b) => a.updated_at.localeCompare(b.updated_at))
+      .map(job => ({ ...job }));
+  }
+
+  async findLatestPaperJob(arxivId: string): Promise<PaperJob | null> {
+    const jobs = [...this.jobs.values()]
+      .filter(job => job.arxiv_id === arxivId)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    return jobs.length > 0 ? { ...jobs[0] } : null;
+  }
+
+  async addReviewItem(paperId: string, key: string, candidate: ReviewCandidate): Promise<boolean> {
+    if (this.reviewItems.some(item => item.paper_id === paperId && item.kind === candidate.kind && item.key === key)) {
+      return false;
+    }
+    this.reviewItems.push({
+      ...structuredClone(candidate),
+      id: randomUUID(),
+      paper_id: paperId,
+      key,
+      status: 'pending',
+      reviewed_by: null,
+      reviewed_at: null,
+      created_at: new Date().toISOString()
+    });
+    return true;
+  }
+
+  async listReviewItems(filter: ReviewFilter): Promise<ReviewItem[]> {
+    return this.reviewItems
+      .filter(item =>
+        (filter.status === undefined || item.status === filter.status) &&
+        (filter.kind === undefined || item.kind === filter.kind) &&
+        (filter.paperId === undefined || item.paper_id === filter.paperId))
+      .map(item => this.toReviewItem(item))
+      .filter((item): item is ReviewItem => item !== null);
+  }
+
+  async getReviewItem(id: string): Promise<ReviewItem | null> {
+    const item = this.reviewItems.find(candidate => candidate.id === id);
+    return item ? this.toReviewItem(item) : null;
+  }
+
+  async decideReviewItem(id: string, decision: Pick<ReviewItem, 'status' | 'entity' | 'reviewed_by' | 'reviewed_at'>, from: ReviewStatus = 'pending'): Promise<boolean> {
+    const item = this.reviewItems.find(candidate => candidate.id === id && candidate.status === from);
+    if (!item) return false;
+    Object.assign(item, structuredClone(decision));
+    return true;
+  }
+
+  async insertExtractionRecords(records: ExtractionRecord[]): Promise<void> {
+    this.extractionRecords.push(...structuredClone(records));
+  }
+
+  async listExtractionRecords(paperId: string): Promise<ExtractionRecord[]> {
+    return structuredClone(this.extractionRecords.filter(record => record.paper_id === paperId));
+  }
+
+  async getExtractionRecord(id: string): Promise<ExtractionRecord | null> {
+    const record = this.extractionRecords.find(candidate => candidate.id === id);
+    return record ? structuredClone(record) : null;
+  }
+
+  async getSyncState(profile: string): Promise<SyncState | null> {
+    const state = this.syncStates.get(profile);
+    return state ? { ...state } : null;
+  }
+
+  async saveSyncState(state: SyncState): Promise<void> {
+    this.syncStates.set(state.profile, { ...state });
+  }
+
+  async upsertEmbedding(kind: EmbeddingKind, id: string, model: string, vector: number[]): Promise<void> {
+    this.vectorIndex(kind, model).set(id, vector);
+  }
+
+  async getEmbedding(kind: EmbeddingKind, id: string, model: string): Promise<number[] | null> {
+    return this.vectorIndex(kind, model).get(id);
+  }
+
+  async listEmbeddedIds(kind: EmbeddingKind, model: string): Promise<string[]> {
+    return this.vectorIndex(kind, model).ids();
+  }
+
+  async findSimilar(kind: EmbeddingKind, model: string, vector: number[], limit: number): Promise<SimilarityHit[]> {
+    return this.vectorIndex(kind, model).search(vector, limit);
+  }
+
+  async loadSnapshot(): Promise<GraphSnapshot> {
+    const records = (table: Map<string, NamedRecord>) => [...table.values()].map(record => ({ ...record }));
+
+    return {
+      papers: await this.listPapers(),
+      concepts: [...this.concepts.values()].map(concept => ({ ...concept })),
+      methods: records(this.methods) as GraphSnapshot['methods'],
+      datasets: records(this.datasets) as GraphSnapshot['datasets'],
+      metrics: records(this.metrics) as GraphSnapshot['metrics'],
+      paperConcepts: this.paperConcepts.map(link => ({ ...link })),
+      relationships: this.relationships.map(({ id, source_paper_id, ...rel }) => ({ ...rel, paper_id: source_paper_id })),
+      paperMethods: this.paperMethods.map(link => ({ ...link })),
+      paperDatasets: this.paperDatasets.map(link => ({ ...link })),
+      paperMetrics: this.paperMetrics.map(link => ({ ...link })),
+      paperRelationships: await this.listPaperRelationships()
+    };
+  }
+
+  async getStats(): Promise<DatabaseStats> {
+    return {
+      papers: this.papers.size,
+      concepts: this.concepts.size,
+      relationships: this.relationships.length,
+      methods: this.methods.size,
+      datasets: this.datasets.size,
+      metrics: this.metrics.size
+    };
+  }
+
+  async close(): Promise<void> {
+    console.log('    Database connection closed');
+  }
+
+  // With the paper's arXiv ID, as the SQL stores join it in; null once the paper is gone
+  private toReviewItem({ key, ...item }: ReviewRecord): ReviewItem | null {
+    const paper = this.papers.get(item.paper_id);
+    return paper ? { ...structuredClone(item), arxiv_id: paper.arxiv_id } : null;
+  }
+
+  // Keyed by normalized name, like the name_key column of the SQL stores
+  private findOrInsertByNameKey(table: Map<string, NamedRecord>, name: string, fields: Record<string, unknown>): string {
+    const nameKey = normalizeConceptName(name);
+    const existing = table.get(nameKey);
+    if (existing) return existing.id;
+
+    const record: NamedRecord = { ...fields, id: randomUUID(), name };
+    table.set(nameKey, record);
+    return record.id;
+  }
+
+  private vectorIndex(kind: EmbeddingKind, model: string): VectorIndex {
+    const key = `${kind}:${model}`;
+    let index = this.vectorIndexes.get(key);
+    if (!index) {
+      index = new VectorIndex();
+      this.vectorIndexes.set(key, index);
+    }
+    return index;
+  }
+}
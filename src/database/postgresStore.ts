@@ -0,0 +1,82 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import pg from 'pg';
+import { SqlGraphStore } from './sqlGraphStore.js';
+import type { EmbeddingKind, SimilarityHit } from '../types.js';
+
+/**
+ * Direct PostgreSQL connection (a Supabase project works too, through its
+ * Postgres connection string). Expects src/supabase/schema.sql to be applied.
+ */
+export class PostgresGraphStore extends SqlGraphStore {
+  readonly kind = 'postgres';
+  private pool: pg.Pool;
+  // The connection a running transaction holds; statements outside one go to the pool
+  private transactionClient = new AsyncLocalStorage<pg.PoolClient>();
+
+  constructor(connectionString: string) {
+    super();
+    this.pool = new pg.Pool({ connectionString, max: 10 });
+    console.log('    PostgresGraphStore: connection pool created');
+  }
+
+  protected async query<T = any>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const result = await this.connection().query(this.toPositional(sql), params);
+    return result.rows as T[];
+  }
+
+  protected async execute(sql: string, params: unknown[] = []): Promise<number> {
+    const result = await this.connection().query(this.toPositional(sql), params);
+    return result.rowCount ?? 0;
+  }
+
+  protected async transaction<T>(work: () => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await this.transactionClient.run(client, work);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // TEXT[] columns: node-postgres converts arrays in both directions
+  protected encodeList(values: string[]): unknown {
+    return values;
+  }
+
+  protected decodeList(value: unknown): string[] {
+    return Array.isArray(value) ? value : [];
+  }
+
+  // pgvector ranks in the database; `<=>` is cosine distance
+  async findSimilar(kind: EmbeddingKind, model: string, vector: number[], limit: number): Promise<SimilarityHit[]> {
+    const literal = JSON.stringify(vector);
+    const rows = await this.query<{ entity_id: string; score: number }>(
+      `SELECT entity_id, 1 - (embedding <=> ?::vector) AS score FROM embeddings
+       WHERE entity_type = ? AND model = ?
+       ORDER BY embedding <=> ?::vector LIMIT ?`,
+      [literal, kind, model, literal, limit]
+    );
+    return rows.map(row => ({ id: row.entity_id, score: Number(row.score) }));
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+    console.log('    Database connection closed');
+  }
+
+  private connection(): pg.Pool | pg.PoolClient {
+    return this.transactionClient.getStore() ?? this.pool;
+  }
+
+  // `?` -> `$1, $2, ...` (statements in SqlGraphStore never contain a literal `?`)
+  private toPositional(sql: string): string {
+    let index = 0;
+    return sql.replace(/\?/g, () => `$${++index}`);
+  }
+}
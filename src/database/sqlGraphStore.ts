@@ -0,0 +1,917 @@
+import { randomUUID } from 'crypto';
+import type { GraphStore } from './graphStore.js';
+import type {
+  Paper,
+  Concept,
+  Relationship,
+  Method,
+  Dataset,
+  Metric,
+  DatabaseStats,
+  PaperSection,
+  StoredPaper,
+  StoredConcept,
+  PaperRelationship,
+  PaperRelationshipType,
+  PaperMethodLink,
+  PipelineRun,
+  PaperJob,
+  GraphSnapshot,
+  EmbeddingKind,
+  SimilarityHit,
+  PaperConceptLink,
+  ConceptPaperLink,
+  SyncState,
+  PaperChange,
+  PaperVersion,
+  ReviewCandidate,
+  ReviewItem,
+  ReviewFilter,
+  ReviewStatus,
+  ExtractionRecord
+} from '../types.js';
+import { normalizeConceptName } from '../resolution/conceptResolver.js';
+import { normalizeArxivId } from '../arxiv/arxivId.js';
+import { VectorIndex } from '../embeddings/vectorIndex.js';
+
+/**
+ * GraphStore on top of a SQL database. Statements use `?` placeholders and
+ * portable SQL (ON CONFLICT, no ILIKE); dialect differences are left to the
+ * query/execute/encodeList/decodeList hooks of each subclass.
+ */
+export abstract class SqlGraphStore implements GraphStore {
+  abstract readonly kind: string;
+
+  protected abstract query<T = any>(sql: string, params?: unknown[]): Promise<T[]>;
+  protected abstract execute(sql: string, params?: unknown[]): Promise<number>;
+  // Runs the statements `work` issues as one transaction, rolled back if it throws
+  protected abstract transaction<T>(work: () => Promise<T>): Promise<T>;
+  protected abstract encodeList(values: string[]): unknown;
+  protected abstract decodeList(value: unknown): string[];
+  abstract close(): Promise<void>;
+
+  // Loaded on the first findSimilar per kind and model, then kept in step by upsertEmbedding
+  private vectorIndexes = new Map<string, VectorIndex>();
+
+  async findPaperByArxivId(arxivId: string): Promise<StoredPaper | null> {
+    const id = normalizeArxivId(arxivId);
+    // Papers stored before IDs were normalized may still carry a version suffix
+    const rows = await this.query('SELECT * FROM papers WHERE arxiv_id = ? OR arxiv_id LIKE ?', [id, `${id}v%`]);
+    const row = rows.find(candidate => candidate.arxiv_id === id) ?? rows[0];
+    return row ? this.toPaper(row) : null;
+  }
+
+  async insertPaper(paper: Paper): Promise<string> {
+    const id = randomUUID();
+    try {
+      await this.execute(
+        `INSERT INTO papers (id, arxiv_id, title, authors, abstract, published_date, pdf_url, categories, version, updated_date, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          normalizeArxivId(paper.arxiv_id),
+          paper.title,
+          this.encodeList(paper.authors),
+          paper.abstract,
+          paper.published_date,
+          paper.pdf_url,
+          this.encodeList(paper.categories),
+          paper.version ?? null,
+          paper.updated_date ?? null,
+          this.paperMetadata(paper)
+        ]
+      );
+      await this.insertPaperVersion(id, paper, []);
+    } catch (error: any) {
+      throw new Error(`Failed to insert paper: ${error.message}`);
+    }
+
+    console.log(`   Paper stored: "${paper.title.substring(0, 60)}..."`);
+    return id;
+  }
+
+  async listPapers(): Promise<StoredPaper[]> {
+    const rows = await this.query('SELECT * FROM papers ORDER BY published_date ASC');
+    return rows.map(row => this.toPaper(row));
+  }
+
+  async revisePaper(paperId: string, paper: Paper, changes: PaperChange[]): Promise<void> {
+    await this.execute(
+      `UPDATE papers SET title = ?, authors = ?, abstract = ?, published_date = ?, pdf_url = ?, categories = ?,
+         version = ?, updated_date = ?, metadata = ?
+       WHERE id = ?`,
+      [
+        paper.title,
+        this.encodeList(paper.authors),
+        paper.abstract,
+        paper.published_date,
+        paper.pdf_url,
+        this.encodeList(paper.categories),
+        paper.version ?? null,
+        paper.updated_date ?? null,
+        this.paperMetadata(paper),
+        paperId
+      ]
+    );
+    await this.insertPaperVersion(paperId, paper, changes);
+  }
+
+  async listPaperVersions(paperId: string): Promise<PaperVersion[]> {
+    const rows = await this.query('SELECT * FROM paper_versions WHERE paper_id = ? ORDER BY version ASC', [paperId]);
+    return rows.map(row => ({
+      paper_id: row.paper_id,
+      version: Number(row.version),
+      title: row.title,
+      abstract: row.abstract ?? '',
+      updated_date: row.updated_date ? this.toTimestamp(row.updated_date) : null,
+      changes: this.decodeJson<PaperChange[]>(row.changes) ?? [],
+      recorded_at: this.toTimestamp(row.recorded_at)
+    }));
+  }
+
+  // The arXiv entry fields without a column of their own
+  private paperMetadata(paper: Paper): string {
+    return JSON.stringify({
+      primary_category: paper.primary_category ?? null,
+      doi: paper.doi ?? null,
+      journal_ref: paper.journal_ref ?? null,
+      comment: paper.comment ?? null,
+      author_details: paper.author_details ?? [],
+      links: paper.links ?? []
+    });
+  }
+
+  // Papers whose version is unknown are recorded as version 1
+  private async insertPaperVersion(paperId: string, paper: Paper, changes: PaperChange[]): Promise<void> {
+    await this.execute(
+      `INSERT INTO paper_versions (paper_id, version, title, abstract, updated_date, changes, recorded_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (paper_id, version) DO NOTHING`,
+      [
+        paperId,
+        paper.version ?? 1,
+        paper.title,
+        paper.abstract,
+        paper.updated_date ?? null,
+        JSON.stringify(changes),
+        new Date().toISOString()
+      ]
+    );
+  }
+
+  async insertConcept(concept: Concept): Promise<{ id: string; created: boolean }> {
+    const id = randomUUID();
+    let inserted: number;
+    try {
+      inserted = await this.execute(
+        'INSERT INTO concepts (id, name, category, description) VALUES (?, ?, ?, ?) ON CONFLICT (name) DO NOTHING',
+        [id, concept.name, concept.category, concept.description]
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to insert concept: ${error.message}`);
+    }
+
+    if (inserted > 0) {
+      console.log(`    Concept stored: "${concept.name}"`);
+      return { id, created: true };
+    }
+
+    // Another paper inserted the same concept concurrently
+    const raced = await this.query<{ id: string }>('SELECT id FROM concepts WHERE name = ?', [concept.name]);
+    if (raced.length === 0) {
+      throw new Error(`Failed to insert concept: "${concept.name}"`);
+    }
+    return { id: raced[0].id, created: false };
+  }
+
+  async listConcepts(): Promise<StoredConcept[]> {
+    return this.query<StoredConcept>('SELECT id, name, category FROM concepts ORDER BY created_at ASC');
+  }
+
+  async findConceptIdByAlias(aliasKeys: string[]): Promise<string | null> {
+    if (aliasKeys.length === 0) return null;
+
+    const placeholders = aliasKeys.map(() => '?').join(', ');
+    const rows = await this.query<{ alias_key: string; concept_id: string }>(
+      `SELECT alias_key, concept_id FROM concept_aliases WHERE alias_key IN (${placeholders})`,
+      aliasKeys
+    );
+    // Keys come most specific first, so the earliest key that matches decides
+    const match = aliasKeys.map(key => rows.find(row => row.alias_key === key)).find(row => row !== undefined);
+    return match?.concept_id ?? null;
+  }
+
+  // First writer wins: an alias key never silently moves to another concept
+  async addConceptAlias(aliasKey: string, alias: string, conceptId: string): Promise<void> {
+    await this.execute(
+      'INSERT INTO concept_aliases (alias_key, alias, concept_id) VALUES (?, ?, ?) ON CONFLICT (alias_key) DO NOTHING',
+      [aliasKey, alias, conceptId]
+    );
+  }
+
+  async mergeConcepts(sourceId: string, targetId: string): Promise<void> {
+    const concepts = await this.query<{ id: string; name: string }>(
+      'SELECT id, name FROM concepts WHERE id IN (?, ?)',
+      [sourceId, targetId]
+    );
+    const source = concepts.find(c => c.id === sourceId);
+    const target = concepts.find(c => c.id === targetId);
+    if (!source || !target) {
+      throw new Error(`Concept not found for merge: ${!source ? sourceId : targetId}`);
+    }
+
+    await this.transaction(async () => {
+      // Paper links: copy onto the target (skipping ones it already has), then drop the source rows
+      await this.execute(
+        `INSERT INTO paper_concepts (paper_id, concept_id, relationship, confidence_score, section, extraction_id, reviewed_by)
+         SELECT paper_id, ?, relationship, confidence_score, section, extraction_id, reviewed_by FROM paper_concepts WHERE concept_id = ?
+         ON CONFLICT (paper_id, concept_id, relationship) DO NOTHING`,
+        [targetId, sourceId]
+      );
+      await this.execute('DELETE FROM paper_concepts WHERE concept_id = ?', [sourceId]);
+      // Relationships: renamed to the target, except where that would repeat one of the same
+      // paper, type and extraction call. Rows already naming the target are kept first, then the oldest
+      await this.execute(
+        `DELETE FROM relationships
+         WHERE (target_concept_id = ? OR LOWER(target_concept) = LOWER(?))
+           AND EXISTS (
+             SELECT 1 FROM relationships other
+             WHERE other.id <> relationships.id
+               AND other.source_paper_id = relationships.source_paper_id
+               AND other.relationship_type = relationships.relationship_type
+               AND COALESCE(CAST(other.extraction_id AS TEXT), '') = COALESCE(CAST(relationships.extraction_id AS TEXT), '')
+               AND (other.target_concept = ? OR other.target_concept_id = ? OR LOWER(other.target_concept) = LOWER(?))
+               AND (CASE WHEN other.target_concept = ? THEN '0' ELSE '1' END) || CAST(other.id AS TEXT)
+                 < (CASE WHEN relationships.target_concept = ? THEN '0' ELSE '1' END) || CAST(relationships.id AS TEXT)
+           )`,
+        [sourceId, source.name, target.name, sourceId, source.name, target.name, target.name]
+      );
+      await this.execute(
+        `UPDATE relationships SET target_concept = ?, target_concept_id = ?
+         WHERE target_concept_id = ? OR LOWER(target_concept) = LOWER(?)`,
+        [target.name, targetId, sourceId, source.name]
+      );
+      await this.execute('UPDATE concept_aliases SET concept_id = ? WHERE concept_id = ?', [targetId, sourceId]);
+      await this.addConceptAlias(normalizeConceptName(source.name), source.name, targetId);
+      await this.execute("DELETE FROM embeddings WHERE entity_type = 'concept' AND entity_id = ?", [sourceId]);
+      await this.execute('DELETE FROM concepts WHERE id = ?', [sourceId]);
+    });
+
+    // Cached vectors are only dropped once the merge has committed
+    for (const [key, index] of this.vectorIndexes) {
+      if (key.startsWith('concept:')) index.delete(sourceId);
+    }
+
+    console.log(`    Merged concept "${source.name}" into "${target.name}"`);
+  }
+
+  async linkPaperConcept(
+    paperId: string,
+    conceptId: string,
+    relationship: string,
+    confidence: number,
+    section?: PaperSection,
+    provenance: Pick<PaperConceptLink, 'extraction_id' | 'reviewed_by'> = {}
+  ): Promise<void> {
+    try {
+      await this.execute(
+        `INSERT INTO paper_concepts (paper_id, concept_id, relationship, confidence_score, section, extraction_id, reviewed_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT (paper_id, concept_id, relationship) DO NOTHING`,
+        [paperId, conceptId, relationship, confidence, section ?? null, provenance.extraction_id ?? null, provenance.reviewed_by ?? null]
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to link paper-concept: ${error.message}`);
+    }
+  }
+
+  async getPaperConcepts(paperId: string): Promise<StoredConcept[]> {
+    return this.query<StoredConcept>(
+      `SELECT c.id, c.name, c.category FROM paper_concepts pc
+       JOIN concepts c ON c.id = pc.concept_id
+       WHERE pc.paper_id = ?`,
+      [paperId]
+    );
+  }
+
+  async getPaperConceptLinks(paperId: string): Promise<PaperConceptLink[]> {
+    const rows = await this.query(
+      `SELECT c.id, c.name, c.category, pc.relationship, pc.confidence_score, pc.section, pc.extraction_id, pc.reviewed_by
+       FROM paper_concepts pc
+       JOIN concepts c ON c.id = pc.concept_id
+       WHERE pc.paper_id = ?
+       ORDER BY pc.confidence_score DESC`,
+      [paperId]
+    );
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      category: row.category,
+      relationship: row.relationship,
+      confidence: Number(row.confidence_score),
+      section: row.section ?? undefined,
+      extraction_id: row.extraction_id ?? null,
+      reviewed_by: row.reviewed_by ?? null
+    }));
+  }
+
+  async listConceptPapers(conceptId: string): Promise<ConceptPaperLink[]> {
+    const rows = await this.query(
+      `SELECT p.*, pc.relationship, pc.confidence_score, pc.section FROM paper_concepts pc
+       JOIN papers p ON p.id = pc.paper_id
+       WHERE pc.concept_id = ?
+       ORDER BY p.published_date DESC`,
+      [conceptId]
+    );
+    return rows.map(row => ({
+      paper: this.toPaper(row),
+      relationship: row.relationship,
+      confidence: Number(row.confidence_score),
+      section: row.section ?? undefined
+    }));
+  }
+
+  async insertRelationship(paperId: string, relationship: Relationship, targetConceptId?: string): Promise<void> {
+    try {
+      await this.execute(
+        `INSERT INTO relationships
+           (id, source_paper_id, relationship_type, target_concept, target_concept_id, evidence, confidence_score, section,
+            extraction_id, reviewed_by, entailment_verdict, entailment_rationale, entailment_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (source_paper_id, relationship_type, target_concept, COALESCE(CAST(extraction_id AS TEXT), '')) DO NOTHING`,
+        [
+          randomUUID(),
+          paperId,
+          relationship.relationship_type,
+          relationship.target_concept,
+          targetConceptId ?? null,
+          relationship.evidence,
+          relationship.confidence,
+          relationship.section ?? null,
+          relationship.extraction_id ?? null,
+          relationship.reviewed_by ?? null,
+          relationship.entailment_verdict ?? null,
+          relationship.entailment_rationale ?? null,
+          relationship.entailment_id ?? null
+        ]
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to insert relationship: ${error.message}`);
+    }
+
+    console.log(`    Relationship stored: ${relationship.relationship_type} -> ${relationship.target_concept}`);
+  }
+
+  async getPaperRelationships(paperId: string): Promise<Relationship[]> {
+    const rows = await this.query(
+      `SELECT relationship_type, target_concept, evidence, confidence_score, section, extraction_id, reviewed_by,
+              entailment_verdict, entailment_rationale, entailment_id
+       FROM relationships WHERE source_paper_id = ?`,
+      [paperId]
+    );
+    return rows.map(row => ({
+      relationship_type: row.relationship_type,
+      target_concept: row.target_concept,
+      evidence: row.evidence,
+      confidence: Number(row.confidence_score),
+      section: row.section ?? undefined,
+      extraction_id: row.extraction_id ?? null,
+      reviewed_by: row.reviewed_by ?? null,
+      entailment_verdict: row.entailment_verdict ?? null,
+      entailment_rationale: row.entailment_rationale ?? null,
+      entailment_id: row.entailment_id ?? null
+    }));
+  }
+
+  async upsertMethod(method: Method): Promise<string> {
+    return this.findOrInsertByNameKey('methods', method.name, {
+      name: method.name,
+      description: method.description
+    });
+  }
+
+  async linkPaperMethod(paperId: string, methodId: string, link: PaperMethodLink): Promise<void> {
+    await this.execute(
+      `INSERT INTO paper_methods (paper_id, method_id, introduces, is_baseline, confidence_score, section, extraction_id, reviewed_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT (paper_id, method_id) DO NOTHING`,
+      [
+        paperId,
+        methodId,
+        link.introduces,
+        link.is_baseline,
+        link.confidence,
+        link.section ?? null,
+        link.extraction_id ?? null,
+        link.reviewed_by ?? null
+      ]
+    );
+  }
+
+  async upsertDataset(dataset: Dataset): Promise<string> {
+    return this.findOrInsertByNameKey('datasets', dataset.name, {
+      name: dataset.name,
+      description: dataset.description ?? null,
+      task_type: dataset.task_type ?? null,
+      size: dataset.size ?? null
+    });
+  }
+
+  async linkPaperDataset(paperId: string, datasetId: string, section?: PaperSection, extractionId?: string): Promise<void> {
+    await this.execute(
+      `INSERT INTO paper_datasets (paper_id, dataset_id, section, extraction_id)
+       VALUES (?, ?, ?, ?) ON CONFLICT (paper_id, dataset_id) DO NOTHING`,
+      [paperId, datasetId, section ?? null, extractionId ?? null]
+    );
+  }
+
+  async upsertMetric(metric: Metric): Promise<string> {
+    return this.findOrInsertByNameKey('metrics', metric.name, {
+      name: metric.name,
+      unit: metric.unit ?? null,
+      higher_is_better: metric.higher_is_better,
+      description: metric.description ?? null
+    });
+  }
+
+  async linkPaperMetric(paperId: string, metricId: string, section?: PaperSection, extractionId?: string): Promise<void> {
+    await this.execute(
+      `INSERT INTO paper_metrics (paper_id, metric_id, section, extraction_id)
+       VALUES (?, ?, ?, ?) ON CONFLICT (paper_id, metric_id) DO NOTHING`,
+      [paperId, metricId, section ?? null, extractionId ?? null]
+    );
+  }
+
+  async countMethodIntroductions(): Promise<number> {
+    return this.count('SELECT COUNT(*) AS count FROM paper_methods WHERE introduces = ?', [true]);
+  }
+
+  async upsertPaperRelationship(edge: PaperRelationship): Promise<void> {
+    await this.execute(
+      `INSERT INTO paper_relationships
+         (id, source_paper_id, target_paper_id, relationship_type, evidence, confidence_score)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (source_paper_id, target_paper_id, relationship_type)
+       DO UPDATE SET evidence = excluded.evidence, confidence_score = excluded.confidence_score`,
+      [randomUUID(), edge.source_paper_id, edge.target_paper_id, edge.relationship_type, edge.evidence, edge.confidence]
+    );
+  }
+
+  async countPaperRelationships(type: PaperRelationshipType): Promise<number> {
+    return this.count('SELECT COUNT(*) AS count FROM paper_relationships WHERE relationship_type = ?', [type]);
+  }
+
+  async listPaperRelationships(): Promise<PaperRelationship[]> {
+    const rows = await this.query(
+      `SELECT source_paper_id, target_paper_id, relationship_type, evidence, confidence_score
+       FROM paper_relationships ORDER BY created_at`
+    );
+    return rows.map(row => this.toPaperRelationship(row));
+  }
+
+  async getPaperEdges(paperId: string): Promise<PaperRelationship[]> {
+    const rows = await this.query(
+      `SELECT source_paper_id, target_paper_id, relationship_type, evidence, confidence_score
+       FROM paper_relationships WHERE source_paper_id = ? OR target_paper_id = ?
+       ORDER BY confidence_score DESC`,
+      [paperId, paperId]
+    );
+    return rows.map(row => this.toPaperRelationship(row));
+  }
+
+  async clearPaperExtraction(paperId: string): Promise<void> {
+    for (const table of ['paper_concepts', 'paper_methods', 'paper_datasets', 'paper_metrics']) {
+      await this.execute(`DELETE FROM ${table} WHERE paper_id = ?`, [paperId]);
+    }
+    await this.execute('DELETE FROM relationships WHERE source_paper_id = ?', [paperId]);
+    await this.execute('DELETE FROM review_items WHERE paper_id = ?', [paperId]);
+    // Citations come from the bibliography, not the extraction
+    await this.execute(
+      "DELETE FROM paper_relationships WHERE (source_paper_id = ? OR target_paper_id = ?) AND relationship_type <> 'cites'",
+      [paperId, paperId]
+    );
+  }
+
+  async createRun(run: PipelineRun): Promise<void> {
+    await this.execute(
+      'INSERT INTO pipeline_runs (id, mode, status, config, started_at, finished_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [run.id, run.mode, run.status, JSON.stringify(run.config), run.started_at, run.finished_at]
+    );
+  }
+
+  async finishRun(runId: string, status: PipelineRun['status'], finishedAt: string): Promise<void> {
+    await this.execute('UPDATE pipeline_runs SET status = ?, finished_at = ? WHERE id = ?', [status, finishedAt, runId]);
+  }
+
+  async getRun(runId: string): Promise<PipelineRun | null> {
+    const rows = await this.query('SELECT * FROM pipeline_runs WHERE id = ?', [runId]);
+    return rows.length > 0 ? this.toRun(rows[0]) : null;
+  }
+
+  async getLatestRun(): Promise<PipelineRun | null> {
+    const rows = await this.query('SELECT * FROM pipeline_runs ORDER BY started_at DESC LIMIT 1');
+    return rows.length > 0 ? this.toRun(rows[0]) : null;
+  }
+
+  async upsertPaperJob(job: PaperJob): Promise<void> {
+    await this.execute(
+      `INSERT INTO paper_jobs
+         (run_id, arxiv_id, paper_id, stage, status, attempts, last_error, extraction, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (run_id, arxiv_id) DO UPDATE SET
+         paper_id = excluded.paper_id, stage = excluded.stage, status = excluded.status,
+         attempts = excluded.attempts, last_error = excluded.last_error,
+         extraction = excluded.extraction, updated_at = excluded.updated_at`,
+      [
+        job.run_id,
+        job.arxiv_id,
+        job.paper_id,
+        job.stage,
+        job.status,
+        job.attempts,
+        job.last_error,
+        job.extraction ? JSON.stringify(job.extraction) : null,
+        job.updated_at
+      ]
+    );
+  }
+
+  async listPaperJobs(runId: string): Promise<PaperJob[]> {
+    const rows = await this.query('SELECT * FROM paper_jobs WHERE run_id = ? ORDER BY updated_at ASC', [runId]);
+    return rows.map(row => this.toJob(row));
+  }
+
+  async findLatestPaperJob(arxivId: string): Promise<PaperJob | null> {
+    const rows = await this.query(
+      'SELECT * FROM paper_jobs WHERE arxiv_id = ? ORDER BY updated_at DESC LIMIT 1',
+      [arxivId]
+    );
+    return rows.length > 0 ? this.toJob(rows[0]) : null;
+  }
+
+  async addReviewItem(paperId: string, key: string, candidate: ReviewCandidate): Promise<boolean> {
+    const inserted = await this.execute(
+      `INSERT INTO review_items (id, paper_id, kind, entity_key, entity, reasons, status, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, 'pending', ?)
+       ON CONFLICT (paper_id, kind, entity_key) DO NOTHING`,
+      [
+        randomUUID(),
+        paperId,
+        candidate.kind,
+        key,
+        JSON.stringify(candidate.entity),
+        JSON.stringify(candidate.reasons),
+        new Date().toISOString()
+      ]
+    );
+    return inserted > 0;
+  }
+
+  async listReviewItems(filter: ReviewFilter): Promise<ReviewItem[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    for (const [column, value] of [['r.status', filter.status], ['r.kind', filter.kind], ['r.paper_id', filter.paperId]]) {
+      if (value === undefined) continue;
+      conditions.push(`${column} = ?`);
+      params.push(value);
+    }
+    const rows = await this.query(
+      `SELECT r.*, p.arxiv_id FROM review_items r JOIN papers p ON p.id = r.paper_id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY r.created_at ASC`,
+      params
+    );
+    return rows.map(row => this.toReviewItem(row));
+  }
+
+  async getReviewItem(id: string): Promise<ReviewItem | null> {
+    const rows = await this.query(
+      'SELECT r.*, p.arxiv_id FROM review_items r JOIN papers p ON p.id = r.paper_id WHERE r.id = ?',
+      [id]
+    );
+    return rows.length > 0 ? this.toReviewItem(rows[0]) : null;
+  }
+
+  async decideReviewItem(id: string, decision: Pick<ReviewItem, 'status' | 'entity' | 'reviewed_by' | 'reviewed_at'>, from: ReviewStatus = 'pending'): Promise<boolean> {
+    const updated = await this.execute(
+      'UPDATE review_items SET status = ?, entity = ?, reviewed_by = ?, reviewed_at = ? WHERE id = ? AND status = ?',
+      [decision.status, JSON.stringify(decision.entity), decision.reviewed_by, decision.reviewed_at, id, from]
+    );
+    return updated > 0;
+  }
+
+  async insertExtractionRecords(records: ExtractionRecord[]): Promise<void> {
+    for (const record of records) {
+      await this.execute(
+        `INSERT INTO extraction_records
+           (id, paper_id, run_id, section, provider, model, temperature, max_tokens, prompt_version, request, response,
+            error, latency_ms, prompt_tokens, completion_tokens, total_tokens, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          record.id,
+          record.paper_id,
+          record.run_id,
+          record.section,
+          record.provider,
+          record.model,
+          record.temperature,
+          record.max_tokens,
+          record.prompt_version,
+          JSON.stringify(record.request),
+          record.response,
+          record.error,
+          record.latency_ms,
+          record.usage?.prompt_tokens ?? null,
+          record.usage?.completion_tokens ?? null,
+          record.usage?.total_tokens ?? null,
+          record.created_at
+        ]
+      );
+    }
+  }
+
+  async listExtractionRecords(paperId: string): Promise<ExtractionRecord[]> {
+    const rows = await this.query('SELECT * FROM extraction_records WHERE paper_id = ? ORDER BY created_at ASC', [paperId]);
+    return rows.map(row => this.toExtractionRecord(row));
+  }
+
+  async getExtractionRecord(id: string): Promise<ExtractionRecord | null> {
+    const rows = await this.query('SELECT * FROM extraction_records WHERE id = ?', [id]);
+    return rows.length > 0 ? this.toExtractionRecord(rows[0]) : null;
+  }
+
+  async getSyncState(profile: string): Promise<SyncState | null> {
+    const rows = await this.query('SELECT * FROM sync_state WHERE profile = ?', [profile]);
+    if (rows.length === 0) return null;
+    return {
+      profile: rows[0].profile,
+      high_water_mark: this.toTimestamp(rows[0].high_water_mark),
+      last_synced_at: this.toTimestamp(rows[0].last_synced_at)
+    };
+  }
+
+  async saveSyncState(state: SyncState): Promise<void> {
+    await this.execute(
+      `INSERT INTO sync_state (profile, high_water_mark, last_synced_at) VALUES (?, ?, ?)
+       ON CONFLICT (profile) DO UPDATE SET
+         high_water_mark = excluded.high_water_mark, last_synced_at = excluded.last_synced_at`,
+      [state.profile, state.high_water_mark, state.last_synced_at]
+    );
+  }
+
+  // Vectors are written in pgvector's text form, which is also a JSON array
+  async upsertEmbedding(kind: EmbeddingKind, id: string, model: string, vector: number[]): Promise<void> {
+    await this.execute(
+      `INSERT INTO embeddings (entity_type, entity_id, model, embedding) VALUES (?, ?, ?, ?)
+       ON CONFLICT (entity_type, entity_id, model) DO UPDATE SET embedding = excluded.embedding`,
+      [kind, id, model, JSON.stringify(vector)]
+    );
+    this.vectorIndexes.get(`${kind}:${model}`)?.set(id, vector);
+  }
+
+  async getEmbedding(kind: EmbeddingKind, id: string, model: string): Promise<number[] | null> {
+    const rows = await this.query(
+      'SELECT embedding FROM embeddings WHERE entity_type = ? AND entity_id = ? AND model = ?',
+      [kind, id, model]
+    );
+    return rows[0] ? this.decodeVector(rows[0].embedding) : null;
+  }
+
+  async listEmbeddedIds(kind: EmbeddingKind, model: string): Promise<string[]> {
+    const rows = await this.query('SELECT entity_id FROM embeddings WHERE entity_type = ? AND model = ?', [kind, model]);
+    return rows.map(row => row.entity_id);
+  }
+
+  // Brute force over an in-process index; PostgresGraphStore ranks with pgvector instead
+  async findSimilar(kind: EmbeddingKind, model: string, vector: number[], limit: number): Promise<SimilarityHit[]> {
+    const key = `${kind}:${model}`;
+    let index = this.vectorIndexes.get(key);
+    if (!index) {
+      index = new VectorIndex();
+      const rows = await this.query(
+        'SELECT entity_id, embedding FROM embeddings WHERE entity_type = ? AND model = ?',
+        [kind, model]
+      );
+      for (const row of rows) {
+        index.set(row.entity_id, this.decodeVector(row.embedding));
+      }
+      this.vectorIndexes.set(key, index);
+    }
+    return index.search(vector, limit);
+  }
+
+  async loadSnapshot(): Promise<GraphSnapshot> {
+    const confidence = (row: any) => Number(row.confidence_score);
+    const section = (row: any) => row.section ?? undefined;
+
+    return {
+      papers: await this.listPapers(),
+      concepts: await this.query('SELECT id, name, category, description FROM concepts ORDER BY created_at ASC'),
+      methods: await this.query('SELECT id, name, description FROM methods ORDER BY created_at ASC'),
+      datasets: await this.query('SELECT id, name, description, task_type, size FROM datasets ORDER BY created_at ASC'),
+      metrics: (await this.query('SELECT id, name, unit, higher_is_better, description FROM metrics ORDER BY created_at ASC'))
+        .map(row => ({ ...row, higher_is_better: Boolean(row.higher_is_better) })),
+      paperConcepts: (await this.query('SELECT * FROM paper_concepts')).map(row => ({
+        paper_id: row.paper_id,
+        concept_id: row.concept_id,
+        relationship: row.relationship,
+        confidence: confidence(row),
+        section: section(row),
+        extraction_id: row.extraction_id ?? null,
+        reviewed_by: row.reviewed_by ?? null
+      })),
+      relationships: (await this.query('SELECT * FROM relationships ORDER BY created_at ASC')).map(row => ({
+        paper_id: row.source_paper_id,
+        relationship_type: row.relationship_type,
+        target_concept: row.target_concept,
+        target_concept_id: row.target_concept_id ?? null,
+        evidence: row.evidence ?? '',
+        confidence: confidence(row),
+        section: section(row),
+        extraction_id: row.extraction_id ?? null,
+        reviewed_by: row.reviewed_by ?? null,
+        entailment_verdict: row.entailment_verdict ?? null,
+        entailment_rationale: row.entailment_rationale ?? null,
+        entailment_id: row.entailment_id ?? null
+      })),
+      paperMethods: (await this.query('SELECT * FROM paper_methods')).map(row => ({
+        paper_id: row.paper_id,
+        method_id: row.method_id,
+        introduces: Boolean(row.introduces),
+        is_baseline: Boolean(row.is_baseline),
+        confidence: confidence(row),
+        section: section(row),
+        extraction_id: row.extraction_id ?? null,
+        reviewed_by: row.reviewed_by ?? null
+      })),
+      paperDatasets: (await this.query('SELECT paper_id, dataset_id, section, extraction_id FROM paper_datasets')).map(row => ({
+        paper_id: row.paper_id,
+        dataset_id: row.dataset_id,
+        section: section(row),
+        extraction_id: row.extraction_id ?? null
+      })),
+      paperMetrics: (await this.query('SELECT paper_id, metric_id, section, extraction_id FROM paper_metrics')).map(row => ({
+        paper_id: row.paper_id,
+        metric_id: row.metric_id,
+        section: section(row),
+        extraction_id: row.extraction_id ?? null
+      })),
+      paperRelationships: await this.listPaperRelationships()
+    };
+  }
+
+  async getStats(): Promise<DatabaseStats> {
+    const [papers, concepts, relationships, methods, datasets, metrics] = await Promise.all(
+      ['papers', 'concepts', 'relationships', 'methods', 'datasets', 'metrics']
+        .map(table => this.count(`SELECT COUNT(*) AS count FROM ${table}`))
+    );
+    return { papers, concepts, relationships, methods, datasets, metrics };
+  }
+
+  protected async count(sql: string, params: unknown[] = []): Promise<number> {
+    const rows = await this.query<{ count: number | string }>(sql, params);
+    return rows.length > 0 ? Number(rows[0].count) : 0;
+  }
+
+  /**
+   * Methods, datasets and metrics are shared across papers, keyed by normalized name
+   */
+  private async findOrInsertByNameKey(table: string, name: string, row: Record<string, unknown>): Promise<string> {
+    const nameKey = normalizeConceptName(name);
+    const find = () => this.query<{ id: string }>(`SELECT id FROM ${table} WHERE name_key = ?`, [nameKey]);
+
+    const existing = await find();
+    if (existing.length > 0) {
+      return existing[0].id;
+    }
+
+    const columns = ['id', 'name_key', ...Object.keys(row)];
+    const values = [randomUUID(), nameKey, ...Object.values(row)];
+    const inserted = await this.execute(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+       ON CONFLICT (name_key) DO NOTHING`,
+      values
+    );
+
+    if (inserted > 0) {
+      console.log(`    ${table} entry stored: "${name}"`);
+      return values[0] as string;
+    }
+
+    // Another paper inserted the same entry concurrently
+    const raced = await find();
+    if (raced.length === 0) {
+      throw new Error(`Failed to insert ${table} entry: "${name}"`);
+    }
+    return raced[0].id;
+  }
+
+  // JSONB comes back parsed from Postgres, as text from SQLite
+  protected decodeJson<T>(value: unknown): T | null {
+    if (value === null || value === undefined) return null;
+    return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+  }
+
+  // pgvector's text form and SQLite's JSON text are both "[0.1,0.2,...]"
+  protected decodeVector(value: unknown): number[] {
+    return this.decodeJson<number[]>(value) ?? [];
+  }
+
+  protected toTimestamp(value: unknown): string {
+    return value instanceof Date ? value.toISOString() : String(value ?? '');
+  }
+
+  private toRun(row: any): PipelineRun {
+    return {
+      id: row.id,
+      mode: row.mode,
+      status: row.status,
+      config: this.decodeJson<Record<string, unknown>>(row.config) ?? {},
+      started_at: this.toTimestamp(row.started_at),
+      finished_at: row.finished_at ? this.toTimestamp(row.finished_at) : null
+    };
+  }
+
+  private toJob(row: any): PaperJob {
+    return {
+      run_id: row.run_id,
+      arxiv_id: row.arxiv_id,
+      paper_id: row.paper_id ?? null,
+      stage: row.stage ?? null,
+      status: row.status,
+      attempts: Number(row.attempts),
+      last_error: row.last_error ?? null,
+      extraction: this.decodeJson(row.extraction),
+      updated_at: this.toTimestamp(row.updated_at)
+    };
+  }
+
+  private toReviewItem(row: any): ReviewItem {
+    return {
+      id: row.id,
+      paper_id: row.paper_id,
+      arxiv_id: row.arxiv_id,
+      kind: row.kind,
+      entity: this.decodeJson(row.entity)!,
+      reasons: this.decodeJson<string[]>(row.reasons) ?? [],
+      status: row.status,
+      reviewed_by: row.reviewed_by ?? null,
+      reviewed_at: row.reviewed_at ? this.toTimestamp(row.reviewed_at) : null,
+      created_at: this.toTimestamp(row.created_at)
+    };
+  }
+
+  private toExtractionRecord(row: any): ExtractionRecord {
+    return {
+      id: row.id,
+      paper_id: row.paper_id,
+      run_id: row.run_id ?? null,
+      section: row.section,
+      provider: row.provider,
+      model: row.model,
+      temperature: Number(row.temperature),
+      max_tokens: Number(row.max_tokens),
+      prompt_version: row.prompt_version,
+      request: this.decodeJson(row.request)!,
+      response: row.response ?? null,
+      error: row.error ?? null,
+      latency_ms: Number(row.latency_ms),
+      usage: row.total_tokens === null || row.total_tokens === undefined ? null : {
+        prompt_tokens: Number(row.prompt_tokens),
+        completion_tokens: Number(row.completion_tokens),
+        total_tokens: Number(row.total_tokens)
+      },
+      created_at: this.toTimestamp(row.created_at)
+    };
+  }
+
+  private toPaperRelationship(row: any): PaperRelationship {
+    return {
+      source_paper_id: row.source_paper_id,
+      target_paper_id: row.target_paper_id,
+      relationship_type: row.relationship_type,
+      evidence: row.evidence ?? '',
+      confidence: Number(row.confidence_score)
+    };
+  }
+
+  protected toPaper(row: any): StoredPaper {
+    const metadata = this.decodeJson<Partial<Paper>>(row.metadata) ?? {};
+    return {
+      id: row.id,
+      arxiv_id: row.arxiv_id,
+      title: row.title,
+      authors: this.decodeList(row.authors),
+      abstract: row.abstract ?? '',
+      published_date: this.toTimestamp(row.published_date),
+      pdf_url: row.pdf_url ?? '',
+      categories: this.decodeList(row.categories),
+      version: row.version === null || row.version === undefined ? null : Number(row.version),
+      updated_date: row.updated_date ? this.toTimestamp(row.updated_date) : null,
+      primary_category: metadata.primary_category ?? null,
+      doi: metadata.doi ?? null,
+      journal_ref: metadata.journal_ref ?? null,
+      comment: metadata.comment ?? null,
+      author_details: metadata.author_details ?? [],
+      links: metadata.links ?? []
+    };
+  }
+}
@@ -0,0 +1,351 @@
+import Database from 'better-sqlite3';
+import { SqlGraphStore } from './sqlGraphStore.js';
+
+// SQLite counterpart of src/supabase/schema.sql: lists are JSON text, booleans are 0/1
+const SQLITE_SCHEMA = `
+CREATE TABLE IF NOT EXISTS papers (
+    id TEXT PRIMARY KEY,
+    arxiv_id TEXT UNIQUE NOT NULL,
+    title TEXT NOT NULL,
+    authors TEXT NOT NULL DEFAULT '[]',
+    abstract TEXT,
+    published_date TEXT,
+    pdf_url TEXT,
+    categories TEXT NOT NULL DEFAULT '[]',
+    version INTEGER,
+    updated_date TEXT,
+    metadata TEXT DEFAULT '{}',
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS paper_versions (
+    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    abstract TEXT,
+    updated_date TEXT,
+    changes TEXT NOT NULL DEFAULT '[]',
+    recorded_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (paper_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS concepts (
+    id TEXT PRIMARY KEY,
+    name TEXT UNIQUE NOT NULL,
+    category TEXT,
+    description TEXT,
+    frequency INTEGER DEFAULT 1,
+    metadata TEXT DEFAULT '{}',
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS concept_aliases (
+    alias_key TEXT PRIMARY KEY,
+    alias TEXT NOT NULL,
+    concept_id TEXT REFERENCES concepts(id) ON DELETE CASCADE,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS relationships (
+    id TEXT PRIMARY KEY,
+    source_paper_id TEXT REFERENCES papers(id) ON DELETE CASCADE,
+    relationship_type TEXT NOT NULL,
+    target_concept TEXT NOT NULL,
+    target_concept_id TEXT REFERENCES concepts(id) ON DELETE SET NULL,
+    evidence TEXT,
+    confidence_score REAL DEFAULT 1.0,
+    section TEXT,
+    extraction_id TEXT,
+    reviewed_by TEXT,
+    entailment_verdict TEXT,
+    entailment_rationale TEXT,
+    entailment_id TEXT,
+    metadata TEXT DEFAULT '{}',
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS paper_concepts (
+    paper_id TEXT REFERENCES papers(id) ON DELETE CASCADE,
+    concept_id TEXT REFERENCES concepts(id) ON DELETE CASCADE,
+    relationship TEXT NOT NULL,
+    confidence_score REAL DEFAULT 1.0,
+    section TEXT,
+    extraction_id TEXT,
+    reviewed_by TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (paper_id, concept_id, relationship)
+);
+
+CREATE TABLE IF NOT EXISTS methods (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    name_key TEXT UNIQUE NOT NULL,
+    description TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS datasets (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    name_key TEXT UNIQUE NOT NULL,
+    description TEXT,
+    task_type TEXT,
+    size TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS metrics (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    name_key TEXT UNIQUE NOT NULL,
+    unit TEXT,
+    higher_is_better INTEGER DEFAULT 1,
+    description TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS paper_methods (
+    paper_id TEXT REFERENCES papers(id) ON DELETE CASCADE,
+    method_id TEXT REFERENCES methods(id) ON DELETE CASCADE,
+    introduces INTEGER DEFAULT 0,
+    is_baseline INTEGER DEFAULT 0,
+    confidence_score REAL DEFAULT 1.0,
+    section TEXT,
+    extraction_id TEXT,
+    reviewed_by TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (paper_id, method_id)
+);
+
+CREATE TABLE IF NOT EXISTS paper_datasets (
+    paper_id TEXT REFERENCES papers(id) ON DELETE CASCADE,
+    dataset_id TEXT REFERENCES datasets(id) ON DELETE CASCADE,
+    section TEXT,
+    extraction_id TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (paper_id, dataset_id)
+);
+
+CREATE TABLE IF NOT EXISTS paper_metrics (
+    paper_id TEXT REFERENCES papers(id) ON DELETE CASCADE,
+    metric_id TEXT REFERENCES metrics(id) ON DELETE CASCADE,
+    section TEXT,
+    extraction_id TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (paper_id, metric_id)
+);
+
+CREATE TABLE IF NOT EXISTS paper_relationships (
+    id TEXT PRIMARY KEY,
+    source_paper_id TEXT REFERENCES papers(id) ON DELETE CASCADE,
+    target_paper_id TEXT REFERENCES papers(id) ON DELETE CASCADE,
+    relationship_type TEXT NOT NULL,
+    evidence TEXT,
+    confidence_score REAL DEFAULT 0.5,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (source_paper_id, target_paper_id, relationship_type)
+);
+
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+    id TEXT PRIMARY KEY,
+    mode TEXT NOT NULL,
+    status TEXT NOT NULL,
+    config TEXT DEFAULT '{}',
+    started_at TEXT NOT NULL,
+    finished_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS paper_jobs (
+    run_id TEXT REFERENCES pipeline_runs(id) ON DELETE CASCADE,
+    arxiv_id TEXT NOT NULL,
+    paper_id TEXT,
+    stage TEXT,
+    status TEXT NOT NULL,
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    extraction TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (run_id, arxiv_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_arxiv ON paper_jobs(arxiv_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_alias_concept ON concept_aliases(concept_id);
+CREATE INDEX IF NOT EXISTS idx_rel_source ON relationships(source_paper_id);
+
+CREATE TABLE IF NOT EXISTS review_items (
+    id TEXT PRIMARY KEY,
+    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    entity_key TEXT NOT NULL,
+    entity TEXT NOT NULL,
+    reasons TEXT NOT NULL DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'pending',
+    reviewed_by TEXT,
+    reviewed_at TEXT,
+    created_at TEXT NOT NULL,
+    UNIQUE (paper_id, kind, entity_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_status ON review_items(status, created_at);
+
+CREATE TABLE IF NOT EXISTS extraction_records (
+    id TEXT PRIMARY KEY,
+    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+    run_id TEXT,
+    section TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    temperature REAL,
+    max_tokens INTEGER,
+    prompt_version TEXT NOT NULL,
+    request TEXT NOT NULL,
+    response TEXT,
+    error TEXT,
+    latency_ms INTEGER NOT NULL,
+    prompt_tokens INTEGER,
+    completion_tokens INTEGER,
+    total_tokens INTEGER,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_paper ON extraction_records(paper_id, created_at);
+
+CREATE TABLE IF NOT EXISTS sync_state (
+    profile TEXT PRIMARY KEY,
+    high_water_mark TEXT NOT NULL,
+    last_synced_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS embeddings (
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    model TEXT NOT NULL,
+    embedding TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (entity_type, entity_id, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pc_concept ON paper_concepts(concept_id);
+CREATE INDEX IF NOT EXISTS idx_pr_target ON paper_relationships(target_paper_id);
+`;
+
+// Columns added to existing tables since their first release; CREATE TABLE IF NOT
+// EXISTS leaves older databases without them
+const SQLITE_ADDED_COLUMNS: Array<[table: string, column: string, definition: string]> = [
+  ['papers', 'version', 'INTEGER'],
+  ['papers', 'updated_date', 'TEXT'],
+  ['paper_concepts', 'reviewed_by', 'TEXT'],
+  ['relationships', 'reviewed_by', 'TEXT'],
+  ['paper_methods', 'reviewed_by', 'TEXT'],
+  ['paper_concepts', 'extraction_id', 'TEXT'],
+  ['relationships', 'extraction_id', 'TEXT'],
+  ['paper_methods', 'extraction_id', 'TEXT'],
+  ['paper_datasets', 'extraction_id', 'TEXT'],
+  ['paper_metrics', 'extraction_id', 'TEXT'],
+  ['relationships', 'entailment_verdict', 'TEXT'],
+  ['relationships', 'entailment_rationale', 'TEXT'],
+  ['relationships', 'entailment_id', 'TEXT']
+];
+
+/**
+ * Embedded single-file store for local development; ":memory:" gives a throwaway database
+ */
+export class SqliteGraphStore extends SqlGraphStore {
+  readonly kind = 'sqlite';
+  private db: Database.Database;
+  // One connection, so transactions take turns
+  private transactions: Promise<unknown> = Promise.resolve();
+
+  constructor(filename: string) {
+    super();
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SQLITE_SCHEMA);
+    this.addMissingColumns();
+    this.addRelationshipKey();
+    console.log(`    SqliteGraphStore: opened ${filename}`);
+  }
+
+  protected async query<T = any>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.db.prepare(sql).all(...this.bind(params)) as T[];
+  }
+
+  protected async execute(sql: string, params: unknown[] = []): Promise<number> {
+    return this.db.prepare(sql).run(...this.bind(params)).changes;
+  }
+
+  protected transaction<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.transactions.then(async () => {
+      this.db.exec('BEGIN');
+      try {
+        const result = await work();
+        this.db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    });
+    this.transactions = run.catch(() => undefined);
+    return run;
+  }
+
+  protected encodeList(values: string[]): unknown {
+    return JSON.stringify(values);
+  }
+
+  protected decodeList(value: unknown): string[] {
+    if (typeof value !== 'string') return [];
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+    console.log('    Database connection closed');
+  }
+
+  private addMissingColumns(): void {
+    for (const [table, column, definition] of SQLITE_ADDED_COLUMNS) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (!columns.some(existing => existing.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  // Relationships are unique on paper, type, target and extraction call. Databases created
+  // before the key can hold duplicates from re-run papers; all but the oldest are dropped
+  private addRelationshipKey(): void {
+    const exists = this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'index' AND name = 'idx_rel_unique'").get();
+    if (exists) return;
+    this.db.transaction(() => {
+      this.db.exec(`
+        DELETE FROM relationships WHERE EXISTS (
+          SELECT 1 FROM relationships other
+          WHERE other.source_paper_id = relationships.source_paper_id
+            AND other.relationship_type = relationships.relationship_type
+            AND other.target_concept = relationships.target_concept
+            AND COALESCE(other.extraction_id, '') = COALESCE(relationships.extraction_id, '')
+            AND other.rowid < relationships.rowid
+        );
+        CREATE UNIQUE INDEX idx_rel_unique
+          ON relationships(source_paper_id, relationship_type, target_concept, COALESCE(CAST(extraction_id AS TEXT), ''));
+      `);
+    })();
+  }
+
+  // better-sqlite3 only binds numbers, strings, bigints, buffers and null
+  private bind(params: unknown[]): unknown[] {
+    return params.map(value => {
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      if (value === undefined) return null;
+      return value;
+    });
+  }
+}
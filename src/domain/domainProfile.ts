@@ -0,0 +1,93 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import type { DomainProfile, Paper } from '../types.js';
+
+export const PROFILES_DIR = 'profiles';
+export const DEFAULT_PROFILE = 'gaussian-splatting';
+
+/**
+ * Reads a domain profile given by name (profiles/<name>.json, relative to the
+ * working directory) or by path to a JSON file
+ */
+export function loadDomainProfile(nameOrPath: string = DEFAULT_PROFILE): DomainProfile {
+  const file = nameOrPath.endsWith('.json') || nameOrPath.includes('/')
+    ? nameOrPath
+    : join(PROFILES_DIR, `${nameOrPath}.json`);
+  if (!existsSync(file)) {
+    const available = listDomainProfiles();
+    throw new Error(`Domain profile not found: ${file}${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`);
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Domain profile ${file} is not valid JSON: ${error.message}`);
+  }
+  return validateProfile(parsed, file);
+}
+
+// Names of the profiles in the profiles directory
+export function listDomainProfiles(): string[] {
+  if (!existsSync(PROFILES_DIR)) return [];
+  return readdirSync(PROFILES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => basename(file, '.json'))
+    .sort();
+}
+
+export function isRelevantToDomain(profile: DomainProfile, paper: Paper): boolean {
+  const content = `${paper.title} ${paper.abstract}`.toLowerCase();
+  return [...profile.keywords.primary, ...profile.keywords.secondary]
+    .some(keyword => content.includes(keyword.toLowerCase()));
+}
+
+export function domainRelevanceScore(profile: DomainProfile, paper: Paper): number {
+  const content = `${paper.title} ${paper.abstract}`.toLowerCase();
+  return Object.entries(profile.relevance_weights)
+    .filter(([keyword]) => content.includes(keyword.toLowerCase()))
+    .reduce((score, [, weight]) => score + weight, 0);
+}
+
+function validateProfile(raw: any, file: string): DomainProfile {
+  const fail = (message: string): never => {
+    throw new Error(`Domain profile ${file}: ${message}`);
+  };
+  const strings = (value: any, field: string, required: boolean): string[] => {
+    if (value === undefined && !required) return [];
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item.trim() === '')) {
+      fail(`"${field}" must be a list of non-empty strings`);
+    }
+    if (required && value.length === 0) fail(`"${field}" must not be empty`);
+    return value.map((item: string) => item.trim());
+  };
+  const text = (value: any, field: string): string => {
+    if (typeof value !== 'string' || value.trim() === '') fail(`"${field}" must be a non-empty string`);
+    return value.trim();
+  };
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) fail('expected a JSON object');
+
+  const primary = strings(raw.keywords?.primary, 'keywords.primary', true);
+  const weights = raw.relevance_weights ?? {};
+  if (typeof weights !== 'object' || Array.isArray(weights) ||
+      Object.values(weights).some(weight => typeof weight !== 'number' || !Number.isFinite(weight))) {
+    fail('"relevance_weights" must map keywords to numbers');
+  }
+
+  return {
+    name: text(raw.name, 'name'),
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    seeds: strings(raw.seeds, 'seeds', true),
+    keywords: {
+      primary,
+      secondary: strings(raw.keywords?.secondary, 'keywords.secondary', false)
+    },
+    search_keywords: raw.search_keywords === undefined ? primary : strings(raw.search_keywords, 'search_keywords', true),
+    relevance_weights: weights,
+    arxiv_categories: strings(raw.arxiv_categories, 'arxiv_categories', false),
+    field: text(raw.field, 'field'),
+    prompt_focus: text(raw.prompt_focus, 'prompt_focus'),
+    concept_categories: strings(raw.concept_categories, 'concept_categories', true).map(category => category.toLowerCase())
+  };
+}
@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+import { normalizeConceptName } from '../resolution/conceptResolver.js';
+import type { EmbeddingProvider } from '../types.js';
+
+/**
+ * Deterministic bag-of-words vectors (words and word pairs hashed into a fixed
+ * number of buckets), for tests and offline runs. It only sees shared wording,
+ * so it finds none of the paraphrases a real embedding model does.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly model: string;
+
+  constructor(private dimensions: number = 256) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = normalizeConceptName(text).split(' ').filter(Boolean);
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const digest = createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      // The sign bit spreads collisions around zero instead of piling them up
+      vector[bucket] += digest[4] & 1 ? 1 : -1;
+    }
+    return vector;
+  }
+}
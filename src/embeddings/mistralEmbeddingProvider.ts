@@ -0,0 +1,20 @@
+import { OpenAiCompatibleEmbeddingProvider } from './openAiCompatibleEmbeddingProvider.js';
+import { MISTRAL_RATE_LIMITS } from '../llm/mistralProvider.js';
+import type { RateLimits } from '../scheduling/rateLimiter.js';
+
+export class MistralEmbeddingProvider extends OpenAiCompatibleEmbeddingProvider {
+  readonly name = 'mistral';
+
+  constructor(apiKey: string, model: string = 'mistral-embed', rateLimits: RateLimits = {}) {
+    if (!apiKey || apiKey === 'your_mistral_api_key_here') {
+      throw new Error('VALID Mistral API key REQUIRED. Get one from: https://console.mistral.ai/');
+    }
+
+    super({
+      baseUrl: 'https://api.mistral.ai/v1',
+      model,
+      apiKey,
+      rateLimits: { ...MISTRAL_RATE_LIMITS, ...rateLimits }
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import type { EmbeddingProvider } from '../types.js';
+import { rateLimiter, RateLimits } from '../scheduling/rateLimiter.js';
+import { fetchWithTimeout, withRetry } from '../scheduling/retry.js';
+
+export interface OpenAiCompatibleEmbeddingOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  // Texts per request
+  batchSize?: number;
+  rateLimits?: RateLimits;
+}
+
+/**
+ * /embeddings endpoint of any server speaking the OpenAI wire format
+ */
+export class OpenAiCompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string = 'openai-compatible';
+  readonly model: string;
+  protected baseUrl: string;
+  protected apiKey?: string;
+  protected timeoutMs: number;
+  protected batchSize: number;
+  protected rateLimits: RateLimits;
+
+  constructor(options: OpenAiCompatibleEmbeddingOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.batchSize = options.batchSize ?? 16;
+    this.rateLimits = options.rateLimits ?? {};
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      vectors.push(...await this.embedBatch(texts.slice(i, i + this.batchSize)));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    // Same limiter as the provider's chat completions, so both count against one quota
+    const limiter = rateLimiter(this.name, this.rateLimits);
+    const reserved = Math.ceil(texts.reduce((total, text) => total + text.length, 0) / 4);
+
+    return withRetry(`embed ${texts.length} texts with ${this.name}`, async () => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (this.apiKey) {
+        headers['Authorization'] = `Bearer ${this.apiKey}`;
+      }
+
+      const response = await fetchWithTimeout(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: this.model, input: texts })
+      }, this.timeoutMs);
+
+      const data = await response.json();
+      if (data.usage?.total_tokens) {
+        limiter.recordUsage(data.usage.total_tokens, reserved);
+      }
+
+      const items: Array<{ index: number; embedding: number[] }> = data.data ?? [];
+      if (items.length !== texts.length) {
+        throw new Error(`${this.name} returned ${items.length} embeddings for ${texts.length} texts`);
+      }
+      return [...items].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    }, { limiter, tokens: reserved });
+  }
+}
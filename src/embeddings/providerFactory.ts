@@ -0,0 +1,50 @@
+import { MistralEmbeddingProvider } from './mistralEmbeddingProvider.js';
+import { OpenAiCompatibleEmbeddingProvider } from './openAiCompatibleEmbeddingProvider.js';
+import { HashingEmbeddingProvider } from './hashingEmbeddingProvider.js';
+import { readRateLimits } from '../llm/providerFactory.js';
+import type { EmbeddingProvider } from '../types.js';
+
+/**
+ * Builds the embedding provider selected by EMBEDDING_PROVIDER
+ * (mistral | openai-compatible | hashing | none). Unset, it follows LLM_PROVIDER:
+ * mistral embeds with mistral-embed, scripted with the offline hashing provider,
+ * and anything else has no embeddings (not every local server serves /embeddings).
+ * Returns null for none, which turns off semantic discovery and `similar`.
+ */
+export function createEmbeddingProvider(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider | null {
+  const providerName = (env.EMBEDDING_PROVIDER || defaultProvider(env)).trim().toLowerCase();
+
+  switch (providerName) {
+    case 'mistral':
+      return new MistralEmbeddingProvider(env.MISTRAL_API_KEY || '', env.EMBEDDING_MODEL || undefined, readRateLimits(env));
+
+    case 'openai-compatible':
+    case 'openai':
+    case 'local':
+      if (!env.EMBEDDING_MODEL) {
+        throw new Error('EMBEDDING_PROVIDER=openai-compatible needs EMBEDDING_MODEL');
+      }
+      return new OpenAiCompatibleEmbeddingProvider({
+        baseUrl: env.EMBEDDING_BASE_URL || env.LLM_BASE_URL || 'http://localhost:8000/v1',
+        apiKey: env.EMBEDDING_API_KEY || env.LLM_API_KEY,
+        model: env.EMBEDDING_MODEL,
+        rateLimits: readRateLimits(env)
+      });
+
+    case 'hashing':
+      return new HashingEmbeddingProvider();
+
+    case 'none':
+      return null;
+
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${providerName}". Use mistral, openai-compatible, hashing or none`);
+  }
+}
+
+function defaultProvider(env: NodeJS.ProcessEnv): string {
+  const llmProvider = (env.LLM_PROVIDER || 'mistral').trim().toLowerCase();
+  if (llmProvider === 'mistral') return 'mistral';
+  if (llmProvider === 'scripted') return 'hashing';
+  return 'none';
+}
@@ -0,0 +1,123 @@
+import type { GraphStore } from '../database/graphStore.js';
+import type { Concept, EmbeddingProvider, Paper, SimilarityHit } from '../types.js';
+
+export interface SimilarPaper {
+  arxiv_id: string;
+  title: string;
+  published_date: string;
+  score: number;
+}
+
+// A candidate is scored by its mean similarity to this many nearest papers in the graph
+const NEIGHBOURS = 3;
+
+/**
+ * Embeddings of paper abstracts and concept descriptions, kept next to the graph
+ * in the store, and the similarity questions asked of them
+ */
+export class SemanticIndex {
+  constructor(private provider: EmbeddingProvider, private store: GraphStore) {
+    console.log(`   SemanticIndex initialized (${provider.name}, ${provider.model})`);
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  /**
+   * Embeds the paper, and those of its concepts that have no embedding yet
+   */
+  async indexPaper(paperId: string, paper: Paper, concepts: Array<{ id: string; concept: Concept }> = []): Promise<void> {
+    const embedded = new Set(await this.store.listEmbeddedIds('concept', this.model));
+    const pending = concepts.filter(({ id }, i) => !embedded.has(id) && concepts.findIndex(c => c.id === id) === i);
+
+    const vectors = await this.provider.embed([paperText(paper), ...pending.map(({ concept }) => conceptText(concept))]);
+    await this.store.upsertEmbedding('paper', paperId, this.model, vectors[0]);
+    for (let i = 0; i < pending.length; i++) {
+      await this.store.upsertEmbedding('concept', pending[i].id, this.model, vectors[i + 1]);
+    }
+  }
+
+  /**
+   * How close each paper is to the graph: mean cosine similarity to its nearest
+   * embedded papers, or 0 while the graph has none
+   */
+  async relevance(papers: Paper[], exclude: Set<string> = new Set()): Promise<number[]> {
+    if (papers.length === 0) return [];
+
+    const vectors = await this.provider.embed(papers.map(paperText));
+    const scores: number[] = [];
+    for (const vector of vectors) {
+      const hits = (await this.store.findSimilar('paper', this.model, vector, NEIGHBOURS + exclude.size))
+        .filter(hit => !exclude.has(hit.id))
+        .slice(0, NEIGHBOURS);
+      scores.push(hits.length > 0 ? hits.reduce((total, hit) => total + hit.score, 0) / hits.length : 0);
+    }
+    return scores;
+  }
+
+  /**
+   * Stored papers nearest to the given one. Papers stored before embeddings were
+   * enabled are embedded first.
+   */
+  async similarPapers(arxivId: string, limit: number): Promise<SimilarPaper[]> {
+    const paper = await this.store.findPaperByArxivId(arxivId);
+    if (!paper) {
+      throw new Error(`Paper ${arxivId} is not in the knowledge graph`);
+    }
+    await this.backfillPapers();
+
+    const vector = await this.store.getEmbedding('paper', paper.id, this.model);
+    if (!vector) {
+      throw new Error(`Paper ${arxivId} has no embedding`);
+    }
+
+    const papers = new Map((await this.store.listPapers()).map(stored => [stored.id, stored]));
+    const hits = await this.store.findSimilar('paper', this.model, vector, limit + 1);
+    return hits
+      .filter(hit => hit.id !== paper.id && papers.has(hit.id))
+      .slice(0, limit)
+      .map(hit => {
+        const similar = papers.get(hit.id)!;
+        return {
+          arxiv_id: similar.arxiv_id,
+          title: similar.title,
+          published_date: similar.published_date,
+          score: Number(hit.score.toFixed(3))
+        };
+      });
+  }
+
+  /**
+   * Stored papers nearest to a free-text query, by paper id
+   */
+  async searchText(text: string, limit: number): Promise<SimilarityHit[]> {
+    await this.backfillPapers();
+    const [vector] = await this.provider.embed([text]);
+    return this.store.findSimilar('paper', this.model, vector, limit);
+  }
+
+  /**
+   * Embeds every stored paper that has no embedding for the current model
+   */
+  async backfillPapers(): Promise<number> {
+    const embedded = new Set(await this.store.listEmbeddedIds('paper', this.model));
+    const missing = (await this.store.listPapers()).filter(paper => !embedded.has(paper.id));
+    if (missing.length === 0) return 0;
+
+    console.log(`   Embedding ${missing.length} papers with ${this.model}...`);
+    const vectors = await this.provider.embed(missing.map(paperText));
+    for (let i = 0; i < missing.length; i++) {
+      await this.store.upsertEmbedding('paper', missing[i].id, this.model, vectors[i]);
+    }
+    return missing.length;
+  }
+}
+
+function paperText(paper: Paper): string {
+  return `${paper.title}\n\n${paper.abstract}`;
+}
+
+function conceptText(concept: Concept): string {
+  return concept.description ? `${concept.name}: ${concept.description}` : concept.name;
+}
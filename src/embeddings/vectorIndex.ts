@@ -0,0 +1,61 @@
+import type { SimilarityHit } from '../types.js';
+
+/**
+ * Exact nearest-neighbour search by cosine similarity, for stores without a
+ * vector extension. Vectors are normalized once on insert, so a search is one
+ * dot product per entry; fine for the tens of thousands of entities a graph holds.
+ */
+export class VectorIndex {
+  private entries = new Map<string, { vector: number[]; unit: Float32Array }>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  set(id: string, vector: number[]): void {
+    this.entries.set(id, { vector, unit: normalize(vector) });
+  }
+
+  get(id: string): number[] | null {
+    return this.entries.get(id)?.vector ?? null;
+  }
+
+  delete(id: string): void {
+    this.entries.delete(id);
+  }
+
+  ids(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  search(vector: number[], limit: number): SimilarityHit[] {
+    const query = normalize(vector);
+    const hits: SimilarityHit[] = [];
+    for (const [id, { unit }] of this.entries) {
+      // Vectors of another length come from another model and cannot be compared
+      if (unit.length !== query.length) continue;
+      let score = 0;
+      for (let i = 0; i < unit.length; i++) {
+        score += unit[i] * query[i];
+      }
+      hits.push({ id, score });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  const unitA = normalize(a);
+  const unitB = normalize(b);
+  let score = 0;
+  for (let i = 0; i < unitA.length; i++) {
+    score += unitA[i] * unitB[i];
+  }
+  return score;
+}
+
+function normalize(vector: number[]): Float32Array {
+  const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0)) || 1;
+  return Float32Array.from(vector, value => value / norm);
+}
@@ -0,0 +1,315 @@
+import { existsSync, readFileSync } from 'fs';
+import type { EntityExtractor } from '../agents/extractionAgent.js';
+import type { ValidationAgent } from '../agents/validationAgent.js';
+import { conceptNameSimilarity, FUZZY_THRESHOLD } from '../resolution/conceptResolver.js';
+import type { ExtractionResult, FullTextDocument, Paper, Relationship } from '../types.js';
+
+export const ENTITY_TYPES = ['concepts', 'methods', 'datasets', 'metrics'] as const;
+export type EntityType = typeof ENTITY_TYPES[number];
+
+const RELATIONSHIP_TYPES: Relationship['relationship_type'][] = [
+  'introduces', 'extends', 'improves_on', 'evaluates', 'uses', 'compares', 'applies'
+];
+
+/**
+ * Hand-annotated papers, read from a JSON file. Papers without a title and
+ * abstract are taken from the graph, or fetched from arXiv.
+ */
+export interface GoldSet {
+  name: string;
+  papers: GoldPaper[];
+}
+
+export interface GoldPaper {
+  arxiv_id: string;
+  title?: string;
+  abstract?: string;
+  expected: Record<EntityType, string[]> & {
+    relationships: Array<{ type: Relationship['relationship_type']; target: string }>;
+  };
+}
+
+export interface EvalScore {
+  expected: number;
+  extracted: number;
+  matched: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+// Scores summed over every paper; relationships per type, plus "all"
+export interface StageScores {
+  entities: Record<EntityType, EvalScore>;
+  relationships: Record<string, EvalScore>;
+}
+
+export interface EvalPaperResult {
+  arxiv_id: string;
+  error?: string;
+  // Gold names the validated extraction did not find, and extracted names not in the gold set
+  missed: Record<string, string[]>;
+  spurious: Record<string, string[]>;
+}
+
+export interface EvalReport {
+  gold: string;
+  provider: string;
+  model: string;
+  profile: string;
+  threshold: number;
+  created_at: string;
+  papers: EvalPaperResult[];
+  // Straight from ExtractionAgent, and after ValidationAgent dropped what it rejects
+  extracted: StageScores;
+  validated: StageScores;
+}
+
+export interface EvalSource {
+  paper: Paper;
+  fullText: FullTextDocument | null;
+}
+
+export function loadGoldSet(path: string): GoldSet {
+  if (!existsSync(path)) {
+    throw new Error(`Gold set not found: ${path}`);
+  }
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Gold set ${path} is not valid JSON: ${error.message}`);
+  }
+  return validateGoldSet(raw, path);
+}
+
+// Reads a report written by a previous `eval --output`
+export function loadEvalReport(path: string): EvalReport {
+  if (!existsSync(path)) {
+    throw new Error(`Evaluation report not found: ${path}`);
+  }
+  const report = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!report?.validated?.entities || !report?.extracted?.entities) {
+    throw new Error(`${path} is not an evaluation report`);
+  }
+  return report as EvalReport;
+}
+
+/**
+ * Runs extraction and validation over a gold set and scores both against the
+ * annotations. Names match when conceptNameSimilarity reaches the threshold;
+ * each gold name can be matched by one extracted name at most.
+ */
+export class ExtractionEvaluator {
+  constructor(
+    private extractionAgent: EntityExtractor,
+    private validationAgent: ValidationAgent,
+    private threshold: number = FUZZY_THRESHOLD
+  ) {}
+
+  async run(
+    gold: GoldSet,
+    source: (item: GoldPaper) => Promise<EvalSource>,
+    meta: Pick<EvalReport, 'provider' | 'model' | 'profile'>
+  ): Promise<EvalReport> {
+    const extracted = new ScoreTally();
+    const validated = new ScoreTally();
+    const papers: EvalPaperResult[] = [];
+
+    for (const [index, item] of gold.papers.entries()) {
+      console.log(`   [${index + 1}/${gold.papers.length}] Evaluating ${item.arxiv_id}`);
+      try {
+        const { paper, fullText } = await source(item);
+        const extraction = fullText
+          ? await this.extractionAgent.extractEntitiesFromSections(paper, fullText.sections)
+          : await this.extractionAgent.extractEntities(paper);
+        const validation = await this.validationAgent.validateExtraction(extraction, paper, fullText ?? undefined);
+
+        extracted.add(this.compare(item, extraction));
+        const comparison = this.compare(item, validation.extraction);
+        validated.add(comparison);
+        papers.push({ arxiv_id: item.arxiv_id, missed: comparison.missed, spurious: comparison.spurious });
+      } catch (error: any) {
+        console.error(`   Evaluation of ${item.arxiv_id} failed: ${error.message}`);
+        papers.push({ arxiv_id: item.arxiv_id, error: error.message, missed: {}, spurious: {} });
+      }
+    }
+
+    return {
+      gold: gold.name,
+      ...meta,
+      threshold: this.threshold,
+      created_at: new Date().toISOString(),
+      papers,
+      extracted: extracted.scores(),
+      validated: validated.scores()
+    };
+  }
+
+  private compare(item: GoldPaper, extraction: ExtractionResult): PaperComparison {
+    const comparison: PaperComparison = { counts: {}, missed: {}, spurious: {} };
+    const record = (key: string, expected: string[], actual: string[]) => {
+      const match = matchNames(expected, actual, this.threshold);
+      comparison.counts[key] = { expected: unique(expected).length, extracted: unique(actual).length, matched: match.matched };
+      if (match.missed.length > 0) comparison.missed[key] = match.missed;
+      if (match.spurious.length > 0) comparison.spurious[key] = match.spurious;
+    };
+
+    for (const type of ENTITY_TYPES) {
+      record(type, item.expected[type], extraction[type].map(entity => entity.name));
+    }
+    for (const type of RELATIONSHIP_TYPES) {
+      record(
+        `relationships.${type}`,
+        item.expected.relationships.filter(rel => rel.type === type).map(rel => rel.target),
+        extraction.relationships.filter(rel => rel.relationship_type === type).map(rel => rel.target_concept)
+      );
+    }
+    return comparison;
+  }
+}
+
+interface Counts {
+  expected: number;
+  extracted: number;
+  matched: number;
+}
+
+interface PaperComparison {
+  // Keyed by entity type, or "relationships.<type>"
+  counts: Record<string, Counts>;
+  missed: Record<string, string[]>;
+  spurious: Record<string, string[]>;
+}
+
+// Counts summed over papers (micro-averaged), turned into scores at the end
+class ScoreTally {
+  private totals = new Map<string, Counts>();
+
+  add(comparison: PaperComparison): void {
+    for (const [key, counts] of Object.entries(comparison.counts)) {
+      const total = this.totals.get(key) ?? { expected: 0, extracted: 0, matched: 0 };
+      total.expected += counts.expected;
+      total.extracted += counts.extracted;
+      total.matched += counts.matched;
+      this.totals.set(key, total);
+    }
+  }
+
+  scores(): StageScores {
+    const zero: Counts = { expected: 0, extracted: 0, matched: 0 };
+    const entities = Object.fromEntries(
+      ENTITY_TYPES.map(type => [type, score(this.totals.get(type) ?? zero)])
+    ) as Record<EntityType, EvalScore>;
+
+    const relationships: Record<string, EvalScore> = {};
+    const all: Counts = { ...zero };
+    for (const type of RELATIONSHIP_TYPES) {
+      const counts = this.totals.get(`relationships.${type}`) ?? zero;
+      if (counts.expected === 0 && counts.extracted === 0) continue;
+      relationships[type] = score(counts);
+      all.expected += counts.expected;
+      all.extracted += counts.extracted;
+      all.matched += counts.matched;
+    }
+    relationships.all = score(all);
+    return { entities, relationships };
+  }
+}
+
+function score({ expected, extracted, matched }: Counts): EvalScore {
+  const precision = extracted > 0 ? matched / extracted : 0;
+  const recall = expected > 0 ? matched / expected : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { expected, extracted, matched, precision: round(precision), recall: round(recall), f1: round(f1) };
+}
+
+/**
+ * One-to-one matching of gold to extracted names, most similar pairs first
+ */
+export function matchNames(
+  expected: string[],
+  actual: string[],
+  threshold: number = FUZZY_THRESHOLD
+): { matched: number; missed: string[]; spurious: string[] } {
+  const gold = unique(expected);
+  const found = unique(actual);
+  const pairs: Array<{ g: number; f: number; similarity: number }> = [];
+  gold.forEach((goldName, g) => found.forEach((foundName, f) => {
+    const similarity = conceptNameSimilarity(goldName, foundName);
+    if (similarity >= threshold) pairs.push({ g, f, similarity });
+  }));
+  pairs.sort((a, b) => b.similarity - a.similarity);
+
+  const usedGold = new Set<number>();
+  const usedFound = new Set<number>();
+  for (const { g, f } of pairs) {
+    if (usedGold.has(g) || usedFound.has(f)) continue;
+    usedGold.add(g);
+    usedFound.add(f);
+  }
+
+  return {
+    matched: usedGold.size,
+    missed: gold.filter((_, g) => !usedGold.has(g)),
+    spurious: found.filter((_, f) => !usedFound.has(f))
+  };
+}
+
+// Drops exact repeats (ignoring case and spacing); near-duplicates are left to the matching
+function unique(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = name.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+function validateGoldSet(raw: any, path: string): GoldSet {
+  const fail = (message: string): never => {
+    throw new Error(`Gold set ${path}: ${message}`);
+  };
+  const names = (value: any, field: string): string[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item.trim() === '')) {
+      fail(`"${field}" must be a list of names`);
+    }
+    return value.map((item: string) => item.trim());
+  };
+
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.papers) || raw.papers.length === 0) {
+    fail('expected an object with a non-empty "papers" list');
+  }
+
+  const papers = raw.papers.map((item: any, index: number): GoldPaper => {
+    const where = `papers[${index}]`;
+    if (typeof item?.arxiv_id !== 'string' || item.arxiv_id.trim() === '') fail(`${where}.arxiv_id is required`);
+    const expected = item.expected ?? fail(`${where}.expected is required`);
+    const relationships = expected.relationships ?? [];
+    if (!Array.isArray(relationships) || relationships.some((rel: any) =>
+      !RELATIONSHIP_TYPES.includes(rel?.type) || typeof rel?.target !== 'string' || rel.target.trim() === '')) {
+      fail(`${where}.expected.relationships must be {type, target} with type one of ${RELATIONSHIP_TYPES.join(', ')}`);
+    }
+
+    return {
+      arxiv_id: item.arxiv_id.trim(),
+      title: typeof item.title === 'string' ? item.title : undefined,
+      abstract: typeof item.abstract === 'string' ? item.abstract : undefined,
+      expected: {
+        concepts: names(expected.concepts, `${where}.expected.concepts`),
+        methods: names(expected.methods, `${where}.expected.methods`),
+        datasets: names(expected.datasets, `${where}.expected.datasets`),
+        metrics: names(expected.metrics, `${where}.expected.metrics`),
+        relationships: relationships.map((rel: any) => ({ type: rel.type, target: rel.target.trim() }))
+      }
+    };
+  });
+
+  return { name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : path, papers };
+}
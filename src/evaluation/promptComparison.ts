@@ -0,0 +1,214 @@
+import type { ExtractionAgent } from '../agents/extractionAgent.js';
+import type { ValidationAgent } from '../agents/validationAgent.js';
+import { FUZZY_THRESHOLD } from '../resolution/conceptResolver.js';
+import { ENTITY_TYPES, matchNames } from './extractionEval.js';
+import type { EvalSource, GoldPaper } from './extractionEval.js';
+import type { ExtractionCall, ExtractionResult } from '../types.js';
+
+export const COMPARED_TYPES = [...ENTITY_TYPES, 'relationships'] as const;
+export type ComparedType = typeof COMPARED_TYPES[number];
+
+// Entity types ValidationAgent checks; the others pass through unchanged
+export const VALIDATED_TYPES = ['concepts', 'relationships'] as const;
+
+export interface PromptStats {
+  template: string;
+  // Entity counts summed over the papers both templates extracted
+  extracted: Record<ComparedType, number>;
+  validated: Record<ComparedType, number>;
+  // Share of the extracted entities that passed validation
+  pass_rate: Record<typeof VALIDATED_TYPES[number], number>;
+  calls: number;
+  failed_calls: number;
+  latency_ms: number;
+  // Tokens the provider reported; calls without usage count as none
+  total_tokens: number;
+}
+
+// How the validated entities of the two templates line up
+export interface Overlap {
+  shared: number;
+  only_a: number;
+  only_b: number;
+  // shared / (shared + only_a + only_b)
+  jaccard: number;
+}
+
+export interface PromptComparisonPaper {
+  arxiv_id: string;
+  // The paper's text could not be loaded, or a template extracted nothing
+  error?: string;
+  counts?: { a: Record<ComparedType, number>; b: Record<ComparedType, number> };
+  // Validated names found by one template only; relationships as "<type>: <target>"
+  only_a: Record<string, string[]>;
+  only_b: Record<string, string[]>;
+}
+
+export interface PromptComparisonReport {
+  provider: string;
+  model: string;
+  profile: string;
+  threshold: number;
+  created_at: string;
+  papers: PromptComparisonPaper[];
+  a: PromptStats;
+  b: PromptStats;
+  overlap: Record<ComparedType, Overlap>;
+}
+
+interface TemplateRun {
+  extracted: ExtractionResult;
+  validated: ExtractionResult;
+  calls: ExtractionCall[];
+}
+
+/**
+ * Runs two extraction prompts (A and B) over the same papers, validates both
+ * extractions and compares them: entity counts, validation pass rates, cost, and
+ * the overlap of the validated entities. Names match as in ExtractionEvaluator.
+ * Papers either prompt fails on are reported and left out of the totals, so both
+ * sides are always counted over the same papers.
+ */
+export class PromptComparison {
+  constructor(
+    private agents: [ExtractionAgent, ExtractionAgent],
+    private validationAgent: ValidationAgent,
+    private threshold: number = FUZZY_THRESHOLD
+  ) {}
+
+  async run(
+    items: Array<Pick<GoldPaper, 'arxiv_id' | 'title' | 'abstract'>>,
+    source: (item: Pick<GoldPaper, 'arxiv_id' | 'title' | 'abstract'>) => Promise<EvalSource>,
+    meta: Pick<PromptComparisonReport, 'provider' | 'model' | 'profile'>
+  ): Promise<PromptComparisonReport> {
+    const [a, b] = this.agents.map(agent => new StatsTally(agent.template.name));
+    const overlap = Object.fromEntries(COMPARED_TYPES.map(type => [type, { shared: 0, only_a: 0, only_b: 0 }])) as
+      Record<ComparedType, Omit<Overlap, 'jaccard'>>;
+    const papers: PromptComparisonPaper[] = [];
+
+    for (const [index, item] of items.entries()) {
+      console.log(`   [${index + 1}/${items.length}] Comparing prompts on ${item.arxiv_id}`);
+      let runs: TemplateRun[];
+      try {
+        // The text is loaded once, so both prompts see the same sections
+        const evalSource = await source(item);
+        runs = [await this.runTemplate(0, evalSource), await this.runTemplate(1, evalSource)];
+      } catch (error: any) {
+        console.error(`   Prompt comparison on ${item.arxiv_id} failed: ${error.message}`);
+        papers.push({ arxiv_id: item.arxiv_id, error: error.message, only_a: {}, only_b: {} });
+        continue;
+      }
+
+      a.add(runs[0]);
+      b.add(runs[1]);
+      const paper: PromptComparisonPaper = {
+        arxiv_id: item.arxiv_id,
+        counts: { a: countEntities(runs[0].validated), b: countEntities(runs[1].validated) },
+        only_a: {},
+        only_b: {}
+      };
+      for (const type of COMPARED_TYPES) {
+        const match = this.compare(type, runs[0].validated, runs[1].validated);
+        overlap[type].shared += match.shared;
+        overlap[type].only_a += match.onlyA.length;
+        overlap[type].only_b += match.onlyB.length;
+        if (match.onlyA.length > 0) paper.only_a[type] = match.onlyA;
+        if (match.onlyB.length > 0) paper.only_b[type] = match.onlyB;
+      }
+      papers.push(paper);
+    }
+
+    return {
+      ...meta,
+      threshold: this.threshold,
+      created_at: new Date().toISOString(),
+      papers,
+      a: a.stats(),
+      b: b.stats(),
+      overlap: Object.fromEntries(Object.entries(overlap).map(([type, counts]) => {
+        const union = counts.shared + counts.only_a + counts.only_b;
+        return [type, { ...counts, jaccard: union > 0 ? round(counts.shared / union) : 0 }];
+      })) as Record<ComparedType, Overlap>
+    };
+  }
+
+  private async runTemplate(index: 0 | 1, { paper, fullText }: EvalSource): Promise<TemplateRun> {
+    const agent = this.agents[index];
+    try {
+      const { calls = [], ...extracted } = fullText
+        ? await agent.extractEntitiesFromSections(paper, fullText.sections)
+        : await agent.extractEntities(paper);
+      const validation = await this.validationAgent.validateExtraction(extracted, paper, fullText ?? undefined);
+      return { extracted, validated: validation.extraction, calls };
+    } catch (error: any) {
+      throw new Error(`${agent.template.name}: ${error.message}`);
+    }
+  }
+
+  // Relationships match on their target, within the same relationship type
+  private compare(type: ComparedType, a: ExtractionResult, b: ExtractionResult): { shared: number; onlyA: string[]; onlyB: string[] } {
+    if (type !== 'relationships') {
+      const match = matchNames(a[type].map(entity => entity.name), b[type].map(entity => entity.name), this.threshold);
+      return { shared: match.matched, onlyA: match.missed, onlyB: match.spurious };
+    }
+
+    const result = { shared: 0, onlyA: [] as string[], onlyB: [] as string[] };
+    const relationshipTypes = new Set([...a.relationships, ...b.relationships].map(rel => rel.relationship_type));
+    for (const relationshipType of relationshipTypes) {
+      const targets = (extraction: ExtractionResult) => extraction.relationships
+        .filter(rel => rel.relationship_type === relationshipType)
+        .map(rel => rel.target_concept);
+      const match = matchNames(targets(a), targets(b), this.threshold);
+      result.shared += match.matched;
+      result.onlyA.push(...match.missed.map(target => `${relationshipType}: ${target}`));
+      result.onlyB.push(...match.spurious.map(target => `${relationshipType}: ${target}`));
+    }
+    return result;
+  }
+}
+
+// Totals for one template over the papers compared
+class StatsTally {
+  private extracted = zeroCounts();
+  private validated = zeroCounts();
+  private calls: ExtractionCall[] = [];
+
+  constructor(private template: string) {}
+
+  add(run: TemplateRun): void {
+    const extracted = countEntities(run.extracted);
+    const validated = countEntities(run.validated);
+    for (const type of COMPARED_TYPES) {
+      this.extracted[type] += extracted[type];
+      this.validated[type] += validated[type];
+    }
+    this.calls.push(...run.calls);
+  }
+
+  stats(): PromptStats {
+    const passRate = (type: typeof VALIDATED_TYPES[number]) =>
+      this.extracted[type] > 0 ? round(this.validated[type] / this.extracted[type]) : 0;
+    return {
+      template: this.template,
+      extracted: this.extracted,
+      validated: this.validated,
+      pass_rate: { concepts: passRate('concepts'), relationships: passRate('relationships') },
+      calls: this.calls.length,
+      failed_calls: this.calls.filter(call => call.error).length,
+      latency_ms: this.calls.reduce((total, call) => total + call.latency_ms, 0),
+      total_tokens: this.calls.reduce((total, call) => total + (call.usage?.total_tokens ?? 0), 0)
+    };
+  }
+}
+
+function countEntities(extraction: ExtractionResult): Record<ComparedType, number> {
+  return Object.fromEntries(COMPARED_TYPES.map(type => [type, extraction[type].length])) as Record<ComparedType, number>;
+}
+
+function zeroCounts(): Record<ComparedType, number> {
+  return Object.fromEntries(COMPARED_TYPES.map(type => [type, 0])) as Record<ComparedType, number>;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
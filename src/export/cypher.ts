@@ -0,0 +1,47 @@
+import type { NodeLabel, PropertyGraph, PropertyValue } from './propertyGraph.js';
+
+const LABELS: NodeLabel[] = ['Paper', 'Concept', 'Method', 'Dataset', 'Metric'];
+
+/**
+ * A cypher-shell script that loads the graph into a running Neo4j. Nodes and
+ * edges are MERGEd on their export id, so running it again updates in place.
+ */
+export function renderCypher(graph: PropertyGraph): string {
+  const labels = new Map(graph.nodes.map(node => [node.id, node.label]));
+  const lines: string[] = [];
+
+  for (const label of LABELS) {
+    lines.push(`CREATE CONSTRAINT ${label.toLowerCase()}_id IF NOT EXISTS FOR (n:${label}) REQUIRE n.id IS UNIQUE;`);
+  }
+  lines.push('');
+
+  for (const node of graph.nodes) {
+    lines.push(`MERGE (n:${node.label} {id: ${literal(node.id)}}) SET n += ${map({ name: node.name, ...node.properties })};`);
+  }
+  lines.push('');
+
+  for (const edge of graph.edges) {
+    lines.push(
+      `MATCH (a:${labels.get(edge.source)} {id: ${literal(edge.source)}}), (b:${labels.get(edge.target)} {id: ${literal(edge.target)}}) ` +
+      `MERGE (a)-[r:${edge.type}]->(b) SET r += ${map(edge.properties)};`
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function map(properties: Record<string, PropertyValue>): string {
+  const entries = Object.entries(properties).map(([key, value]) => `${key}: ${literal(value)}`);
+  return `{${entries.join(', ')}}`;
+}
+
+function literal(value: PropertyValue): string {
+  if (Array.isArray(value)) return `[${value.map(literal).join(', ')}]`;
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'boolean') return String(value);
+  return `'${value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n')}'`;
+}
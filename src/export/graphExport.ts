@@ -0,0 +1,52 @@
+import type { GraphStore } from '../database/graphStore.js';
+import { buildPropertyGraph, ExportEdge, ExportFilters, ExportNode } from './propertyGraph.js';
+import { renderGraphml } from './graphml.js';
+import { renderJsonLd } from './jsonLd.js';
+import { renderNeo4jCsv, ExportFile } from './neo4jCsv.js';
+import { renderCypher } from './cypher.js';
+
+export type { ExportFile } from './neo4jCsv.js';
+export type { ExportFilters } from './propertyGraph.js';
+
+export const EXPORT_FORMATS = ['json', 'graphml', 'jsonld', 'neo4j-csv', 'cypher'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface GraphExport {
+  format: ExportFormat;
+  nodes: number;
+  edges: number;
+  // A single document, or for neo4j-csv one file per node label plus relationships.csv
+  document?: string;
+  files?: ExportFile[];
+}
+
+export interface JsonGraphExport {
+  exported_at: string;
+  filters: ExportFilters;
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+/**
+ * Reads the whole graph once and renders it in the requested format
+ */
+export async function exportGraph(store: GraphStore, format: ExportFormat, filters: ExportFilters = {}): Promise<GraphExport> {
+  const graph = buildPropertyGraph(await store.loadSnapshot(), filters);
+  const exportedAt = new Date().toISOString();
+  const counts = { format, nodes: graph.nodes.length, edges: graph.edges.length };
+
+  switch (format) {
+    case 'json': {
+      const document: JsonGraphExport = { exported_at: exportedAt, filters, ...graph };
+      return { ...counts, document: JSON.stringify(document, null, 2) + '\n' };
+    }
+    case 'graphml':
+      return { ...counts, document: renderGraphml(graph) };
+    case 'jsonld':
+      return { ...counts, document: renderJsonLd(graph, exportedAt) };
+    case 'cypher':
+      return { ...counts, document: renderCypher(graph) };
+    case 'neo4j-csv':
+      return { ...counts, files: renderNeo4jCsv(graph) };
+  }
+}
@@ -0,0 +1,68 @@
+import type { PropertyGraph, PropertyValue } from './propertyGraph.js';
+
+type GraphmlType = 'string' | 'double' | 'boolean';
+
+/**
+ * GraphML for Gephi, yEd, Cytoscape and NetworkX. Every property becomes a
+ * declared <key>; string arrays are joined with ";" since GraphML has no lists.
+ */
+export function renderGraphml(graph: PropertyGraph): string {
+  const nodeKeys = collectKeys(graph.nodes.map(node => ({ label: node.label, name: node.name, ...node.properties })));
+  const edgeKeys = collectKeys(graph.edges.map(edge => ({ type: edge.type, ...edge.properties })));
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '         xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...[...nodeKeys].map(([name, type]) =>
+      `  <key id="n_${escapeXml(name)}" for="node" attr.name="${escapeXml(name)}" attr.type="${type}"/>`),
+    ...[...edgeKeys].map(([name, type]) =>
+      `  <key id="e_${escapeXml(name)}" for="edge" attr.name="${escapeXml(name)}" attr.type="${type}"/>`),
+    '  <graph id="knowledge-graph" edgedefault="directed">'
+  ];
+
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(...dataElements('n', { label: node.label, name: node.name, ...node.properties }));
+    lines.push('    </node>');
+  }
+  graph.edges.forEach((edge, index) => {
+    lines.push(`    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    lines.push(...dataElements('e', { type: edge.type, ...edge.properties }));
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+function collectKeys(records: Array<Record<string, PropertyValue>>): Map<string, GraphmlType> {
+  const keys = new Map<string, GraphmlType>();
+  for (const record of records) {
+    for (const [name, value] of Object.entries(record)) {
+      const type: GraphmlType = typeof value === 'number' ? 'double' : typeof value === 'boolean' ? 'boolean' : 'string';
+      // A key seen with mixed types falls back to string
+      keys.set(name, keys.has(name) && keys.get(name) !== type ? 'string' : type);
+    }
+  }
+  return keys;
+}
+
+function dataElements(prefix: 'n' | 'e', record: Record<string, PropertyValue>): string[] {
+  return Object.entries(record).map(([name, value]) => {
+    const text = Array.isArray(value) ? value.join(';') : String(value);
+    return `      <data key="${prefix}_${escapeXml(name)}">${escapeXml(text)}</data>`;
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
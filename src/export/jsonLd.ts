@@ -0,0 +1,107 @@
+import type { ExportNode, NodeLabel, PropertyGraph, PropertyValue } from './propertyGraph.js';
+
+// Project-specific terms; a URN because the project publishes no vocabulary document
+const VOCAB = 'urn:paper-graph:vocab:';
+
+const CONTEXT = {
+  schema: 'https://schema.org/',
+  cito: 'http://purl.org/spar/cito/',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  pg: VOCAB
+};
+
+const NODE_TYPES: Record<NodeLabel, string> = {
+  Paper: 'schema:ScholarlyArticle',
+  Concept: 'schema:DefinedTerm',
+  Method: 'pg:Method',
+  Dataset: 'schema:Dataset',
+  Metric: 'pg:Metric'
+};
+
+const PAPER_PROPERTIES: Record<string, string> = {
+  arxiv_id: 'schema:identifier',
+  title: 'schema:name',
+  authors: 'schema:author',
+  abstract: 'schema:abstract',
+  published_date: 'schema:datePublished',
+  pdf_url: 'schema:url',
+  categories: 'schema:keywords'
+};
+
+const SHARED_PROPERTIES: Record<string, string> = {
+  name: 'schema:name',
+  description: 'schema:description'
+};
+
+// Paper-to-paper edges with a CiTO counterpart
+const CITO_PREDICATES: Record<string, string> = {
+  CITES: 'cito:cites',
+  EXTENDS: 'cito:extends',
+  BUILDS_ON: 'cito:usesMethodIn',
+  COMPARES: 'cito:discusses'
+};
+
+/**
+ * JSON-LD using schema.org for nodes and CiTO for paper-to-paper citations.
+ * Every edge appears twice: as a plain link on its source node, and as a
+ * pg:Assertion carrying the confidence, evidence and section that a bare
+ * triple cannot hold.
+ */
+export function renderJsonLd(graph: PropertyGraph, exportedAt: string): string {
+  const labels = new Map(graph.nodes.map(node => [node.id, node.label]));
+  const documents = new Map<string, Record<string, unknown>>(graph.nodes.map(node => [node.id, nodeDocument(node)]));
+  const assertions: Array<Record<string, unknown>> = [];
+
+  graph.edges.forEach((edge, index) => {
+    const predicate = labels.get(edge.target) === 'Paper' && CITO_PREDICATES[edge.type]
+      ? CITO_PREDICATES[edge.type]
+      : `pg:${camelCase(edge.type)}`;
+
+    const source = documents.get(edge.source)!;
+    const links = (source[predicate] ??= []) as Array<{ '@id': string }>;
+    links.push({ '@id': iri(edge.target) });
+
+    assertions.push({
+      '@id': `urn:paper-graph:assertion:${index}`,
+      '@type': 'pg:Assertion',
+      'pg:subject': { '@id': iri(edge.source) },
+      'pg:predicate': { '@id': predicate },
+      'pg:object': { '@id': iri(edge.target) },
+      ...Object.fromEntries(Object.entries(edge.properties).map(([key, value]) => [`pg:${camelCase(key)}`, value]))
+    });
+  });
+
+  const document = {
+    '@context': CONTEXT,
+    'schema:dateModified': { '@value': exportedAt, '@type': 'xsd:dateTime' },
+    '@graph': [...documents.values(), ...assertions]
+  };
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+function nodeDocument(node: ExportNode): Record<string, unknown> {
+  const mapping = node.label === 'Paper' ? PAPER_PROPERTIES : SHARED_PROPERTIES;
+  const document: Record<string, unknown> = { '@id': iri(node.id), '@type': NODE_TYPES[node.label] };
+  for (const [key, value] of Object.entries(node.properties)) {
+    document[mapping[key] ?? `pg:${camelCase(key)}`] = propertyValue(key, value);
+  }
+  return document;
+}
+
+function propertyValue(key: string, value: PropertyValue): unknown {
+  if (key === 'authors' && Array.isArray(value)) {
+    return value.map(name => ({ '@type': 'schema:Person', 'schema:name': name }));
+  }
+  return value;
+}
+
+// Papers get their arXiv abstract page; everything else a URN built from the node id
+function iri(nodeId: string): string {
+  return nodeId.startsWith('paper:')
+    ? `https://arxiv.org/abs/${nodeId.slice('paper:'.length)}`
+    : `urn:paper-graph:${nodeId}`;
+}
+
+function camelCase(name: string): string {
+  return name.toLowerCase().replace(/_([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+}
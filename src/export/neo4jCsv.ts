@@ -0,0 +1,76 @@
+import type { ExportEdge, ExportNode, NodeLabel, PropertyGraph, PropertyValue } from './propertyGraph.js';
+
+export interface ExportFile {
+  name: string;
+  content: string;
+}
+
+const NODE_FILES: Record<NodeLabel, string> = {
+  Paper: 'papers.csv',
+  Concept: 'concepts.csv',
+  Method: 'methods.csv',
+  Dataset: 'datasets.csv',
+  Metric: 'metrics.csv'
+};
+
+// neo4j-admin's default array delimiter
+const ARRAY_DELIMITER = ';';
+
+/**
+ * CSV files in the layout `neo4j-admin database import full` expects: one
+ * node file per label and a single relationships file. Abstracts span lines,
+ * so the import needs --multiline-fields=true.
+ */
+export function renderNeo4jCsv(graph: PropertyGraph): ExportFile[] {
+  const files: ExportFile[] = [];
+
+  for (const [label, name] of Object.entries(NODE_FILES) as Array<[NodeLabel, string]>) {
+    const nodes = graph.nodes.filter(node => node.label === label);
+    const columns = collectColumns(nodes.map(node => node.properties));
+    const header = ['id:ID', ':LABEL', ...columns.map(column => column.header)];
+    const rows = nodes.map((node: ExportNode) => [
+      node.id,
+      node.label,
+      ...columns.map(column => cell(node.properties[column.name]))
+    ]);
+    files.push({ name, content: toCsv(header, rows) });
+  }
+
+  const columns = collectColumns(graph.edges.map(edge => edge.properties));
+  const header = [':START_ID', ':END_ID', ':TYPE', ...columns.map(column => column.header)];
+  const rows = graph.edges.map((edge: ExportEdge) => [
+    edge.source,
+    edge.target,
+    edge.type,
+    ...columns.map(column => cell(edge.properties[column.name]))
+  ]);
+  files.push({ name: 'relationships.csv', content: toCsv(header, rows) });
+
+  return files;
+}
+
+function collectColumns(records: Array<Record<string, PropertyValue>>): Array<{ name: string; header: string }> {
+  const types = new Map<string, string>();
+  for (const record of records) {
+    for (const [name, value] of Object.entries(record)) {
+      const type = Array.isArray(value) ? 'string[]' : typeof value === 'number' ? 'float' : typeof value === 'boolean' ? 'boolean' : 'string';
+      types.set(name, types.has(name) && types.get(name) !== type ? 'string' : type);
+    }
+  }
+  return [...types].map(([name, type]) => ({ name, header: type === 'string' ? name : `${name}:${type}` }));
+}
+
+function cell(value: PropertyValue | undefined): string {
+  if (value === undefined) return '';
+  return Array.isArray(value)
+    ? value.map(item => item.split(ARRAY_DELIMITER).join(',')).join(ARRAY_DELIMITER)
+    : String(value);
+}
+
+function toCsv(header: string[], rows: string[][]): string {
+  return [header, ...rows].map(row => row.map(quote).join(',')).join('\n') + '\n';
+}
+
+function quote(field: string): string {
+  return /[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
@@ -0,0 +1,172 @@
+import type { GraphSnapshot } from '../types.js';
+
+export type NodeLabel = 'Paper' | 'Concept' | 'Method' | 'Dataset' | 'Metric';
+
+export type PropertyValue = string | number | boolean | string[];
+
+export interface ExportNode {
+  // Stable across exports: "<label>:<key>", keyed by arXiv ID for papers and store id otherwise
+  id: string;
+  label: NodeLabel;
+  name: string;
+  properties: Record<string, PropertyValue>;
+}
+
+export interface ExportEdge {
+  source: string;
+  target: string;
+  // UPPER_SNAKE_CASE, e.g. MENTIONS, IMPROVES_ON, INTRODUCES_METHOD
+  type: string;
+  properties: Record<string, PropertyValue>;
+}
+
+export interface PropertyGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+export interface ExportFilters {
+  // Edges carrying a confidence below this are left out
+  minConfidence?: number;
+  // Papers published outside [from, to] are left out (ISO dates, inclusive)
+  from?: string;
+  to?: string;
+  // Only concepts in these categories are kept
+  categories?: string[];
+}
+
+/**
+ * Flattens a store snapshot into typed nodes and edges, applying the filters.
+ * When any filter is set, concepts, methods, datasets and metrics that are no
+ * longer linked to a remaining paper are dropped as well.
+ */
+export function buildPropertyGraph(snapshot: GraphSnapshot, filters: ExportFilters = {}): PropertyGraph {
+  const nodes = new Map<string, ExportNode>();
+  const edges: ExportEdge[] = [];
+  const paperNodeIds = new Map<string, string>();
+
+  const from = filters.from ? Date.parse(filters.from) : -Infinity;
+  // A bare date as upper bound covers that whole day
+  const to = filters.to ? Date.parse(filters.to) + (/^\d{4}-\d{2}-\d{2}$/.test(filters.to) ? 86399999 : 0) : Infinity;
+  const categories = filters.categories?.map(category => category.toLowerCase());
+  const confident = (confidence: number) => filters.minConfidence === undefined || confidence >= filters.minConfidence;
+
+  for (const paper of snapshot.papers) {
+    const published = Date.parse(paper.published_date);
+    if (!Number.isNaN(published) && (published < from || published > to)) continue;
+
+    const id = `paper:${paper.arxiv_id}`;
+    paperNodeIds.set(paper.id, id);
+    nodes.set(id, {
+      id,
+      label: 'Paper',
+      name: paper.title,
+      properties: {
+        arxiv_id: paper.arxiv_id,
+        title: paper.title,
+        authors: paper.authors,
+        abstract: paper.abstract,
+        published_date: paper.published_date,
+        pdf_url: paper.pdf_url,
+        categories: paper.categories
+      }
+    });
+  }
+
+  const entityNodes = new Map<string, ExportNode>();
+  const addEntity = (label: NodeLabel, id: string, name: string, properties: Record<string, PropertyValue | undefined>) => {
+    entityNodes.set(`${label.toLowerCase()}:${id}`, { id: `${label.toLowerCase()}:${id}`, label, name, properties: defined({ name, ...properties }) });
+  };
+
+  for (const concept of snapshot.concepts) {
+    if (categories && !categories.includes((concept.category ?? '').toLowerCase())) continue;
+    addEntity('Concept', concept.id, concept.name, { category: concept.category, description: concept.description });
+  }
+  for (const method of snapshot.methods) {
+    addEntity('Method', method.id, method.name, { description: method.description });
+  }
+  for (const dataset of snapshot.datasets) {
+    addEntity('Dataset', dataset.id, dataset.name, { description: dataset.description, task_type: dataset.task_type, size: dataset.size });
+  }
+  for (const metric of snapshot.metrics) {
+    addEntity('Metric', metric.id, metric.name, { unit: metric.unit, higher_is_better: metric.higher_is_better, description: metric.description });
+  }
+
+  const addEdge = (paperId: string, target: string, type: string, properties: Record<string, PropertyValue | undefined>) => {
+    const source = paperNodeIds.get(paperId);
+    if (!source || !(entityNodes.has(target) || nodes.has(target))) return;
+    edges.push({ source, target, type, properties: defined(properties) });
+  };
+
+  for (const link of snapshot.paperConcepts) {
+    if (!confident(link.confidence)) continue;
+    addEdge(link.paper_id, `concept:${link.concept_id}`, edgeType(link.relationship), {
+      confidence: link.confidence,
+      section: link.section,
+      extraction_id: link.extraction_id ?? undefined,
+      reviewed_by: link.reviewed_by ?? undefined
+    });
+  }
+
+  // Relationships whose target never resolved to a concept have nothing to point at
+  for (const rel of snapshot.relationships) {
+    if (!rel.target_concept_id || !confident(rel.confidence)) continue;
+    addEdge(rel.paper_id, `concept:${rel.target_concept_id}`, edgeType(rel.relationship_type), {
+      confidence: rel.confidence,
+      evidence: rel.evidence,
+      section: rel.section,
+      extraction_id: rel.extraction_id ?? undefined,
+      reviewed_by: rel.reviewed_by ?? undefined,
+      entailment_verdict: rel.entailment_verdict ?? undefined
+    });
+  }
+
+  for (const link of snapshot.paperMethods) {
+    if (!confident(link.confidence)) continue;
+    const type = link.introduces ? 'INTRODUCES_METHOD' : link.is_baseline ? 'USES_BASELINE' : 'USES_METHOD';
+    addEdge(link.paper_id, `method:${link.method_id}`, type, {
+      confidence: link.confidence,
+      section: link.section,
+      extraction_id: link.extraction_id ?? undefined,
+      reviewed_by: link.reviewed_by ?? undefined
+    });
+  }
+  for (const link of snapshot.paperDatasets) {
+    addEdge(link.paper_id, `dataset:${link.dataset_id}`, 'EVALUATED_ON', {
+      section: link.section,
+      extraction_id: link.extraction_id ?? undefined
+    });
+  }
+  for (const link of snapshot.paperMetrics) {
+    addEdge(link.paper_id, `metric:${link.metric_id}`, 'REPORTS_METRIC', {
+      section: link.section,
+      extraction_id: link.extraction_id ?? undefined
+    });
+  }
+
+  for (const edge of snapshot.paperRelationships) {
+    const target = paperNodeIds.get(edge.target_paper_id);
+    if (!target || !confident(edge.confidence)) continue;
+    addEdge(edge.source_paper_id, target, edgeType(edge.relationship_type), { confidence: edge.confidence, evidence: edge.evidence });
+  }
+
+  const filtered = filters.minConfidence !== undefined || filters.from || filters.to || categories;
+  const linked = new Set(edges.map(edge => edge.target));
+  for (const [id, node] of entityNodes) {
+    if (!filtered || linked.has(id)) nodes.set(id, node);
+  }
+
+  return { nodes: [...nodes.values()], edges };
+}
+
+function edgeType(name: string): string {
+  return name.trim().replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+}
+
+function defined(properties: Record<string, PropertyValue | undefined>): Record<string, PropertyValue> {
+  const result: Record<string, PropertyValue> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value !== undefined && value !== null && value !== '') result[key] = value;
+  }
+  return result;
+}
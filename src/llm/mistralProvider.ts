@@ -0,0 +1,33 @@
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider.js';
+import type { RateLimits } from '../scheduling/rateLimiter.js';
+import type { LlmProviderConfig } from '../types.js';
+
+export const MISTRAL_DEFAULTS: LlmProviderConfig = {
+  model: 'mistral-large-latest',
+  temperature: 0.1,
+  maxTokens: 4000
+};
+
+// Conservative defaults; raise them with LLM_RPM / LLM_TPM to match the workspace's tier
+export const MISTRAL_RATE_LIMITS: RateLimits = {
+  requestsPerMinute: 60,
+  tokensPerMinute: 500000
+};
+
+export class MistralProvider extends OpenAiCompatibleProvider {
+  readonly name = 'mistral';
+
+  constructor(apiKey: string, config: Partial<LlmProviderConfig> = {}, rateLimits: RateLimits = {}) {
+    if (!apiKey || apiKey === 'your_mistral_api_key_here') {
+      throw new Error('VALID Mistral API key REQUIRED. Get one from: https://console.mistral.ai/');
+    }
+
+    super({
+      ...MISTRAL_DEFAULTS,
+      ...config,
+      baseUrl: 'https://api.mistral.ai/v1',
+      apiKey,
+      rateLimits: { ...MISTRAL_RATE_LIMITS, ...rateLimits }
+    });
+  }
+}
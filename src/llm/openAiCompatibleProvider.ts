@@ -0,0 +1,95 @@
+import type { LlmProvider, LlmProviderConfig, LlmRequest, LlmResponse, LlmUsage } from '../types.js';
+import { rateLimiter, RateLimits } from '../scheduling/rateLimiter.js';
+import { fetchWithTimeout, withRetry } from '../scheduling/retry.js';
+
+export interface OpenAiCompatibleOptions extends LlmProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  // Shared by every call to this provider (keyed by provider name)
+  rateLimits?: RateLimits;
+}
+
+/**
+ * Chat completions provider for any server speaking the OpenAI wire format
+ * (vLLM, llama.cpp server, Ollama, LM Studio, ...)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name: string = 'openai-compatible';
+  readonly config: LlmProviderConfig;
+  protected baseUrl: string;
+  protected apiKey?: string;
+  protected timeoutMs: number;
+  protected rateLimits: RateLimits;
+
+  constructor(options: OpenAiCompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.rateLimits = options.rateLimits ?? {};
+    this.config = {
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens
+    };
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const limiter = rateLimiter(this.name, this.rateLimits);
+    const reserved = estimateTokens(request);
+
+    return withRetry(`call ${this.name} API after 3 attempts`, async attempt => {
+      console.log(`   ${this.name} API attempt ${attempt}/3 (${this.config.model})...`);
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (this.apiKey) {
+        headers['Authorization'] = `Bearer ${this.apiKey}`;
+      }
+
+      const response = await fetchWithTimeout(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(this.buildRequestBody(request))
+      }, this.timeoutMs);
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+
+      if (data.usage?.total_tokens) {
+        limiter.recordUsage(data.usage.total_tokens, reserved);
+      }
+
+      if (!content) {
+        throw new Error(`Empty response content from ${this.name}`);
+      }
+
+      console.log(`   ${this.name} response received (${content.length} chars)`);
+      return { content, model: data.model || this.config.model, usage: readUsage(data.usage) };
+    }, { limiter, tokens: reserved });
+  }
+
+  protected buildRequestBody(request: LlmRequest): Record<string, unknown> {
+    return {
+      model: this.config.model,
+      messages: request.messages,
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokens,
+      ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {})
+    };
+  }
+}
+
+// Roughly four characters per token; the real count is settled from the response's usage
+function estimateTokens(request: LlmRequest): number {
+  const chars = request.messages.reduce((total, message) => total + message.content.length, 0);
+  return Math.ceil(chars / 4);
+}
+
+function readUsage(usage: any): LlmUsage | undefined {
+  if (typeof usage?.total_tokens !== 'number') return undefined;
+  return {
+    prompt_tokens: Number(usage.prompt_tokens) || 0,
+    completion_tokens: Number(usage.completion_tokens) || 0,
+    total_tokens: usage.total_tokens
+  };
+}
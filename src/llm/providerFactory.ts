@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { MistralProvider } from './mistralProvider.js';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider.js';
+import { ScriptedProvider, ScriptedResponse } from './scriptedProvider.js';
+import type { RateLimits } from '../scheduling/rateLimiter.js';
+import type { LlmProvider, LlmProviderConfig } from '../types.js';
+
+const EMPTY_EXTRACTION = JSON.stringify({
+  concepts: [],
+  methods: [],
+  datasets: [],
+  metrics: [],
+  relationships: []
+});
+
+/**
+ * Builds the LLM provider selected by LLM_PROVIDER (mistral | openai-compatible | scripted).
+ * LLM_MODEL, LLM_TEMPERATURE and LLM_MAX_TOKENS override the provider defaults;
+ * LLM_RPM and LLM_TPM set its requests- and tokens-per-minute limits.
+ */
+export function createLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const providerName = (env.LLM_PROVIDER || 'mistral').trim().toLowerCase();
+  const overrides = readConfigOverrides(env);
+  const rateLimits = readRateLimits(env);
+
+  switch (providerName) {
+    case 'mistral':
+      return new MistralProvider(env.MISTRAL_API_KEY || '', overrides, rateLimits);
+
+    case 'openai-compatible':
+    case 'openai':
+    case 'local':
+      return new OpenAiCompatibleProvider({
+        baseUrl: env.LLM_BASE_URL || 'http://localhost:8000/v1',
+        apiKey: env.LLM_API_KEY,
+        model: overrides.model || 'local-model',
+        temperature: overrides.temperature ?? 0.1,
+        maxTokens: overrides.maxTokens ?? 4000,
+        rateLimits
+      });
+
+    case 'scripted':
+      return new ScriptedProvider(loadScriptedResponses(env.SCRIPTED_RESPONSES_FILE), overrides);
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}". Use mistral, openai-compatible or scripted`);
+  }
+}
+
+function readConfigOverrides(env: NodeJS.ProcessEnv): Partial<LlmProviderConfig> {
+  const overrides: Partial<LlmProviderConfig> = {};
+  if (env.LLM_MODEL) overrides.model = env.LLM_MODEL;
+  if (env.LLM_TEMPERATURE) {
+    const temperature = Number(env.LLM_TEMPERATURE);
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+      throw new Error(`LLM_TEMPERATURE must be a number between 0 and 2, got "${env.LLM_TEMPERATURE}"`);
+    }
+    overrides.temperature = temperature;
+  }
+  if (env.LLM_MAX_TOKENS) overrides.maxTokens = readPositiveInteger(env, 'LLM_MAX_TOKENS');
+  return overrides;
+}
+
+// Also applied to the embedding provider, which shares the LLM provider's quota
+export function readRateLimits(env: NodeJS.ProcessEnv): RateLimits {
+  const limits: RateLimits = {};
+  if (env.LLM_RPM) limits.requestsPerMinute = readPositiveInteger(env, 'LLM_RPM');
+  if (env.LLM_TPM) limits.tokensPerMinute = readPositiveInteger(env, 'LLM_TPM');
+  return limits;
+}
+
+function readPositiveInteger(env: NodeJS.ProcessEnv, name: string): number {
+  const value = Number(env[name]);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got "${env[name]}"`);
+  }
+  return value;
+}
+
+function loadScriptedResponses(file?: string): ScriptedResponse[] {
+  if (!file) {
+    return [EMPTY_EXTRACTION];
+  }
+
+  const parsed = JSON.parse(readFileSync(file, 'utf-8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`SCRIPTED_RESPONSES_FILE must contain a JSON array: ${file}`);
+  }
+  return parsed;
+}
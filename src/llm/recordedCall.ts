@@ -0,0 +1,45 @@
+import { randomUUID } from 'crypto';
+import type { ExtractionCall, LlmProvider, LlmRequest, LlmResponse } from '../types.js';
+
+/**
+ * Sends `request` to the provider and reads the response with `read`, appending
+ * the call to `calls` whether or not it succeeds; the calls are stored as
+ * extraction records. Rate limiting and retries are the provider's.
+ */
+export async function recordedCall<T>(
+  llm: LlmProvider,
+  request: LlmRequest,
+  source: Pick<ExtractionCall, 'section' | 'prompt_version'>,
+  calls: ExtractionCall[],
+  read: (response: LlmResponse, call: ExtractionCall) => T
+): Promise<T> {
+  const call: ExtractionCall = {
+    id: randomUUID(),
+    ...source,
+    provider: llm.name,
+    model: llm.config.model,
+    temperature: llm.config.temperature,
+    max_tokens: llm.config.maxTokens,
+    request,
+    response: null,
+    error: null,
+    latency_ms: 0,
+    usage: null,
+    created_at: new Date().toISOString()
+  };
+  calls.push(call);
+
+  const started = Date.now();
+  try {
+    const response = await llm.complete(request);
+    call.latency_ms = Date.now() - started;
+    call.model = response.model;
+    call.response = response.content;
+    call.usage = response.usage ?? null;
+    return read(response, call);
+  } catch (error: any) {
+    call.latency_ms ||= Date.now() - started;
+    call.error = error.message;
+    throw error;
+  }
+}
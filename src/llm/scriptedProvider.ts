@@ -0,0 +1,61 @@
+import type { LlmProvider, LlmProviderConfig, LlmRequest, LlmResponse } from '../types.js';
+
+export type ScriptedResponse = string | {
+  // Only answer prompts containing this substring
+  match?: string;
+  response: string | object;
+};
+
+/**
+ * Deterministic provider for tests and offline runs. Entries with a `match`
+ * answer any prompt containing that substring; the rest are handed out in order
+ * and wrap around once exhausted.
+ */
+export class ScriptedProvider implements LlmProvider {
+  readonly name = 'scripted';
+  readonly config: LlmProviderConfig;
+  readonly calls: LlmRequest[] = [];
+  private responses: ScriptedResponse[];
+  private cursor = 0;
+
+  constructor(responses: ScriptedResponse[], config: Partial<LlmProviderConfig> = {}) {
+    if (responses.length === 0) {
+      throw new Error('ScriptedProvider needs at least one response');
+    }
+    this.responses = responses;
+    this.config = {
+      model: config.model ?? 'scripted',
+      temperature: config.temperature ?? 0,
+      maxTokens: config.maxTokens ?? 4000
+    };
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.calls.push(request);
+    const prompt = request.messages.map(message => message.content).join('\n');
+
+    const matched = this.responses.find(entry =>
+      typeof entry !== 'string' && entry.match !== undefined && prompt.includes(entry.match)
+    );
+
+    return {
+      content: this.render(matched ?? this.nextSequential()),
+      model: this.config.model
+    };
+  }
+
+  private nextSequential(): ScriptedResponse {
+    const sequential = this.responses.filter(entry => typeof entry === 'string' || entry.match === undefined);
+    if (sequential.length === 0) {
+      throw new Error('ScriptedProvider has no response matching this prompt');
+    }
+    const entry = sequential[this.cursor % sequential.length];
+    this.cursor++;
+    return entry;
+  }
+
+  private render(entry: ScriptedResponse): string {
+    if (typeof entry === 'string') return entry;
+    return typeof entry.response === 'string' ? entry.response : JSON.stringify(entry.response);
+  }
+}
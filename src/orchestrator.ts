@@ -1,166 +1,703 @@
-import { DatabaseClient } from './database/client.js';
+import type { GraphStore } from './database/graphStore.js';
 import { ArxivAgent } from './agents/arxivAgent.js';
-import { ExtractionAgent } from './agents/extractionAgent.js';
+import { ExtractionAgent, ExtractionError } from './agents/extractionAgent.js';
+import type { EntityExtractor } from './agents/extractionAgent.js';
+import { isMajority, SelfConsistencyAgent } from './agents/selfConsistencyAgent.js';
+import type { SamplingOptions } from './agents/selfConsistencyAgent.js';
 import { ValidationAgent } from './agents/validationAgent.js';
 import { RelationshipAnalyzer } from './agents/relationshipAnalyzer.js';
-import type { Paper, ArxivPaper, DatabaseStats, ExtractionResult } from './types.js';
+import { FullTextAgent } from './agents/fullTextAgent.js';
+import { CitationAgent } from './agents/citationAgent.js';
+import { QuestionAgent } from './agents/questionAgent.js';
+import { domainRelevanceScore, isRelevantToDomain, loadDomainProfile } from './domain/domainProfile.js';
+import { loadPromptTemplate } from './prompts/promptTemplate.js';
+import type { PromptTemplate } from './prompts/promptTemplate.js';
+import { normalizeArxivId, parseArxivId } from './arxiv/arxivId.js';
+import type { AskOptions, GraphAnswer } from './agents/questionAgent.js';
+import { SemanticIndex } from './embeddings/semanticIndex.js';
+import { ExtractionEvaluator } from './evaluation/extractionEval.js';
+import type { EvalReport, EvalSource, GoldPaper, GoldSet } from './evaluation/extractionEval.js';
+import { PromptComparison } from './evaluation/promptComparison.js';
+import type { PromptComparisonReport } from './evaluation/promptComparison.js';
+import { ConceptResolver, conceptNameSimilarity } from './resolution/conceptResolver.js';
+import { JobLedger, PIPELINE_STAGES, RetryPolicy } from './pipeline/jobLedger.js';
+import { ReviewQueue } from './review/reviewQueue.js';
+import { WorkScheduler } from './scheduling/workScheduler.js';
+import type { RunSummary } from './pipeline/jobLedger.js';
+import type {
+  Paper,
+  ArxivPaper,
+  CitationProvider,
+  Concept,
+  DomainProfile,
+  EmbeddingProvider,
+  DatabaseStats,
+  ExtractionResult,
+  ExtractionCall,
+  LlmProvider,
+  FullTextDocument,
+  PaperJob,
+  PipelineStage,
+  JobStatus,
+  PaperChange,
+  ReviewCandidate,
+  StoredPaper
+} from './types.js';
+
+// Each sync searches this far before the stored marks, since arXiv indexes some
+// submissions a day or two after their submission date
+const SYNC_OVERLAP_DAYS = 3;
+
+export interface PipelineOptions {
+  // Seeds, relevance keywords and prompt framing (default: profiles/gaussian-splatting.json)
+  profile?: DomainProfile;
+  // Extraction prompt (default: prompts/extraction-v1.txt)
+  promptTemplate?: PromptTemplate;
+  // Extract each paper several times and score entities by how many samples agree; off by default
+  sampling?: SamplingOptions;
+  // Asks whether each relationship's evidence supports it during validation; none skips the check
+  entailmentProvider?: LlmProvider | null;
+  // Download PDFs and extract section by section instead of from the abstract only
+  fullText?: boolean;
+  // Directory of local PDFs named <arxiv_id>.pdf, checked before downloading
+  pdfDir?: string;
+  // Attempts per paper and backoff between retry passes (defaults: 3 attempts, 5s)
+  retryPolicy?: RetryPolicy;
+  // Papers processed at once (default 3); arXiv and LLM rate limits still apply
+  concurrency?: number;
+  // Source of references and citations for discovery and `cites` edges; none means keyword discovery only
+  citationProvider?: CitationProvider | null;
+  // Embeds abstracts and concepts for semantic discovery and `similar`; none turns both off
+  embeddingProvider?: EmbeddingProvider | null;
+  // Papers at least this similar to the graph count as relevant without a domain keyword (default 0.8)
+  minSimilarity?: number;
+}
+
+export interface BuildOptions {
+  // Default to the profile's seeds and search keywords
+  seeds?: string[];
+  limit?: number;
+  keywords?: string[];
+}
+
+export interface SyncOptions {
+  // Search submissions from this date instead of the profile's high-water mark
+  since?: string;
+  // Default to the profile's search keywords
+  keywords?: string[];
+}
+
+// What a sync found on arXiv: submissions not yet in the graph, and newer
+// versions of stored papers
+export interface SyncPlan {
+  since: string;
+  revisedSince: string;
+  until: string;
+  newPapers: ArxivPaper[];
+  updatedPapers: ArxivPaper[];
+  highWaterMark: string;
+}
+
+export interface RunReport {
+  runId: string;
+  summary: RunSummary;
+  stats: DatabaseStats;
+}
+
+// A paper's state in the graph, reported by dry runs
+export interface PaperPlan {
+  arxivId: string;
+  stored: boolean;
+  status: JobStatus | null;
+  stage: PipelineStage | null;
+}
 
 export class PipelineOrchestrator {
-  private db: DatabaseClient;
+  private db: GraphStore;
+  private llm: LlmProvider;
+  private profile: DomainProfile;
   private arxivAgent: ArxivAgent;
   private extractionAgent: ExtractionAgent;
+  private selfConsistencyAgent: SelfConsistencyAgent | null;
   private validationAgent: ValidationAgent;
+  private entailmentModel: string | null;
   private relationshipAnalyzer: RelationshipAnalyzer;
+  private fullTextAgent: FullTextAgent | null;
+  private citationAgent: CitationAgent | null;
+  private semanticIndex: SemanticIndex | null;
+  private questionAgent: QuestionAgent;
+  private conceptResolver: ConceptResolver;
+  private ledger: JobLedger;
+  private reviewQueue: ReviewQueue;
   
   // Agent configuration for scalability
-  private readonly BATCH_SIZE = 5;
-  private readonly MAX_CONCURRENT_AGENTS = 3;
+  private readonly MAX_CONCURRENT_AGENTS: number;
+  private scheduler: WorkScheduler;
   private readonly MIN_CONFIDENCE_THRESHOLD = 0.7;
+  private readonly MIN_SIMILARITY: number;
+  // arXiv results scored per semantic discovery slot
+  private readonly SEMANTIC_CANDIDATES_PER_SLOT = 5;
 
-  constructor(mistralApiKey: string, dbUrl: string) {
+  constructor(llmProvider: LlmProvider, store: GraphStore, options: PipelineOptions = {}) {
     console.log('Initializing Agentic Knowledge Graph System...');
     
-    this.db = new DatabaseClient(dbUrl);
-    this.arxivAgent = new ArxivAgent();
-    this.extractionAgent = new ExtractionAgent(mistralApiKey);
-    this.validationAgent = new ValidationAgent();
+    this.db = store;
+    this.llm = llmProvider;
+    this.profile = options.profile ?? loadDomainProfile();
+    this.arxivAgent = new ArxivAgent(this.profile);
+    this.extractionAgent = new ExtractionAgent(llmProvider, this.profile, options.promptTemplate ?? loadPromptTemplate());
+    this.selfConsistencyAgent = options.sampling ? new SelfConsistencyAgent(this.profile, options.sampling) : null;
+    this.validationAgent = new ValidationAgent(options.entailmentProvider ?? null);
+    this.entailmentModel = options.entailmentProvider?.config.model ?? null;
     this.relationshipAnalyzer = new RelationshipAnalyzer();
+    this.fullTextAgent = options.fullText ? new FullTextAgent(options.pdfDir) : null;
+    this.citationAgent = options.citationProvider ? new CitationAgent(options.citationProvider) : null;
+    this.semanticIndex = options.embeddingProvider ? new SemanticIndex(options.embeddingProvider, this.db) : null;
+    this.questionAgent = new QuestionAgent(llmProvider, this.db, this.semanticIndex);
+    this.MIN_SIMILARITY = options.minSimilarity ?? 0.8;
+    this.conceptResolver = new ConceptResolver(this.db);
+    this.ledger = new JobLedger(this.db, options.retryPolicy);
+    this.reviewQueue = new ReviewQueue(this.db);
+    this.MAX_CONCURRENT_AGENTS = options.concurrency ?? 3;
+    this.scheduler = new WorkScheduler(this.MAX_CONCURRENT_AGENTS);
     
     console.log('Agents initialized:');
     console.log('      ArxivAgent - Intelligent paper discovery');
     console.log('      ExtractionAgent - Semantic entity extraction');
+    if (this.selfConsistencyAgent) {
+      console.log('      SelfConsistencyAgent - Multi-sample extraction voting');
+    }
     console.log('      ValidationAgent - Quality assurance');
     console.log('      RelationshipAnalyzer - Cross-paper analysis');
+    console.log('      QuestionAgent - Question answering over the graph');
+    if (this.fullTextAgent) {
+      console.log('      FullTextAgent - Section-aware PDF ingestion');
+    }
+    if (this.citationAgent) {
+      console.log('      CitationAgent - Citation graph discovery');
+    }
+    if (this.semanticIndex) {
+      console.log('      SemanticIndex - Embedding similarity discovery');
+    }
   }
 
   /**
-   * Agentic paper processing with intelligent reasoning
+   * Agentic paper processing with intelligent reasoning. Each stage is recorded in the
+   * job ledger, and a paper whose last attempt stopped partway picks up after the last
+   * stage that completed.
    */
-  async processPaper(arxivId: string): Promise<boolean> {
-    console.log(`Agentic processing: ${arxivId}`);
-    
-    try {
-      // Step 1: Intelligent duplicate detection
-      const existing = await this.db.findPaperByArxivId(arxivId);
-      if (existing) {
+  async processPaper(requestedId: string, options: { reextract?: boolean } = {}): Promise<boolean> {
+    console.log(`Agentic processing: ${requestedId}`);
+
+    const { id: arxivId, version } = parseArxivId(requestedId);
+    let existing = await this.db.findPaperByArxivId(arxivId);
+    let reextract = options.reextract ?? false;
+    let job: PaperJob;
+
+    // Asking for a newer version than the one stored updates the paper, and extracts it
+    // again when the abstract changed
+    if (existing && !reextract && version !== null && version > (existing.version ?? 1)) {
+      try {
+        reextract = await this.recordRevision(existing, await this.arxivAgent.fetchPaper(requestedId));
+        existing = await this.db.findPaperByArxivId(arxivId);
+      } catch (error: any) {
+        console.error(`    Could not fetch ${requestedId}, keeping v${existing.version ?? 1}: ${error.message}`);
+      }
+    }
+
+    if (reextract) {
+      if (!existing) {
+        throw new Error(`Paper ${arxivId} is not in the knowledge graph`);
+      }
+      // Start over from the stored paper; the previous extraction's links are dropped
+      await this.db.clearPaperExtraction(existing.id);
+      await this.ensureRun();
+      job = await this.ledger.restart(arxivId, existing.id);
+    } else {
+      const previous = await this.ledger.findJob(arxivId);
+      if (previous?.status === 'completed') {
         console.log(`    Already processed by knowledge graph, skipping`);
         return true;
       }
-
-      // Step 2: Fetch paper with agentic reasoning about relevance
-      console.log(`  ArxivAgent fetching and assessing relevance...`);
-      const paper = await this.arxivAgent.fetchPaper(arxivId);
-      
-      if (!this.isRelevantToGaussianSplatting(paper)) {
-        console.log(`   Paper not relevant to Gaussian Splatting domain`);
+      if (previous?.status === 'skipped') {
+        console.log(`    Previously skipped: ${previous.last_error}`);
         return false;
       }
 
-      console.log(`   "${paper.title}"`);
-      console.log(`    ${paper.authors.slice(0, 3).join(', ')}${paper.authors.length > 3 ? '...' : ''}`);
+      // Papers stored before the ledger existed only count as done once they have concepts
+      if (existing && !previous && (await this.db.getPaperConcepts(existing.id)).length > 0) {
+        console.log(`    Already processed by knowledge graph, skipping`);
+        return true;
+      }
 
-      // Step 3: Store paper in knowledge graph
-      const paperId = await this.db.insertPaper(paper);
+      await this.ensureRun();
+      job = await this.ledger.beginAttempt(arxivId);
+      if (job.attempts > 1) {
+        console.log(`    Resuming after stage "${job.stage ?? 'none'}" (attempt ${job.attempts})`);
+      }
+    }
+
+    try {
+      // Step 1-2: Fetch paper with agentic reasoning about relevance, then store it
+      let paper: Paper;
+      if (existing) {
+        paper = existing;
+        if (!job.stage) {
+          await this.ledger.markStage(job, 'fetched', { paperId: existing.id });
+        }
+      } else {
+        console.log(`  ArxivAgent fetching and assessing relevance...`);
+        paper = await this.arxivAgent.fetchPaper(arxivId);
+
+        if (!isRelevantToDomain(this.profile, paper) && !(await this.isSemanticallyRelevant(paper))) {
+          console.log(`   Paper not relevant to ${this.profile.name} domain`);
+          await this.ledger.markSkipped(job, 'not relevant to domain');
+          return false;
+        }
+
+        console.log(`   "${paper.title}"`);
+        console.log(`    ${paper.authors.slice(0, 3).join(', ')}${paper.authors.length > 3 ? '...' : ''}`);
+
+        // Step 3: Store paper in knowledge graph
+        const paperId = await this.db.insertPaper(paper);
+        await this.ledger.markStage(job, 'fetched', { paperId });
+      }
+      const paperId = job.paper_id!;
+
+      // Full text is only needed by the stages that read the paper
+      const fullText = this.reached(job, 'validated') ? null : await this.loadFullText(paper);
 
       // Step 4: Agentic entity extraction with domain knowledge
-      console.log(`    ExtractionAgent analyzing semantic content...`);
-      const extraction = await this.extractionAgent.extractEntities(paper);
-      
+      if (!this.reached(job, 'extracted')) {
+        console.log(`    ExtractionAgent analyzing semantic content...`);
+        let extraction: ExtractionResult;
+        try {
+          extraction = fullText
+            ? await this.extractor().extractEntitiesFromSections(paper, fullText.sections)
+            : await this.extractor().extractEntities(paper);
+        } catch (error: any) {
+          if (error instanceof ExtractionError) {
+            await this.recordExtractionCalls(paperId, job, error.calls);
+          }
+          throw error;
+        }
+        // The calls are stored once, as extraction records; the checkpoint keeps only their ids
+        const { calls = [], unconfirmed = [], ...checkpoint } = extraction;
+        await this.recordExtractionCalls(paperId, job, calls);
+        const queued = await this.reviewQueue.enqueue(paperId, unconfirmed);
+        if (queued > 0) {
+          console.log(`    ${queued} entities found by a single sample queued for review`);
+        }
+        await this.ledger.markStage(job, 'extracted', { extraction: checkpoint });
+      }
+
       // Step 5: Validation with domain-specific rules
-      console.log(`    ValidationAgent verifying extraction quality...`);
-      const validated = await this.validationAgent.validateExtraction(extraction, paper);
-      
-      if (!validated.isValid) {
-        console.log(`     Quality issues: ${validated.issues.join(', ')}`);
+      if (!this.reached(job, 'validated')) {
+        console.log(`    ValidationAgent verifying extraction quality...`);
+        const validated = await this.validationAgent.validateExtraction(job.extraction!, paper, fullText ?? undefined);
+        await this.recordExtractionCalls(paperId, job, validated.calls ?? []);
+
+        if (!validated.isValid) {
+          console.log(`     Quality issues: ${validated.issues.join(', ')}`);
+        }
+        const queued = await this.reviewQueue.enqueue(paperId, validated.rejected);
+        if (queued > 0) {
+          console.log(`    ${queued} rejected entities queued for review`);
+        }
+        await this.ledger.markStage(job, 'validated', { extraction: validated.extraction });
       }
 
       // Step 6: Store validated knowledge with confidence scoring
-      console.log(`    Storing semantic knowledge...`);
-      await this.storeKnowledgeGraph(paperId, validated.extraction);
+      if (!this.reached(job, 'stored')) {
+        console.log(`    Storing semantic knowledge...`);
+        const concepts = await this.storeKnowledgeGraph(paperId, job.extraction!);
+        await this.indexSemantics(paperId, paper, concepts);
+        await this.ledger.markStage(job, 'stored');
+      }
 
       // Step 7: Cross-paper relationship analysis
-      console.log(`    Analyzing relationships with existing knowledge...`);
-      await this.relationshipAnalyzer.analyzeCrossPaperRelationships(paperId, paper, this.db);
+      if (!this.reached(job, 'analyzed')) {
+        console.log(`    Analyzing relationships with existing knowledge...`);
+        await this.relationshipAnalyzer.analyzeCrossPaperRelationships(paperId, paper, this.db);
+        await this.linkCitations(paperId, paper.arxiv_id);
+        await this.ledger.markStage(job, 'analyzed');
+      }
 
+      await this.ledger.markCompleted(job);
       console.log(`    Successfully integrated into knowledge graph`);
       return true;
 
     } catch (error: any) {
-      console.error(`    Agentic processing failed: ${error.message}`);
+      console.error(`    Agentic processing failed after stage "${job.stage ?? 'none'}": ${error.message}`);
+      await this.ledger.markFailed(job, error.message);
       return false;
     }
   }
 
   /**
-   * Builds Gaussian Splatting knowledge graph as specified in requirements
+   * Builds the knowledge graph of the domain profile, starting from its seed papers
    */
-  async buildGaussianSplattingGraph(paperLimit: number = 50): Promise<void> {
-    console.log(' Building Gaussian Splatting Knowledge Graph');
+  async buildKnowledgeGraph(options: BuildOptions = {}): Promise<RunReport> {
+    const { seeds, limit, keywords } = this.buildSettings(options);
+    const runId = await this.ledger.startRun('build', {
+      profile: this.profile.name, ...this.extractionConfig(), seeds, limit, keywords, fullText: this.fullTextAgent !== null
+    });
+
+    console.log(` Building ${this.profile.name} Knowledge Graph`);
     console.log('==============================================');
-    console.log(`    Target: ${paperLimit} papers`);
-    console.log(`    Starting with seminal paper: 2308.04079`);
+    console.log(`    Run ID: ${runId}`);
+    console.log(`    Target: ${limit} papers`);
+    console.log(`    Starting with seminal papers: ${seeds.join(', ')}`);
     console.log(`    Using ${this.MAX_CONCURRENT_AGENTS} concurrent agents`);
-    console.log(`    Scalability: Batch processing with ${this.BATCH_SIZE} papers/batch`);
-
-    const processedPapers: string[] = [];
-    const failedPapers: string[] = [];
 
     try {
-      // Phase 1: Process seminal paper with deep analysis
-      console.log(` PHASE 1: Processing seminal Gaussian Splatting paper`);
-      const seminalSuccess = await this.processPaperWithDeepAnalysis('2308.04079');
-      if (seminalSuccess) {
-        processedPapers.push('2308.04079');
-        console.log(`    Seminal paper established as graph foundation`);
+      // Phase 1: Process seminal papers with deep analysis
+      console.log(` PHASE 1: Processing seminal papers`);
+      let seminalSuccesses = 0;
+      for (const seed of seeds) {
+        if (await this.processPaperWithDeepAnalysis(seed)) seminalSuccesses++;
+      }
+      if (seminalSuccesses > 0) {
+        console.log(`    ${seminalSuccesses}/${seeds.length} seminal papers established as graph foundation`);
       } else {
-        failedPapers.push('2308.04079');
-        throw new Error('Failed to process seminal paper - cannot build knowledge graph');
+        throw new Error('Failed to process any seminal paper - cannot build knowledge graph');
       }
 
       // Phase 2: Intelligent paper discovery using multiple strategies
       console.log(` PHASE 2: Intelligent paper discovery`);
-      const discoveredPapers = await this.discoverRelevantPapers(paperLimit - 1);
+      const discoveredPapers = await this.discoverRelevantPapers(seeds, limit - seeds.length, keywords);
       console.log(`    Discovered ${discoveredPapers.length} relevant papers`);
+      await this.ledger.enqueue(discoveredPapers.map(paper => paper.arxiv_id));
 
       // Phase 3: Scalable processing with agentic coordination
       console.log(` PHASE 3: Scalable knowledge extraction`);
-      await this.processPapersAtScale(discoveredPapers, processedPapers, failedPapers);
-
-      // Phase 4: Knowledge graph refinement and analysis
-      console.log(` PHASE 4: Cross-paper relationship analysis`);
-      await this.analyzeKnowledgeGraphRelationships();
+      await this.processPapersAtScale(discoveredPapers.map(paper => paper.arxiv_id));
+      await this.retryFailedPapers();
 
-      // Phase 5: System performance and quality reporting
-      console.log(` PHASE 5: Knowledge graph quality assessment`);
-      await this.generateComprehensiveReport(processedPapers, failedPapers);
-
-      console.log(' Gaussian Splatting Knowledge Graph completed!');
+      const report = await this.finishRun();
+      console.log(` ${this.profile.name} Knowledge Graph completed!`);
       this.printExampleQueries();
+      return report;
 
     } catch (error: any) {
       console.error(` Knowledge graph construction failed: ${error.message}`);
+      console.error(`    Resume with: npm start -- resume ${runId}`);
+      await this.ledger.finishRun('failed');
       throw error;
     }
   }
 
+  /**
+   * Processes the given papers (skipping ones already complete) in a run of their own
+   */
+  async ingest(arxivIds: string[]): Promise<RunReport> {
+    return this.runPapers('ingest', arxivIds);
+  }
+
+  /**
+   * Runs extraction again for papers already in the graph, replacing their extracted entities
+   */
+  async reextract(arxivIds: string[]): Promise<RunReport> {
+    for (const arxivId of arxivIds) {
+      if (!(await this.db.findPaperByArxivId(arxivId))) {
+        throw new Error(`Paper ${arxivId} is not in the knowledge graph`);
+      }
+    }
+    return this.runPapers('reextract', arxivIds, { reextract: true });
+  }
+
+  // Every paper in the graph, for `reextract --all`
+  async listStoredArxivIds(): Promise<string[]> {
+    return (await this.db.listPapers()).map(paper => paper.arxiv_id);
+  }
+
+  /**
+   * Picks up a previous run (the latest by default): papers that were never reached,
+   * were interrupted, or failed with retry attempts left are processed in a new run
+   */
+  async resume(runId?: string): Promise<RunReport> {
+    const previous = await this.ledger.findResumableRun(runId);
+    const unfinished = await this.ledger.unfinishedPapers(previous.id);
+
+    console.log(` Resuming run ${previous.id} (${previous.mode}, started ${previous.started_at})`);
+    return this.runPapers('resume', unfinished, { config: { resumedFrom: previous.id } });
+  }
+
+  /**
+   * Brings the graph up to date with arXiv: processes every matching paper
+   * submitted since the profile's high-water mark, and records new versions of
+   * stored papers, extracting again from those whose abstract changed. The mark only moves forward when
+   * every paper was processed, so a failed sync is repeated by the next one.
+   */
+  async sync(options: SyncOptions = {}): Promise<RunReport> {
+    const plan = await this.planSync(options);
+    const newIds = plan.newPapers.map(paper => paper.arxiv_id);
+
+    const runId = await this.ledger.startRun('sync', {
+      profile: this.profile.name,
+      ...this.extractionConfig(),
+      since: plan.since,
+      revisedSince: plan.revisedSince,
+      until: plan.until,
+      papers: newIds.length + plan.updatedPapers.length
+    });
+    console.log(` Run ${runId} (sync): ${newIds.length} new, ${plan.updatedPapers.length} updated papers since ${plan.since}`);
+
+    try {
+      const reextractIds: string[] = [];
+      for (const paper of plan.updatedPapers) {
+        const stored = await this.db.findPaperByArxivId(paper.arxiv_id);
+        if (await this.recordRevision(stored!, paper)) reextractIds.push(stored!.arxiv_id);
+      }
+
+      await this.ledger.enqueue([...newIds, ...reextractIds]);
+      await this.processPapersAtScale(newIds);
+      await this.processPapersAtScale(reextractIds, { reextract: true });
+      await this.retryFailedPapers();
+      const report = await this.finishRun();
+
+      const { failed, pending, running } = report.summary;
+      if (failed + pending + running === 0) {
+        await this.db.saveSyncState({
+          profile: this.profile.name,
+          high_water_mark: plan.highWaterMark,
+          last_synced_at: plan.until
+        });
+        console.log(` Sync mark for ${this.profile.name} moved to ${plan.highWaterMark}`);
+      } else {
+        console.log(` ${failed + pending + running} papers unfinished; sync mark for ${this.profile.name} left unchanged`);
+      }
+      return report;
+    } catch (error: any) {
+      console.error(` Run ${runId} failed: ${error.message}`);
+      await this.ledger.finishRun('failed');
+      throw error;
+    }
+  }
+
+  /**
+   * The papers sync would process, without storing anything
+   */
+  async planSync(options: SyncOptions = {}): Promise<SyncPlan> {
+    const state = await this.db.getSyncState(this.profile.name);
+    const until = new Date();
+    let since: Date;
+    if (options.since) {
+      since = new Date(options.since);
+      if (Number.isNaN(since.getTime())) {
+        throw new Error(`Invalid sync start date: ${options.since}`);
+      }
+    } else if (state) {
+      since = daysBefore(state.high_water_mark, SYNC_OVERLAP_DAYS);
+    } else {
+      // Graphs built before sync existed continue from their newest paper
+      const newest = (await this.db.listPapers())
+        .map(paper => paper.published_date)
+        .sort()
+        .pop();
+      if (!newest) {
+        throw new Error(`No sync state for profile ${this.profile.name} and no papers in the graph; pass a start date with --since`);
+      }
+      since = daysBefore(newest, SYNC_OVERLAP_DAYS);
+    }
+    const revisedSince = state && !options.since ? daysBefore(state.last_synced_at, SYNC_OVERLAP_DAYS) : since;
+
+    const keywords = options.keywords && options.keywords.length > 0 ? options.keywords : this.profile.search_keywords;
+    const domainQuery = this.arxivAgent.domainQuery(keywords);
+    console.log(` Syncing ${this.profile.name} from ${since.toISOString()}`);
+
+    const stored = new Map((await this.db.listPapers()).map(paper => [normalizeArxivId(paper.arxiv_id), paper]));
+
+    const submitted = await this.arxivAgent.searchAllPapers(
+      `${domainQuery} AND submittedDate:${arxivDateRange(since, until)}`
+    );
+    const newPapers = this.deduplicatePapers(submitted)
+      .filter(paper => !stored.has(paper.arxiv_id))
+      .filter(paper => isRelevantToDomain(this.profile, paper));
+
+    const revised = await this.arxivAgent.searchAllPapers(
+      `${domainQuery} AND lastUpdatedDate:${arxivDateRange(revisedSince, until)}`
+    );
+    const updatedPapers: ArxivPaper[] = [];
+    for (const paper of this.deduplicatePapers(revised)) {
+      const previous = stored.get(paper.arxiv_id);
+      if (previous && isNewerVersion(previous, paper)) {
+        // Keep the stored ID so the update lands on the existing paper
+        updatedPapers.push({ ...paper, arxiv_id: previous.arxiv_id });
+      }
+    }
+
+    const newest = [...submitted, ...revised]
+      .map(paper => new Date(paper.published_date))
+      .filter(date => !Number.isNaN(date.getTime()))
+      .reduce((latest, date) => (date > latest ? date : latest), since);
+    const highWaterMark = state && new Date(state.high_water_mark) > newest ? state.high_water_mark : newest.toISOString();
+
+    console.log(`    ${submitted.length} submissions, ${revised.length} revisions on arXiv`);
+    console.log(`    ${newPapers.length} new papers, ${updatedPapers.length} updated papers`);
+
+    return {
+      since: since.toISOString(),
+      revisedSince: revisedSince.toISOString(),
+      until: until.toISOString(),
+      newPapers,
+      updatedPapers,
+      highWaterMark
+    };
+  }
+
+  /**
+   * What build would do, without processing anything: the seeds and the papers
+   * discovery selects, with each paper's current state in the graph
+   */
+  async planBuild(options: BuildOptions = {}): Promise<PaperPlan[]> {
+    const { seeds, limit, keywords } = this.buildSettings(options);
+    const discovered = await this.discoverRelevantPapers(seeds, limit - seeds.length, keywords);
+    return this.planPapers([...seeds, ...discovered.map(paper => paper.arxiv_id)]);
+  }
+
+  async planPapers(arxivIds: string[]): Promise<PaperPlan[]> {
+    const plans: PaperPlan[] = [];
+    for (const arxivId of arxivIds) {
+      const job = await this.ledger.findJob(normalizeArxivId(arxivId));
+      const stored = (await this.db.findPaperByArxivId(arxivId)) !== null;
+      plans.push({ arxivId, stored, status: job?.status ?? null, stage: job?.stage ?? null });
+    }
+    return plans;
+  }
+
+  // The run resume would pick up and its unfinished papers, without closing the run
+  async planResume(runId?: string): Promise<{ runId: string; papers: PaperPlan[] }> {
+    const run = await this.ledger.findRun(runId);
+    return { runId: run.id, papers: await this.planPapers(await this.ledger.unfinishedPapers(run.id)) };
+  }
+
+  private async runPapers(
+    mode: string,
+    arxivIds: string[],
+    options: { reextract?: boolean; config?: Record<string, unknown> } = {}
+  ): Promise<RunReport> {
+    const runId = await this.ledger.startRun(mode, {
+      ...options.config,
+      ...this.extractionConfig(),
+      papers: arxivIds.length
+    });
+    console.log(` Run ${runId} (${mode}): ${arxivIds.length} papers`);
+
+    try {
+      await this.ledger.enqueue(arxivIds.map(normalizeArxivId));
+      await this.processPapersAtScale(arxivIds, { reextract: options.reextract });
+      await this.retryFailedPapers();
+      return await this.finishRun();
+    } catch (error: any) {
+      console.error(` Run ${runId} failed: ${error.message}`);
+      await this.ledger.finishRun('failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Phases 4 and 5, shared by every run
+   */
+  private async finishRun(): Promise<RunReport> {
+    // Phase 4: Knowledge graph refinement and analysis
+    console.log(` PHASE 4: Cross-paper relationship analysis`);
+    await this.analyzeKnowledgeGraphRelationships();
+
+    // Phase 5: System performance and quality reporting
+    console.log(` PHASE 5: Knowledge graph quality assessment`);
+    await this.generateComprehensiveReport();
+
+    const report: RunReport = {
+      runId: this.ledger.runId!,
+      summary: await this.ledger.summarize(),
+      stats: await this.db.getStats()
+    };
+    await this.ledger.finishRun('completed');
+    return report;
+  }
+
+  private buildSettings(options: BuildOptions): Required<BuildOptions> {
+    return {
+      seeds: options.seeds && options.seeds.length > 0 ? options.seeds : this.profile.seeds,
+      limit: options.limit ?? 50,
+      keywords: options.keywords && options.keywords.length > 0 ? options.keywords : this.profile.search_keywords
+    };
+  }
+
+  /**
+   * Re-runs failed papers until they succeed or use up the retry policy's attempts
+   */
+  private async retryFailedPapers(): Promise<void> {
+    const { maxAttempts, backoffMs } = this.ledger.retryPolicy;
+
+    for (let pass = 1; pass < maxAttempts; pass++) {
+      const retryable = await this.ledger.retryablePapers();
+      if (retryable.length === 0) return;
+
+      console.log(` Retry pass ${pass}: ${retryable.length} failed papers`);
+      await this.sleep(backoffMs * pass);
+      await this.processPapersAtScale(retryable);
+    }
+  }
+
+  // Ad-hoc processing (outside build/resume) still gets a run to record its jobs against
+  private async ensureRun(): Promise<void> {
+    if (!this.ledger.runId) {
+      await this.ledger.startRun('process', this.extractionConfig());
+    }
+  }
+
+  private extractor(): EntityExtractor {
+    return this.selfConsistencyAgent ?? this.extractionAgent;
+  }
+
+  // How the run's papers are extracted and validated, recorded in its config
+  private extractionConfig(): Record<string, unknown> {
+    const extraction = this.selfConsistencyAgent
+      ? { samples: this.selfConsistencyAgent.samples, variants: this.selfConsistencyAgent.describeVariants() }
+      : { prompt: this.extractionAgent.template.name };
+    return this.entailmentModel ? { ...extraction, entailment: this.entailmentModel } : extraction;
+  }
+
+  /**
+   * Stores a newer arXiv version of a paper and what changed in it. True when the
+   * abstract changed, which makes the paper's extraction out of date.
+   */
+  private async recordRevision(stored: StoredPaper, latest: Paper): Promise<boolean> {
+    const changes = paperChanges(stored, latest);
+    await this.db.revisePaper(stored.id, { ...latest, arxiv_id: stored.arxiv_id }, changes);
+    console.log(`    ${stored.arxiv_id} v${stored.version ?? 1} -> v${latest.version ?? '?'}: ` +
+      (changes.length > 0 ? `${changes.map(change => change.field).join(', ')} changed` : 'no metadata changes'));
+    return changes.some(change => change.field === 'abstract');
+  }
+
+  private reached(job: PaperJob, stage: PipelineStage): boolean {
+    return job.stage !== null && PIPELINE_STAGES.indexOf(job.stage) >= PIPELINE_STAGES.indexOf(stage);
+  }
+
+  // Stored before the entities, which refer to them by extraction_id
+  private async recordExtractionCalls(paperId: string, job: PaperJob, calls: ExtractionCall[]): Promise<void> {
+    await this.db.insertExtractionRecords(calls.map(call => ({ ...call, paper_id: paperId, run_id: job.run_id })));
+  }
+
   /**
    * Intelligent paper discovery using multiple strategies
    */
-  private async discoverRelevantPapers(limit: number): Promise<ArxivPaper[]> {
+  private async discoverRelevantPapers(seeds: string[], limit: number, keywords: string[]): Promise<ArxivPaper[]> {
     console.log(`    Using multiple discovery strategies...`);
     
     // Strategy 1: Direct keyword search
-    const keywordPapers = await this.arxivAgent.searchRelatedPapers(
-      '2308.04079',
-      Math.floor(limit * 0.6),
-      ['gaussian splatting', '3DGS', 'radiance field', 'novel view synthesis']
-    );
+    const keywordPapers = await this.arxivAgent.searchRelatedPapers(seeds, Math.floor(limit * 0.6), keywords);
 
-    // Strategy 2: Citation-based discovery (simulated)
-    const citationPapers = await this.discoverCitationPapers(limit - keywordPapers.length);
+    // Strategy 2: References and citations of the seeds and the papers already in the graph
+    const citationPapers = await this.discoverCitationPapers(seeds, keywordPapers, limit - keywordPapers.length);
 
-    // Strategy 3: Semantic similarity (simulated)
-    const semanticPapers = await this.discoverSemanticPapers(limit - keywordPapers.length - citationPapers.length);
+    // Strategy 3: Recent arXiv papers in the graph's categories, ranked by embedding similarity
+    const semanticPapers = await this.discoverSemanticPapers(
+      [...keywordPapers, ...citationPapers],
+      limit - keywordPapers.length - citationPapers.length
+    );
 
     const allPapers = [...keywordPapers, ...citationPapers, ...semanticPapers];
     
@@ -178,46 +715,25 @@ export class PipelineOrchestrator {
   }
 
   /**
-   * Scalable processing with proper error handling and recovery
+   * Scalable processing with proper error handling and recovery. Papers run on a
+   * worker pool; arXiv and LLM calls are paced by their shared rate limiters.
    */
-  private async processPapersAtScale(
-    papers: ArxivPaper[], 
-    processed: string[], 
-    failed: string[]
-  ): Promise<void> {
-    const totalBatches = Math.ceil(papers.length / this.BATCH_SIZE);
-    
-    for (let batchIndex = 0; batchIndex < papers.length; batchIndex += this.BATCH_SIZE) {
-      const batch = papers.slice(batchIndex, batchIndex + this.BATCH_SIZE);
-      const batchNumber = Math.floor(batchIndex / this.BATCH_SIZE) + 1;
-      
-      console.log(` Batch ${batchNumber}/${totalBatches}: ${batch.map(p => p.arxiv_id).join(', ')}`);
-      
-      // Process batch with limited concurrency
-      const processingPromises = batch.map(paper =>
-        this.processPaper(paper.arxiv_id)
-          .then(success => {
-            if (success) processed.push(paper.arxiv_id);
-            else failed.push(paper.arxiv_id);
-          })
-          .catch(error => {
-            console.error(`    Unhandled error for ${paper.arxiv_id}:`, error.message);
-            failed.push(paper.arxiv_id);
-          })
-      );
-
-      // Wait for batch completion with timeout
-      await Promise.allSettled(processingPromises);
-      
-      // Adaptive rate limiting based on failure rate
-      const failureRate = failed.length / (processed.length + failed.length);
-      const delay = failureRate > 0.3 ? 5000 : 2000; // Increase delay if high failure rate
-      
-      if (batchIndex + this.BATCH_SIZE < papers.length) {
-        console.log(`   ⏳ Adaptive delay: ${delay}ms (failure rate: ${(failureRate * 100).toFixed(1)}%)`);
-        await this.sleep(delay);
+  private async processPapersAtScale(arxivIds: string[], options: { reextract?: boolean } = {}): Promise<void> {
+    let done = 0;
+    let failed = 0;
+
+    // Outcomes are recorded in the job ledger; the counters are only for progress output
+    await this.scheduler.run(arxivIds, async arxivId => {
+      let success = false;
+      try {
+        success = await this.processPaper(arxivId, options);
+      } catch (error: any) {
+        console.error(`    Unhandled error for ${arxivId}:`, error.message);
       }
-    }
+      done++;
+      if (!success) failed++;
+      console.log(` Progress: ${done}/${arxivIds.length} papers (${failed} not integrated)`);
+    });
   }
 
   /**
@@ -226,24 +742,27 @@ export class PipelineOrchestrator {
   private async analyzeKnowledgeGraphRelationships(): Promise<void> {
     console.log(`    Analyzing semantic relationships across papers...`);
     
-    // This would implement cross-paper relationship discovery
-    // For example: "Paper B improves_on Paper A by introducing concept X"
+    // Papers processed early had fewer neighbours to compare against, so re-run every pair
+    const edgeCount = await this.relationshipAnalyzer.analyzeGraph(this.db);
     
-    console.log(`    Cross-paper relationships established`);
+    console.log(`    Cross-paper relationships established: ${edgeCount} edges`);
   }
 
   /**
    * Comprehensive system reporting
    */
-  private async generateComprehensiveReport(processed: string[], failed: string[]): Promise<void> {
+  private async generateComprehensiveReport(): Promise<void> {
     const stats = await this.db.getStats();
-    const successRate = (processed.length / (processed.length + failed.length)) * 100;
+    const jobs = await this.ledger.summarize();
+    const attempted = jobs.completed + jobs.failed;
+    const successRate = attempted > 0 ? (jobs.completed / attempted) * 100 : 0;
     
     console.log('KNOWLEDGE GRAPH QUALITY REPORT');
     console.log('================================');
-    console.log(`     Processing Statistics:`);
-    console.log(`      • Successfully processed: ${processed.length} papers`);
-    console.log(`      • Failed processing: ${failed.length} papers`);
+    console.log(`     Processing Statistics (run ${this.ledger.runId}):`);
+    console.log(`      • Successfully processed: ${jobs.completed} papers`);
+    console.log(`      • Failed processing: ${jobs.failed} papers`);
+    console.log(`      • Skipped as irrelevant: ${jobs.skipped} papers`);
     console.log(`      • Success rate: ${successRate.toFixed(1)}%`);
     
     console.log(`\n     Knowledge Graph Contents:`);
@@ -255,8 +774,9 @@ export class PipelineOrchestrator {
     console.log(`      • Metrics: ${stats.metrics}`);
     
     console.log(`\n     Domain Coverage:`);
-    console.log(`      • Gaussian Splatting core concepts: ${this.countDomainConcepts(stats)}`);
+    console.log(`      • ${this.profile.name} core concepts: ${this.countDomainConcepts(stats)}`);
     console.log(`      • Improvement relationships: ${await this.countImprovementRelationships()}`);
+    console.log(`      • Citation links: ${await this.db.countPaperRelationships('cites')}`);
     console.log(`      • Method introductions: ${await this.countMethodIntroductions()}`);
   }
 
@@ -266,11 +786,11 @@ export class PipelineOrchestrator {
   private printExampleQueries(): void {
     console.log(' EXAMPLE KNOWLEDGE GRAPH QUERIES');
     console.log('==================================');
-    console.log(`   1. Find papers that improve on Gaussian Splatting:`);
+    console.log(`   1. Find papers that improve on ${this.profile.name}:`);
     console.log(`      SELECT p.title, r.evidence FROM papers p`);
     console.log(`      JOIN relationships r ON p.id = r.source_paper_id`);
     console.log(`      WHERE r.relationship_type = 'improves_on'`);
-    console.log(`      AND r.target_concept = '3D Gaussian Splatting';`);
+    console.log(`      AND r.target_concept = '${this.profile.name}';`);
     
     console.log(`\n   2. Most frequently mentioned concepts:`);
     console.log(`      SELECT c.name, c.category, COUNT(*) as frequency`);
@@ -284,11 +804,19 @@ export class PipelineOrchestrator {
     console.log(`      WHERE pm.introduces = true;`);
   }
 
-  // Helper methods for intelligent processing
-  private isRelevantToGaussianSplatting(paper: Paper): boolean {
-    const content = `${paper.title} ${paper.abstract}`.toLowerCase();
-    const gsKeywords = ['gaussian', 'splatting', '3dgs', 'radiance field', 'novel view synthesis'];
-    return gsKeywords.some(keyword => content.includes(keyword));
+  /**
+   * Full text is best-effort: a missing or unparseable PDF falls back to the abstract
+   */
+  private async loadFullText(paper: Paper): Promise<FullTextDocument | null> {
+    if (!this.fullTextAgent) return null;
+
+    console.log(`    FullTextAgent loading PDF...`);
+    try {
+      return await this.fullTextAgent.fetchFullText(paper);
+    } catch (error: any) {
+      console.error(`    Full text unavailable, using abstract only: ${error.message}`);
+      return null;
+    }
   }
 
   private async processPaperWithDeepAnalysis(arxivId: string): Promise<boolean> {
@@ -296,16 +824,107 @@ export class PipelineOrchestrator {
     return await this.processPaper(arxivId);
   }
 
-  private async discoverCitationPapers(limit: number): Promise<ArxivPaper[]> {
-    // Simulated citation discovery - in real implementation, use citation APIs
-    console.log(`    Simulating citation-based discovery...`);
-    return [];
+  private async discoverCitationPapers(seeds: string[], keywordPapers: ArxivPaper[], limit: number): Promise<ArxivPaper[]> {
+    if (!this.citationAgent) {
+      console.log(`    No citation provider configured, skipping citation discovery`);
+      return [];
+    }
+
+    const stored = (await this.db.listPapers()).map(paper => paper.arxiv_id);
+    const sources = [...seeds, ...stored.filter(arxivId => !seeds.includes(arxivId))];
+    const exclude = new Set([...stored, ...keywordPapers.map(paper => paper.arxiv_id)]);
+    return this.citationAgent.discoverPapers(sources, exclude, limit);
+  }
+
+  /**
+   * Citation edges are best-effort: a citation API outage must not fail the paper
+   */
+  private async linkCitations(paperId: string, arxivId: string): Promise<void> {
+    if (!this.citationAgent) return;
+
+    try {
+      const linked = await this.citationAgent.linkPaper(paperId, arxivId, this.db);
+      console.log(`    Citation links to papers in the graph: ${linked}`);
+    } catch (error: any) {
+      console.error(`    Citation links unavailable: ${error.message}`);
+    }
+  }
+
+  /**
+   * Candidates come from the newest arXiv papers in the graph's two most common
+   * categories; those similar enough to the papers already stored are kept, best first.
+   * This finds work that never uses the domain keywords.
+   */
+  private async discoverSemanticPapers(alreadyFound: ArxivPaper[], limit: number): Promise<ArxivPaper[]> {
+    if (!this.semanticIndex) {
+      console.log(`    No embedding provider configured, skipping semantic discovery`);
+      return [];
+    }
+    if (limit <= 0) return [];
+
+    try {
+      await this.semanticIndex.backfillPapers();
+      const stored = await this.db.listPapers();
+      const categories = this.topCategories(stored, 2);
+      if (categories.length === 0) return [];
+
+      const exclude = new Set([...stored, ...alreadyFound].map(paper => paper.arxiv_id));
+      const candidates = (await this.arxivAgent.searchPapers(
+        categories.map(category => `cat:${category}`).join(' OR '),
+        limit * this.SEMANTIC_CANDIDATES_PER_SLOT
+      )).filter(paper => !exclude.has(paper.arxiv_id));
+
+      const scores = await this.semanticIndex.relevance(candidates);
+      return candidates
+        .map((paper, i) => ({ paper, score: scores[i] }))
+        .filter(({ score }) => score >= this.MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ paper }) => paper);
+    } catch (error: any) {
+      console.error(`    Semantic discovery unavailable: ${error.message}`);
+      return [];
+    }
+  }
+
+  private topCategories(papers: Paper[], count: number): string[] {
+    const counts = new Map<string, number>();
+    for (const paper of papers) {
+      for (const category of paper.categories) {
+        counts.set(category, (counts.get(category) ?? 0) + 1);
+      }
+    }
+    return [...counts].sort((a, b) => b[1] - a[1]).slice(0, count).map(([category]) => category);
+  }
+
+  /**
+   * Papers without a domain keyword are still kept when they read like the graph.
+   * With no embeddings, or an empty graph, only keywords count.
+   */
+  private async isSemanticallyRelevant(paper: Paper): Promise<boolean> {
+    if (!this.semanticIndex) return false;
+
+    try {
+      const [score] = await this.semanticIndex.relevance([paper]);
+      console.log(`    Similarity to the graph: ${score.toFixed(3)} (threshold ${this.MIN_SIMILARITY})`);
+      return score >= this.MIN_SIMILARITY;
+    } catch (error: any) {
+      console.error(`    Similarity check unavailable: ${error.message}`);
+      return false;
+    }
   }
 
-  private async discoverSemanticPapers(limit: number): Promise<ArxivPaper[]> {
-    // Simulated semantic discovery
-    console.log(`    Simulating semantic similarity discovery...`);
-    return [];
+  /**
+   * Embeddings are best-effort like citation links; `similar` backfills what is missing
+   */
+  private async indexSemantics(paperId: string, paper: Paper, concepts: Array<{ id: string; concept: Concept }>): Promise<void> {
+    if (!this.semanticIndex) return;
+
+    try {
+      await this.semanticIndex.indexPaper(paperId, paper, concepts);
+    } catch (error: any) {
+      console.error(`    Embeddings unavailable: ${error.message}`);
+    }
   }
 
   private deduplicatePapers(papers: ArxivPaper[]): ArxivPaper[] {
@@ -319,60 +938,119 @@ export class PipelineOrchestrator {
 
   private prioritizePapersByRelevance(papers: ArxivPaper[], limit: number): ArxivPaper[] {
     return papers
-      .sort((a, b) => this.calculateRelevanceScore(b) - this.calculateRelevanceScore(a))
+      .sort((a, b) => domainRelevanceScore(this.profile, b) - domainRelevanceScore(this.profile, a))
       .slice(0, limit);
   }
 
-  private calculateRelevanceScore(paper: ArxivPaper): number {
-    let score = 0;
-    const content = `${paper.title} ${paper.abstract}`.toLowerCase();
-    
-    if (content.includes('gaussian splatting')) score += 3;
-    if (content.includes('3dgs')) score += 2;
-    if (content.includes('radiance field')) score += 2;
-    if (content.includes('real-time')) score += 1;
-    
-    return score;
-  }
+  // Returns the stored concepts with the ids they resolved to
+  private async storeKnowledgeGraph(paperId: string, extraction: ExtractionResult): Promise<Array<{ id: string; concept: Concept }>> {
+    console.log(`    Storing REAL knowledge graph data...`);
 
-  // In the storeKnowledgeGraph method, remove any mock fallbacks:
+    let storedCount = 0;
+    const storedConcepts: Array<{ id: string; concept: Concept }> = [];
+    // Entities under the threshold go to the review queue instead
+    const borderline: ReviewCandidate[] = [];
+    // Vote shares from self-consistency sampling are not model confidences: a majority of the samples is enough
+    const voted = this.selfConsistencyAgent !== null;
+    const isBorderline = (confidence: number) =>
+      voted ? !isMajority(confidence) : confidence < this.MIN_CONFIDENCE_THRESHOLD;
+    const belowThreshold = (confidence: number) => [voted
+      ? `found by ${confidence} of the samples, not a majority`
+      : `confidence ${confidence} below the storage threshold of ${this.MIN_CONFIDENCE_THRESHOLD}`];
 
-private async storeKnowledgeGraph(paperId: string, extraction: ExtractionResult): Promise<void> {
-  console.log(`    Storing REAL knowledge graph data...`);
-  
-  let storedCount = 0;
+    // Store concepts - REAL storage only
+    for (const concept of extraction.concepts) {
+      if (isBorderline(concept.confidence)) {
+        borderline.push({ kind: 'concept', entity: concept, reasons: belowThreshold(concept.confidence) });
+      } else {
+        try {
+          const { id: conceptId } = await this.conceptResolver.resolveConcept(concept);
+          await this.db.linkPaperConcept(paperId, conceptId, 'mentions', concept.confidence, concept.section, {
+            extraction_id: concept.extraction_id
+          });
+          storedConcepts.push({ id: conceptId, concept });
+          storedCount++;
+          console.log(`    Stored concept: "${concept.name}"`);
+        } catch (error: any) {
+          console.error(`  Failed to store concept "${concept.name}": ${error.message}`);
+          // Don't fail the whole process, just log and continue
+        }
+      }
+    }
+
+    // Store relationships - REAL storage only
+    for (const relationship of extraction.relationships) {
+      if (isBorderline(relationship.confidence)) {
+        borderline.push({ kind: 'relationship', entity: relationship, reasons: belowThreshold(relationship.confidence) });
+      } else {
+        try {
+          const target = await this.conceptResolver.findConcept(relationship.target_concept);
+          await this.db.insertRelationship(paperId, relationship, target?.id);
+          storedCount++;
+          console.log(`    Stored relationship: ${relationship.relationship_type} -> ${relationship.target_concept}`);
+        } catch (error: any) {
+          console.error(`   Failed to store relationship: ${error.message}`);
+          // Don't fail the whole process, just log and continue
+        }
+      }
+    }
 
-  // Store concepts - REAL storage only
-  for (const concept of extraction.concepts) {
-    if (concept.confidence >= 0.7) {
+    // Store methods, flagging the ones this paper introduces
+    const introducedTargets = extraction.relationships
+      .filter(relationship => relationship.relationship_type === 'introduces')
+      .map(relationship => relationship.target_concept);
+
+    for (const method of extraction.methods) {
+      if (isBorderline(method.confidence)) {
+        borderline.push({ kind: 'method', entity: method, reasons: belowThreshold(method.confidence) });
+      } else {
+        try {
+          const methodId = await this.db.upsertMethod(method);
+          await this.db.linkPaperMethod(paperId, methodId, {
+            introduces: !method.is_baseline && introducedTargets.some(target => conceptNameSimilarity(target, method.name) >= 0.88),
+            is_baseline: method.is_baseline,
+            confidence: method.confidence,
+            section: method.section,
+            extraction_id: method.extraction_id
+          });
+          storedCount++;
+          console.log(`    Stored method: "${method.name}"${method.is_baseline ? ' (baseline)' : ''}`);
+        } catch (error: any) {
+          console.error(`   Failed to store method "${method.name}": ${error.message}`);
+        }
+      }
+    }
+
+    // Datasets and metrics carry no confidence of their own
+    for (const dataset of extraction.datasets) {
       try {
-        const conceptId = await this.db.insertConcept(concept);
-        await this.db.linkPaperConcept(paperId, conceptId, 'mentions', concept.confidence);
+        const datasetId = await this.db.upsertDataset(dataset);
+        await this.db.linkPaperDataset(paperId, datasetId, dataset.section, dataset.extraction_id);
         storedCount++;
-        console.log(`    Stored concept: "${concept.name}"`);
+        console.log(`    Stored dataset: "${dataset.name}"`);
       } catch (error: any) {
-        console.error(`  Failed to store concept "${concept.name}": ${error.message}`);
-        // Don't fail the whole process, just log and continue
+        console.error(`   Failed to store dataset "${dataset.name}": ${error.message}`);
       }
     }
-  }
 
-  // Store relationships - REAL storage only
-  for (const relationship of extraction.relationships) {
-    if (relationship.confidence >= 0.7) {
+    for (const metric of extraction.metrics) {
       try {
-        await this.db.insertRelationship(paperId, relationship);
+        const metricId = await this.db.upsertMetric(metric);
+        await this.db.linkPaperMetric(paperId, metricId, metric.section, metric.extraction_id);
         storedCount++;
-        console.log(`    Stored relationship: ${relationship.relationship_type} -> ${relationship.target_concept}`);
+        console.log(`    Stored metric: "${metric.name}"`);
       } catch (error: any) {
-        console.error(`   Failed to store relationship: ${error.message}`);
-        // Don't fail the whole process, just log and continue
+        console.error(`   Failed to store metric "${metric.name}": ${error.message}`);
       }
     }
-  }
 
-  console.log(`   Stored ${storedCount} knowledge entities`);
-}
+    console.log(`   Stored ${storedCount} knowledge entities`);
+    const queued = await this.reviewQueue.enqueue(paperId, borderline);
+    if (queued > 0) {
+      console.log(`   ${queued} low-confidence entities queued for review`);
+    }
+    return storedConcepts;
+  }
 
   private countDomainConcepts(stats: DatabaseStats): number {
     // Simplified domain concept counting
@@ -380,22 +1058,123 @@ private async storeKnowledgeGraph(paperId: string, extraction: ExtractionResult)
   }
 
   private async countImprovementRelationships(): Promise<number> {
-    // This would query the database for improvement relationships
-    return 5; // Mock value
+    return await this.db.countPaperRelationships('improves_on');
   }
 
   private async countMethodIntroductions(): Promise<number> {
-    // This would query the database for method introductions
-    return 3; // Mock value
+    return await this.db.countMethodIntroductions();
   }
 
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Scores extraction and validation against a hand-annotated gold set. Nothing is
+   * written to the graph.
+   */
+  async evaluateExtraction(gold: GoldSet, options: { threshold?: number } = {}): Promise<EvalReport> {
+    console.log(` Evaluating extraction on ${gold.papers.length} papers from ${gold.name} (${this.llm.name}: ${this.llm.config.model})`);
+    const evaluator = new ExtractionEvaluator(this.extractor(), this.validationAgent, options.threshold);
+    return evaluator.run(gold, item => this.evalSource(item), {
+      provider: this.llm.name,
+      model: this.llm.config.model,
+      profile: this.profile.name
+    });
+  }
+
+  /**
+   * Runs two extraction prompts over the same papers and compares what each
+   * extracts and how much of it passes validation. Nothing is written to the graph.
+   */
+  async comparePrompts(
+    templates: [PromptTemplate, PromptTemplate],
+    papers: Array<Pick<GoldPaper, 'arxiv_id' | 'title' | 'abstract'>>,
+    options: { threshold?: number } = {}
+  ): Promise<PromptComparisonReport> {
+    console.log(` Comparing prompts ${templates[0].name} and ${templates[1].name} on ${papers.length} papers (${this.llm.name}: ${this.llm.config.model})`);
+    const comparison = new PromptComparison(
+      [new ExtractionAgent(this.llm, this.profile, templates[0]), new ExtractionAgent(this.llm, this.profile, templates[1])],
+      this.validationAgent,
+      options.threshold
+    );
+    return comparison.run(papers, item => this.evalSource(item), {
+      provider: this.llm.name,
+      model: this.llm.config.model,
+      profile: this.profile.name
+    });
+  }
+
+  // The gold file's own text, else the stored paper, else arXiv
+  private async evalSource(item: Pick<GoldPaper, 'arxiv_id' | 'title' | 'abstract'>): Promise<EvalSource> {
+    let paper: Paper | null = null;
+    if (item.title && item.abstract) {
+      paper = {
+        arxiv_id: item.arxiv_id,
+        title: item.title,
+        authors: [],
+        abstract: item.abstract,
+        published_date: '',
+        pdf_url: '',
+        categories: []
+      };
+    }
+    paper ??= await this.db.findPaperByArxivId(item.arxiv_id);
+    paper ??= await this.arxivAgent.fetchPaper(item.arxiv_id);
+    return { paper, fullText: await this.loadFullText(paper) };
+  }
+
+  /**
+   * Answers a question from the stored graph, citing papers and their evidence
+   */
+  async ask(question: string, options: AskOptions = {}): Promise<GraphAnswer> {
+    return this.questionAgent.ask(question, options);
+  }
+
+  async planAnswer(question: string, options: AskOptions = {}): Promise<Pick<GraphAnswer, 'question' | 'matchedEntities' | 'retrievedPapers'>> {
+    return this.questionAgent.plan(question, options);
+  }
+
   async close(): Promise<void> {
     console.log(' Shutting down agentic system...');
+    // Closes the ad-hoc run opened by processPaper, if any
+    await this.ledger.finishRun('completed');
     await this.db.close();
     console.log('   All agents stopped gracefully');
   }
 }
+
+function daysBefore(date: string, days: number): Date {
+  const shifted = new Date(date);
+  if (Number.isNaN(shifted.getTime())) {
+    throw new Error(`Invalid date in sync state: ${date}`);
+  }
+  shifted.setUTCDate(shifted.getUTCDate() - days);
+  return shifted;
+}
+
+// arXiv search date range, in the YYYYMMDDHHMM (GMT) form its API expects
+function arxivDateRange(from: Date, to: Date): string {
+  const format = (date: Date) => date.toISOString().slice(0, 16).replace(/[-T:]/g, '');
+  return `[${format(from)} TO ${format(to)}]`;
+}
+
+// Papers stored without a version count as revised when their text differs
+function isNewerVersion(stored: Paper, latest: Paper): boolean {
+  if (stored.version != null && latest.version != null) {
+    return latest.version > stored.version;
+  }
+  return stored.title !== latest.title || stored.abstract !== latest.abstract;
+}
+
+function paperChanges(before: Paper, after: Paper): PaperChange[] {
+  const fields: Array<[PaperChange['field'], string, string]> = [
+    ['title', before.title, after.title],
+    ['authors', before.authors.join('; '), after.authors.join('; ')],
+    ['abstract', before.abstract, after.abstract],
+    ['categories', before.categories.join('; '), after.categories.join('; ')]
+  ];
+  return fields
+    .filter(([, previous, latest]) => previous !== latest)
+    .map(([field, previous, latest]) => ({ field, before: previous, after: latest }));
+}
@@ -0,0 +1,209 @@
+import { randomUUID } from 'crypto';
+import type { GraphStore } from '../database/graphStore.js';
+import type { ExtractionResult, JobStatus, PaperJob, PipelineRun, PipelineStage } from '../types.js';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['fetched', 'extracted', 'validated', 'stored', 'analyzed'];
+
+export interface RetryPolicy {
+  // Attempts per paper, counted across runs, before a failure is left for manual attention
+  maxAttempts: number;
+  // Delay before each retry pass, multiplied by the pass number
+  backoffMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 3, backoffMs: 5000 };
+
+export type RunSummary = Record<JobStatus, number> & { total: number };
+
+/**
+ * Records which stage every paper reached in a run, so an interrupted or partly
+ * failed run can be resumed without repeating finished work.
+ */
+export class JobLedger {
+  private run: PipelineRun | null = null;
+
+  constructor(
+    private store: GraphStore,
+    readonly retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ) {}
+
+  get runId(): string | null {
+    return this.run?.id ?? null;
+  }
+
+  async startRun(mode: string, config: Record<string, unknown> = {}): Promise<string> {
+    this.run = {
+      id: randomUUID(),
+      mode,
+      status: 'running',
+      config,
+      started_at: now(),
+      finished_at: null
+    };
+    await this.store.createRun(this.run);
+    return this.run.id;
+  }
+
+  async finishRun(status: 'completed' | 'failed'): Promise<void> {
+    if (!this.run) return;
+    await this.store.finishRun(this.run.id, status, now());
+    this.run = null;
+  }
+
+  // The given run, or the most recent
+  async findRun(runId?: string): Promise<PipelineRun> {
+    const run = runId ? await this.store.getRun(runId) : await this.store.getLatestRun();
+    if (!run) {
+      throw new Error(runId ? `Run not found: ${runId}` : 'No previous run to resume');
+    }
+    return run;
+  }
+
+  /**
+   * The run to resume (see findRun). A run still marked running was interrupted
+   * and is closed as failed.
+   */
+  async findResumableRun(runId?: string): Promise<PipelineRun> {
+    const run = await this.findRun(runId);
+    if (run.status === 'running') {
+      await this.store.finishRun(run.id, 'failed', now());
+      run.status = 'failed';
+    }
+    return run;
+  }
+
+  /**
+   * Papers of a run that never finished: pending, interrupted, or failed with attempts left
+   */
+  async unfinishedPapers(runId: string): Promise<string[]> {
+    const jobs = await this.store.listPaperJobs(runId);
+    return jobs
+      .filter(job => job.status === 'pending' || job.status === 'running' || this.canRetry(job))
+      .map(job => job.arxiv_id);
+  }
+
+  async retryablePapers(): Promise<string[]> {
+    const jobs = await this.store.listPaperJobs(this.requireRun());
+    return jobs.filter(job => this.canRetry(job)).map(job => job.arxiv_id);
+  }
+
+  canRetry(job: PaperJob): boolean {
+    return job.status === 'failed' && job.attempts < this.retryPolicy.maxAttempts;
+  }
+
+  // Latest state of the paper in any run
+  async findJob(arxivId: string): Promise<PaperJob | null> {
+    return this.store.findLatestPaperJob(arxivId);
+  }
+
+  /**
+   * Records papers this run intends to process, so they survive a crash before being reached
+   */
+  async enqueue(arxivIds: string[]): Promise<void> {
+    for (const arxivId of arxivIds) {
+      const prior = await this.store.findLatestPaperJob(arxivId);
+      if (prior?.status === 'completed') continue;
+      if (prior?.run_id === this.requireRun()) continue;
+      await this.save({ ...this.carryOver(arxivId, prior), status: 'pending' });
+    }
+  }
+
+  /**
+   * Starts another attempt at a paper, picking up the stage and extraction of its latest job
+   */
+  async beginAttempt(arxivId: string): Promise<PaperJob> {
+    const prior = await this.store.findLatestPaperJob(arxivId);
+    const job: PaperJob = {
+      ...this.carryOver(arxivId, prior),
+      status: 'running',
+      attempts: (prior?.attempts ?? 0) + 1
+    };
+    await this.save(job);
+    return job;
+  }
+
+  /**
+   * Starts a paper over from its stored record, discarding earlier stages and attempts
+   */
+  async restart(arxivId: string, paperId: string): Promise<PaperJob> {
+    const job: PaperJob = {
+      ...this.carryOver(arxivId, null),
+      paper_id: paperId,
+      stage: 'fetched',
+      status: 'running',
+      attempts: 1
+    };
+    await this.save(job);
+    return job;
+  }
+
+  async markStage(
+    job: PaperJob,
+    stage: PipelineStage,
+    updates: { paperId?: string; extraction?: ExtractionResult } = {}
+  ): Promise<void> {
+    job.stage = stage;
+    if (updates.paperId !== undefined) job.paper_id = updates.paperId;
+    if (updates.extraction !== undefined) job.extraction = updates.extraction;
+    await this.save(job);
+  }
+
+  async markCompleted(job: PaperJob): Promise<void> {
+    job.status = 'completed';
+    job.last_error = null;
+    // The extraction is in the graph now; no need to keep a second copy
+    job.extraction = null;
+    await this.save(job);
+  }
+
+  async markSkipped(job: PaperJob, reason: string): Promise<void> {
+    job.status = 'skipped';
+    job.last_error = reason;
+    await this.save(job);
+  }
+
+  async markFailed(job: PaperJob, error: string): Promise<void> {
+    job.status = 'failed';
+    job.last_error = error;
+    await this.save(job);
+  }
+
+  async summarize(runId: string = this.requireRun()): Promise<RunSummary> {
+    const summary: RunSummary = { pending: 0, running: 0, completed: 0, failed: 0, skipped: 0, total: 0 };
+    for (const job of await this.store.listPaperJobs(runId)) {
+      summary[job.status]++;
+      summary.total++;
+    }
+    return summary;
+  }
+
+  private carryOver(arxivId: string, prior: PaperJob | null): PaperJob {
+    return {
+      run_id: this.requireRun(),
+      arxiv_id: arxivId,
+      paper_id: prior?.paper_id ?? null,
+      stage: prior?.stage ?? null,
+      status: 'pending',
+      attempts: prior?.attempts ?? 0,
+      last_error: prior?.last_error ?? null,
+      extraction: prior?.extraction ?? null,
+      updated_at: now()
+    };
+  }
+
+  private async save(job: PaperJob): Promise<void> {
+    job.updated_at = now();
+    await this.store.upsertPaperJob(job);
+  }
+
+  private requireRun(): string {
+    if (!this.run) {
+      throw new Error('No pipeline run in progress');
+    }
+    return this.run.id;
+  }
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
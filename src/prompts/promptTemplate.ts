@@ -0,0 +1,72 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+
+export const PROMPTS_DIR = 'prompts';
+export const DEFAULT_PROMPT_TEMPLATE = 'extraction-v1';
+
+/**
+ * What an extraction template can refer to as {{name}}
+ */
+export const PROMPT_VARIABLES = {
+  field: 'research field of the domain profile',
+  focus: 'prompt_focus of the domain profile',
+  categories: 'concept categories of the domain profile, joined with |',
+  title: 'paper title',
+  authors: 'paper authors, comma separated',
+  abstract: 'paper abstract',
+  source_label: '"abstract", or the section being extracted from, e.g. "method section"',
+  source_text: 'text being extracted from; sections too long for the context window are extracted in parts',
+  source: 'ABSTRACT: ..., followed by the section and an instruction to keep to it when extracting from a section'
+} as const;
+
+export type PromptVariable = keyof typeof PROMPT_VARIABLES;
+
+export interface PromptTemplate {
+  // File name without extension; recorded as the prompt version of every call
+  name: string;
+  file: string;
+  text: string;
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_]+)\s*\}\}/g;
+
+/**
+ * Reads an extraction prompt template given by name (prompts/<name>.txt, relative
+ * to the working directory) or by path to a text file
+ */
+export function loadPromptTemplate(nameOrPath: string = DEFAULT_PROMPT_TEMPLATE): PromptTemplate {
+  const file = nameOrPath.endsWith('.txt') || nameOrPath.includes('/')
+    ? nameOrPath
+    : join(PROMPTS_DIR, `${nameOrPath}.txt`);
+  if (!existsSync(file)) {
+    const available = listPromptTemplates();
+    throw new Error(`Prompt template not found: ${file}${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`);
+  }
+
+  // The newline ending the file is not part of the prompt
+  const text = readFileSync(file, 'utf-8').replace(/\r?\n$/, '');
+  const unknown = [...text.matchAll(PLACEHOLDER)]
+    .map(([, variable]) => variable)
+    .filter(variable => !(variable in PROMPT_VARIABLES));
+  if (unknown.length > 0) {
+    throw new Error(`Prompt template ${file}: unknown variable ${[...new Set(unknown)].map(v => `{{${v}}}`).join(', ')} ` +
+      `(known: ${Object.keys(PROMPT_VARIABLES).join(', ')})`);
+  }
+  if (text.trim() === '') {
+    throw new Error(`Prompt template ${file} is empty`);
+  }
+  return { name: basename(file, extname(file)), file, text };
+}
+
+// Names of the templates in the prompts directory
+export function listPromptTemplates(): string[] {
+  if (!existsSync(PROMPTS_DIR)) return [];
+  return readdirSync(PROMPTS_DIR)
+    .filter(file => file.endsWith('.txt'))
+    .map(file => basename(file, '.txt'))
+    .sort();
+}
+
+export function renderPromptTemplate(template: PromptTemplate, values: Record<PromptVariable, string>): string {
+  return template.text.replace(PLACEHOLDER, (_, variable: PromptVariable) => values[variable]);
+}
@@ -0,0 +1,259 @@
+import type { GraphStore } from '../database/graphStore.js';
+import { JobLedger, RunSummary } from '../pipeline/jobLedger.js';
+import { conceptNameSimilarity, normalizeConceptName } from '../resolution/conceptResolver.js';
+import type {
+  ConceptPaperLink,
+  DatabaseStats,
+  ExtractionRecord,
+  PaperConceptLink,
+  PaperRelationshipType,
+  PaperVersion,
+  PipelineRun,
+  Relationship,
+  ReviewItem,
+  ReviewKind,
+  ReviewStatus,
+  StoredConcept,
+  StoredPaper
+} from '../types.js';
+
+export const PAPER_RELATIONSHIP_TYPES: PaperRelationshipType[] = ['improves_on', 'extends', 'compares', 'builds_on', 'cites'];
+
+export interface PaperHit {
+  arxiv_id: string;
+  title: string;
+  published_date: string;
+  score: number;
+}
+
+export interface ConceptHit extends StoredConcept {
+  score: number;
+}
+
+export interface SearchResults {
+  query: string;
+  papers: PaperHit[];
+  concepts: ConceptHit[];
+}
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface PaperSummary {
+  arxiv_id: string;
+  title: string;
+  published_date: string;
+}
+
+export interface PaperDetail extends StoredPaper {
+  concepts: PaperConceptLink[];
+  relationships: Relationship[];
+}
+
+// A paper-to-paper edge seen from one end; `out` means the given paper is the source
+export interface PaperNeighbor {
+  relationship_type: PaperRelationshipType;
+  direction: 'out' | 'in';
+  confidence: number;
+  evidence: string;
+  paper: PaperSummary;
+}
+
+export interface NeighborOptions extends PageOptions {
+  type?: PaperRelationshipType;
+  direction?: 'out' | 'in' | 'both';
+  minConfidence?: number;
+}
+
+export interface ReviewQueueOptions extends PageOptions {
+  status?: ReviewStatus;
+  kind?: ReviewKind;
+  arxivId?: string;
+}
+
+// An extraction record without its request and response payloads
+export type ExtractionSummary = Omit<ExtractionRecord, 'request' | 'response'>;
+
+export interface GraphOverview {
+  stats: DatabaseStats;
+  latestRun: (PipelineRun & { summary: RunSummary }) | null;
+}
+
+// Concepts scoring below this are too far from the query to be worth listing
+const MIN_CONCEPT_SCORE = 0.6;
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Read-only questions about the stored graph, shared by the CLI and anything else that reports on it
+ */
+export class GraphQueries {
+  constructor(private store: GraphStore) {}
+
+  /**
+   * Papers ranked by how many query terms their title (weighted double) and abstract
+   * contain; concepts ranked by name similarity, with substring matches always included
+   */
+  async search(query: string, limit: number = 20): Promise<SearchResults> {
+    const terms = normalizeConceptName(query).split(' ').filter(Boolean);
+    if (terms.length === 0) {
+      return { query, papers: [], concepts: [] };
+    }
+
+    const papers: PaperHit[] = [];
+    for (const paper of await this.store.listPapers()) {
+      const title = normalizeConceptName(paper.title);
+      const abstract = normalizeConceptName(paper.abstract);
+      const score = terms.reduce((total, term) =>
+        total + (title.includes(term) ? 2 : 0) + (abstract.includes(term) ? 1 : 0), 0);
+      if (score > 0) {
+        papers.push({ arxiv_id: paper.arxiv_id, title: paper.title, published_date: paper.published_date, score });
+      }
+    }
+
+    const key = terms.join(' ');
+    const concepts: ConceptHit[] = [];
+    for (const concept of await this.store.listConcepts()) {
+      const score = normalizeConceptName(concept.name).includes(key)
+        ? 1
+        : conceptNameSimilarity(query, concept.name);
+      if (score >= MIN_CONCEPT_SCORE) {
+        concepts.push({ ...concept, score: Number(score.toFixed(3)) });
+      }
+    }
+
+    return {
+      query,
+      papers: papers.sort((a, b) => b.score - a.score).slice(0, limit),
+      concepts: concepts.sort((a, b) => b.score - a.score).slice(0, limit)
+    };
+  }
+
+  // Oldest first, like the pipeline stores them
+  async listPapers(page: PageOptions = {}): Promise<Page<StoredPaper>> {
+    return paginate(await this.store.listPapers(), page);
+  }
+
+  /**
+   * A paper with its concepts and extracted relationships, links below
+   * `minConfidence` left out; null if the paper is not in the graph
+   */
+  async getPaper(arxivId: string, minConfidence: number = 0): Promise<PaperDetail | null> {
+    const paper = await this.store.findPaperByArxivId(arxivId);
+    if (!paper) return null;
+
+    const concepts = await this.store.getPaperConceptLinks(paper.id);
+    const relationships = await this.store.getPaperRelationships(paper.id);
+    return {
+      ...paper,
+      concepts: concepts.filter(link => link.confidence >= minConfidence),
+      relationships: relationships.filter(rel => rel.confidence >= minConfidence)
+    };
+  }
+
+  // Every arXiv version seen, oldest first; null if the paper is not in the graph
+  async paperVersions(arxivId: string): Promise<PaperVersion[] | null> {
+    const paper = await this.store.findPaperByArxivId(arxivId);
+    return paper ? this.store.listPaperVersions(paper.id) : null;
+  }
+
+  // The LLM calls behind a paper's extractions, oldest first; null if the paper is not in the graph
+  async extractions(arxivId: string, page: PageOptions = {}): Promise<Page<ExtractionSummary> | null> {
+    const paper = await this.store.findPaperByArxivId(arxivId);
+    if (!paper) return null;
+    const records = await this.store.listExtractionRecords(paper.id);
+    return paginate(records.map(({ request, response, ...summary }) => summary), page);
+  }
+
+  async getExtraction(id: string): Promise<ExtractionRecord | null> {
+    return this.store.getExtractionRecord(id);
+  }
+
+  // Review items, oldest first; null if `arxivId` is given and the paper is not in the graph
+  async reviewQueue(options: ReviewQueueOptions = {}): Promise<Page<ReviewItem> | null> {
+    let paperId: string | undefined;
+    if (options.arxivId !== undefined) {
+      const paper = await this.store.findPaperByArxivId(options.arxivId);
+      if (!paper) return null;
+      paperId = paper.id;
+    }
+    const items = await this.store.listReviewItems({ status: options.status, kind: options.kind, paperId });
+    return paginate(items, options);
+  }
+
+  async listConcepts(options: PageOptions & { category?: string } = {}): Promise<Page<StoredConcept>> {
+    const category = options.category?.toLowerCase();
+    const concepts = (await this.store.listConcepts())
+      .filter(concept => !category || concept.category.toLowerCase() === category)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return paginate(concepts, options);
+  }
+
+  async getConcept(id: string): Promise<StoredConcept | null> {
+    return (await this.store.listConcepts()).find(concept => concept.id === id) ?? null;
+  }
+
+  // Newest first; null if the concept does not exist
+  async conceptPapers(conceptId: string, options: PageOptions & { minConfidence?: number } = {}): Promise<Page<ConceptPaperLink> | null> {
+    if (!(await this.getConcept(conceptId))) return null;
+    const links = await this.store.listConceptPapers(conceptId);
+    return paginate(links.filter(link => link.confidence >= (options.minConfidence ?? 0)), options);
+  }
+
+  /**
+   * Papers linked to the given one by paper-to-paper edges, most confident first;
+   * null if the paper is not in the graph
+   */
+  async neighbors(arxivId: string, options: NeighborOptions = {}): Promise<Page<PaperNeighbor> | null> {
+    const paper = await this.store.findPaperByArxivId(arxivId);
+    if (!paper) return null;
+
+    const direction = options.direction ?? 'both';
+    const papers = new Map((await this.store.listPapers()).map(stored => [stored.id, stored]));
+    const neighbors: PaperNeighbor[] = [];
+
+    for (const edge of await this.store.getPaperEdges(paper.id)) {
+      if (options.type && edge.relationship_type !== options.type) continue;
+      if (edge.confidence < (options.minConfidence ?? 0)) continue;
+
+      const outgoing = edge.source_paper_id === paper.id;
+      if ((outgoing && direction === 'in') || (!outgoing && direction === 'out')) continue;
+
+      const other = papers.get(outgoing ? edge.target_paper_id : edge.source_paper_id);
+      if (!other) continue;
+      neighbors.push({
+        relationship_type: edge.relationship_type,
+        direction: outgoing ? 'out' : 'in',
+        confidence: edge.confidence,
+        evidence: edge.evidence,
+        paper: { arxiv_id: other.arxiv_id, title: other.title, published_date: other.published_date }
+      });
+    }
+    return paginate(neighbors, options);
+  }
+
+  /**
+   * Graph counts plus the most recent run and how its papers ended up
+   */
+  async overview(): Promise<GraphOverview> {
+    const stats = await this.store.getStats();
+    const run = await this.store.getLatestRun();
+    if (!run) {
+      return { stats, latestRun: null };
+    }
+    const summary = await new JobLedger(this.store).summarize(run.id);
+    return { stats, latestRun: { ...run, summary } };
+  }
+}
+
+function paginate<T>(items: T[], { limit = DEFAULT_PAGE_SIZE, offset = 0 }: PageOptions): Page<T> {
+  return { items: items.slice(offset, offset + limit), total: items.length, limit, offset };
+}
@@ -0,0 +1,298 @@
+import type { Concept, StoredConcept } from '../types.js';
+import type { GraphStore } from '../database/graphStore.js';
+
+// Spellings the similarity rules cannot derive on their own, keyed and listed in normalized form.
+// Only spellings that always mean the canonical concept: "radiance field" alone does not mean NeRF
+const KNOWN_ALIASES: Record<string, string[]> = {
+  '3d gaussian splatting': ['3dgs', 'gaussian splatting', 'gaussian splat'],
+  'neural radiance field': ['nerf'],
+  'structure from motion': ['sfm'],
+  'multi view stereo': ['mvs'],
+  'signed distance function': ['sdf', 'signed distance field'],
+  'peak signal to noise ratio': ['psnr'],
+  'structural similarity index': ['ssim', 'structural similarity'],
+  'learned perceptual image patch similarity': ['lpips']
+};
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'of', 'for', 'and', 'in', 'on', 'with', 'via', 'to']);
+// Names at least this similar are taken to mean the same thing
+export const FUZZY_THRESHOLD = 0.88;
+
+export interface ResolvedConcept {
+  id: string;
+  created: boolean;
+  matchedBy: 'alias' | 'fuzzy' | 'new';
+}
+
+/**
+ * Lowercases, strips punctuation and parenthesised acronyms, and singularises
+ * trailing plurals so "Neural Radiance Fields (NeRFs)" and "neural radiance field" agree
+ */
+export function normalizeConceptName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\([^)]*\)/g, ' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word.length > 0)
+    .map(singularize)
+    .join(' ');
+}
+
+// Leaves acronyms ("3dgs") and Latin/Greek endings ("analysis", "radius") alone
+function singularize(word: string): string {
+  if (word.length <= 4 || /\d/.test(word) || !word.endsWith('s')) return word;
+  if (/(ss|is|us)$/.test(word)) return word;
+  return word.slice(0, -1);
+}
+
+// "3D Gaussian Splatting (3DGS)" -> "3dgs"
+export function parentheticalAcronym(name: string): string | null {
+  const match = name.match(/\(([A-Za-z0-9-]{2,10})\)/);
+  return match ? match[1].toLowerCase().replace(/-/g, '') : null;
+}
+
+/**
+ * True when `acronym` can be spelled by taking a non-empty prefix of each
+ * significant word in order: "nerf" <- NEural Radiance Field, "3dgs" <- 3D Gaussian Splatting
+ */
+export function isAcronymOf(acronym: string, name: string): boolean {
+  const letters = acronym.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const words = normalizeConceptName(name).split(' ').filter(word => !STOPWORDS.has(word));
+  if (letters.length < 2 || words.length < 2 || letters.length > 10) return false;
+
+  const spell = (pos: number, wordIndex: number): boolean => {
+    if (wordIndex === words.length) return pos === letters.length;
+    const word = words[wordIndex];
+    for (let take = 1; take <= word.length && pos + take <= letters.length; take++) {
+      if (letters.substring(pos, pos + take) !== word.substring(0, take)) break;
+      if (spell(pos + take, wordIndex + 1)) return true;
+    }
+    return false;
+  };
+
+  return spell(0, 0);
+}
+
+/**
+ * Similarity in [0, 1] between two concept names
+ */
+export function conceptNameSimilarity(a: string, b: string): number {
+  const left = normalizeConceptName(a);
+  const right = normalizeConceptName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftSingle = !left.includes(' ');
+  const rightSingle = !right.includes(' ');
+  if ((leftSingle && isAcronymOf(left, right)) || (rightSingle && isAcronymOf(right, left))) {
+    return 0.95;
+  }
+
+  // Differ only by stopwords: "splatting of gaussian" vs "splatting of the gaussian"
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = new Set(right.split(' '));
+  const [small, large] = leftTokens.size <= rightTokens.size ? [leftTokens, rightTokens] : [rightTokens, leftTokens];
+  if (small.size >= 2 && [...small].every(token => large.has(token))) {
+    const extras = [...large].filter(token => !small.has(token));
+    if (extras.every(token => STOPWORDS.has(token))) {
+      return 0.9;
+    }
+  }
+
+  // Split or joined words: "multiview stereo" vs "multi view stereo"
+  if (left.replaceAll(' ', '') === right.replaceAll(' ', '')) return 0.95;
+
+  // Edit distance only forgives a typo within one longer word; a different digit,
+  // version or short modifier ("2d" vs "3d", "v1" vs "v2") names a different thing
+  if (isTypoOf(left.split(' '), right.split(' '))) {
+    const distance = levenshtein(left, right);
+    return 1 - distance / Math.max(left.length, right.length);
+  }
+
+  // Otherwise the share of words in common
+  const shared = [...small].filter(token => large.has(token)).length;
+  return shared / new Set([...leftTokens, ...rightTokens]).size;
+}
+
+// Same words in the same order except for one, which is long, has no digits and is misspelled
+function isTypoOf(left: string[], right: string[]): boolean {
+  if (left.length !== right.length) return false;
+  const differing = left.flatMap((word, i) => (word === right[i] ? [] : [[word, right[i]]]));
+  if (differing.length !== 1) return false;
+  const [a, b] = differing[0];
+  return [a, b].every(word => word.length >= 4 && !/\d/.test(word)) && levenshtein(a, b) <= 2;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Maps extracted concept names onto canonical concept nodes, using the alias
+ * table first and fuzzy matching against existing concepts second
+ */
+export class ConceptResolver {
+  private db: GraphStore;
+  private concepts: StoredConcept[] | null = null;
+
+  constructor(db: GraphStore) {
+    this.db = db;
+  }
+
+  /**
+   * Returns the canonical concept id, creating the concept if nothing matches
+   */
+  async resolveConcept(concept: Concept): Promise<ResolvedConcept> {
+    const existing = await this.findConcept(concept.name);
+    if (existing) {
+      await this.recordAliases(concept.name, existing.id);
+      return existing;
+    }
+
+    const canonicalName = concept.name.replace(/\s*\([^)]*\)\s*/g, ' ').trim() || concept.name;
+    const { id, created } = await this.db.insertConcept({ ...concept, name: canonicalName });
+    const concepts = await this.loadConcepts();
+    if (!concepts.some(candidate => candidate.id === id)) {
+      concepts.push({ id, name: canonicalName, category: concept.category });
+    }
+    await this.recordAliases(concept.name, id);
+
+    // Not created: a concurrent worker stored the same name after the lookup above
+    return { id, created, matchedBy: created ? 'new' : 'fuzzy' };
+  }
+
+  /**
+   * Looks up a concept without creating one (used for relationship targets)
+   */
+  async findConcept(name: string): Promise<ResolvedConcept | null> {
+    const keys = this.aliasKeys(name);
+    const aliased = await this.db.findConceptIdByAlias(keys);
+    if (aliased) {
+      return { id: aliased, created: false, matchedBy: 'alias' };
+    }
+
+    let best: { concept: StoredConcept; score: number } | null = null;
+    for (const candidate of await this.loadConcepts()) {
+      const score = conceptNameSimilarity(name, candidate.name);
+      if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) {
+        best = { concept: candidate, score };
+      }
+    }
+
+    if (best) {
+      console.log(`    Resolved "${name}" -> "${best.concept.name}" (${best.score.toFixed(2)})`);
+      return { id: best.concept.id, created: false, matchedBy: 'fuzzy' };
+    }
+    return null;
+  }
+
+  /**
+   * Folds `sourceId` into `targetId`: links, relationship targets and aliases move to the target
+   */
+  async mergeConcepts(sourceId: string, targetId: string): Promise<void> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a concept into itself');
+    }
+    await this.db.mergeConcepts(sourceId, targetId);
+    this.concepts = null;
+  }
+
+  /**
+   * Merges every group of existing concepts that resolve to each other into its canonical concept
+   */
+  async mergeDuplicates(): Promise<number> {
+    let merged = 0;
+    for (const [canonical, ...duplicates] of await this.findDuplicateGroups()) {
+      for (const duplicate of duplicates) {
+        console.log(`    "${duplicate.name}" -> "${canonical.name}"`);
+        await this.mergeConcepts(duplicate.id, canonical.id);
+        merged++;
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Finds a stored concept by id, exact name, or resolved name
+   */
+  async lookupConcept(nameOrId: string): Promise<StoredConcept> {
+    const concepts = await this.db.listConcepts();
+    const byId = concepts.find(concept => concept.id === nameOrId);
+    if (byId) return byId;
+
+    const exact = concepts.find(concept => concept.name.toLowerCase() === nameOrId.toLowerCase());
+    if (exact) return exact;
+
+    const resolved = await this.findConcept(nameOrId);
+    const concept = resolved && concepts.find(candidate => candidate.id === resolved.id);
+    if (!concept) {
+      throw new Error(`Concept not found: ${nameOrId}`);
+    }
+    return concept;
+  }
+
+  /**
+   * Groups existing concepts that resolve to each other; the first (oldest) concept is canonical
+   */
+  async findDuplicateGroups(): Promise<StoredConcept[][]> {
+    const concepts = await this.db.listConcepts();
+    const assigned = new Set<string>();
+    const groups: StoredConcept[][] = [];
+
+    for (const canonical of concepts) {
+      if (assigned.has(canonical.id)) continue;
+      const group = [canonical];
+      for (const other of concepts) {
+        if (other.id === canonical.id || assigned.has(other.id)) continue;
+        if (conceptNameSimilarity(canonical.name, other.name) >= FUZZY_THRESHOLD) {
+          group.push(other);
+          assigned.add(other.id);
+        }
+      }
+      assigned.add(canonical.id);
+      if (group.length > 1) groups.push(group);
+    }
+    return groups;
+  }
+
+  private aliasKeys(name: string): string[] {
+    const normalized = normalizeConceptName(name);
+    const keys = new Set<string>([normalized]);
+
+    const acronym = parentheticalAcronym(name);
+    if (acronym) keys.add(acronym);
+
+    for (const [canonical, aliases] of Object.entries(KNOWN_ALIASES)) {
+      if (canonical === normalized || aliases.includes(normalized)) {
+        keys.add(canonical);
+        aliases.forEach(alias => keys.add(alias));
+      }
+    }
+    return [...keys].filter(key => key.length > 0);
+  }
+
+  private async recordAliases(name: string, conceptId: string): Promise<void> {
+    for (const key of this.aliasKeys(name)) {
+      await this.db.addConceptAlias(key, name, conceptId);
+    }
+  }
+
+  private async loadConcepts(): Promise<StoredConcept[]> {
+    if (!this.concepts) {
+      this.concepts = await this.db.listConcepts();
+    }
+    return this.concepts;
+  }
+}
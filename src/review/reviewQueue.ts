@@ -0,0 +1,200 @@
+import type { GraphStore } from '../database/graphStore.js';
+import { RelationshipAnalyzer } from '../agents/relationshipAnalyzer.js';
+import { ConceptResolver, conceptNameSimilarity, FUZZY_THRESHOLD, normalizeConceptName } from '../resolution/conceptResolver.js';
+import type { Concept, Method, Relationship, ReviewCandidate, ReviewItem, ReviewKind, ReviewStatus } from '../types.js';
+
+export const REVIEW_KINDS: ReviewKind[] = ['concept', 'relationship', 'method'];
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'accepted', 'rejected'];
+
+const RELATIONSHIP_TYPES: Relationship['relationship_type'][] = [
+  'introduces', 'extends', 'improves_on', 'evaluates', 'uses', 'compares', 'applies'
+];
+
+// Fields a reviewer may correct before accepting; which ones apply depends on the kind
+export interface ReviewEdits {
+  name?: string;
+  category?: string;
+  description?: string;
+  relationship_type?: string;
+  target_concept?: string;
+  evidence?: string;
+  is_baseline?: boolean;
+}
+
+const EDITABLE_FIELDS: Record<ReviewKind, Array<keyof ReviewEdits>> = {
+  concept: ['name', 'category', 'description'],
+  relationship: ['relationship_type', 'target_concept', 'evidence'],
+  method: ['name', 'description', 'is_baseline']
+};
+
+/**
+ * A review item that does not exist or was already decided, or an edit that does not fit it
+ */
+export class ReviewError extends Error {
+  constructor(readonly reason: 'not-found' | 'decided' | 'invalid', message: string) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+/**
+ * Keeps the extracted entities the pipeline leaves out of the graph (rejected by
+ * ValidationAgent, or below the storage threshold) until a reviewer accepts or
+ * rejects them. Accepted entities are written to the graph with the reviewer's
+ * name in `reviewed_by`. A decision is claimed before anything is written, so of
+ * two reviewers deciding the same item at once only one succeeds.
+ */
+export class ReviewQueue {
+  constructor(private store: GraphStore) {}
+
+  // Candidates already queued for the paper are skipped; returns how many were added
+  async enqueue(paperId: string, candidates: ReviewCandidate[]): Promise<number> {
+    let added = 0;
+    for (const candidate of candidates) {
+      if (await this.store.addReviewItem(paperId, reviewKey(candidate), candidate)) {
+        added++;
+      }
+    }
+    return added;
+  }
+
+  async get(id: string): Promise<ReviewItem> {
+    const item = await this.store.getReviewItem(id);
+    if (!item) {
+      throw new ReviewError('not-found', `Review item ${id} not found`);
+    }
+    return item;
+  }
+
+  // The pending item as accepting it with these edits would store it; nothing is written
+  async preview(id: string, edits: ReviewEdits = {}): Promise<ReviewItem> {
+    const item = await this.pending(id);
+    return { ...item, entity: applyEdits(item, edits) };
+  }
+
+  /**
+   * Marks the item accepted and writes the entity, corrected by `edits`, into the
+   * graph; the item goes back to pending if the write fails. An accepted
+   * relationship also re-links its paper to the rest of the graph.
+   */
+  async accept(id: string, reviewer: string, edits: ReviewEdits = {}): Promise<ReviewItem> {
+    const item = await this.pending(id);
+    const entity = applyEdits(item, edits);
+    const accepted = await this.decide(item, 'accepted', reviewer, entity);
+    try {
+      await this.storeEntity(item.paper_id, item.kind, entity, reviewer);
+    } catch (error) {
+      await this.store.decideReviewItem(item.id, { status: 'pending', entity: item.entity, reviewed_by: null, reviewed_at: null }, 'accepted');
+      throw error;
+    }
+
+    if (item.kind === 'relationship') {
+      // The relationship is stored either way; missing edges are added by the next run's graph analysis
+      try {
+        const paper = await this.store.findPaperByArxivId(item.arxiv_id);
+        if (paper) {
+          await new RelationshipAnalyzer().analyzeCrossPaperRelationships(paper.id, paper, this.store);
+        }
+      } catch (error: any) {
+        console.error(`   Cross-paper analysis after accepting ${item.id} failed: ${error.message}`);
+      }
+    }
+    return accepted;
+  }
+
+  async reject(id: string, reviewer: string): Promise<ReviewItem> {
+    const item = await this.pending(id);
+    return this.decide(item, 'rejected', reviewer, item.entity);
+  }
+
+  private async pending(id: string): Promise<ReviewItem> {
+    const item = await this.get(id);
+    if (item.status !== 'pending') {
+      throw new ReviewError('decided', `Review item ${id} was already ${item.status} by ${item.reviewed_by ?? 'unknown'}`);
+    }
+    return item;
+  }
+
+  private async decide(item: ReviewItem, status: ReviewStatus, reviewer: string, entity: ReviewItem['entity']): Promise<ReviewItem> {
+    const decision = { status, entity, reviewed_by: reviewer, reviewed_at: new Date().toISOString() };
+    if (!(await this.store.decideReviewItem(item.id, decision))) {
+      // Decided by someone else since it was read
+      await this.pending(item.id);
+      throw new ReviewError('decided', `Review item ${item.id} was already decided`);
+    }
+    return { ...item, ...decision };
+  }
+
+  // Stored the way the pipeline stores entities above the threshold
+  private async storeEntity(paperId: string, kind: ReviewKind, entity: ReviewItem['entity'], reviewer: string): Promise<void> {
+    // A fresh resolver, so concepts stored by a concurrent run are seen
+    const resolver = new ConceptResolver(this.store);
+
+    if (kind === 'concept') {
+      const concept = entity as Concept;
+      const { id } = await resolver.resolveConcept(concept);
+      await this.store.linkPaperConcept(paperId, id, 'mentions', concept.confidence, concept.section, {
+        extraction_id: concept.extraction_id,
+        reviewed_by: reviewer
+      });
+    } else if (kind === 'relationship') {
+      const relationship = entity as Relationship;
+      const target = await resolver.findConcept(relationship.target_concept);
+      await this.store.insertRelationship(paperId, { ...relationship, reviewed_by: reviewer }, target?.id);
+    } else {
+      const method = entity as Method;
+      const introduced = (await this.store.getPaperRelationships(paperId))
+        .some(relationship => relationship.relationship_type === 'introduces' &&
+          conceptNameSimilarity(relationship.target_concept, method.name) >= FUZZY_THRESHOLD);
+      const methodId = await this.store.upsertMethod(method);
+      await this.store.linkPaperMethod(paperId, methodId, {
+        introduces: !method.is_baseline && introduced,
+        is_baseline: method.is_baseline,
+        confidence: method.confidence,
+        section: method.section,
+        extraction_id: method.extraction_id,
+        reviewed_by: reviewer
+      });
+    }
+  }
+}
+
+// Identifies the entity within its paper: the normalized name, or type and target
+function reviewKey({ kind, entity }: ReviewCandidate): string {
+  if (kind === 'relationship') {
+    const relationship = entity as Relationship;
+    return `${relationship.relationship_type}:${normalizeConceptName(relationship.target_concept)}`;
+  }
+  return normalizeConceptName((entity as Concept | Method).name);
+}
+
+function applyEdits(item: ReviewItem, edits: ReviewEdits): ReviewItem['entity'] {
+  const editable = EDITABLE_FIELDS[item.kind];
+  const entity: Record<string, unknown> = { ...item.entity };
+
+  for (const [field, value] of Object.entries(edits)) {
+    if (value === undefined) continue;
+    if (!editable.includes(field as keyof ReviewEdits)) {
+      throw new ReviewError('invalid', `"${field}" cannot be edited on a ${item.kind} (editable: ${editable.join(', ')})`);
+    }
+    if (field === 'is_baseline') {
+      if (typeof value !== 'boolean') throw new ReviewError('invalid', '"is_baseline" must be true or false');
+      entity[field] = value;
+      continue;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new ReviewError('invalid', `"${field}" must be a non-empty string`);
+    }
+    if (field === 'relationship_type' && !RELATIONSHIP_TYPES.includes(value.trim() as Relationship['relationship_type'])) {
+      throw new ReviewError('invalid', `"relationship_type" must be one of ${RELATIONSHIP_TYPES.join(', ')}`);
+    }
+    entity[field] = value.trim();
+  }
+  // The model judged the relationship as extracted, not as corrected
+  if (item.kind === 'relationship' && Object.values(edits).some(value => value !== undefined)) {
+    entity.entailment_verdict = null;
+    entity.entailment_rationale = null;
+    entity.entailment_id = null;
+  }
+  return entity as unknown as ReviewItem['entity'];
+}
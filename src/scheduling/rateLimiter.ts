@@ -0,0 +1,119 @@
+export interface RateLimits {
+  // Minimum gap between the start of two requests (arXiv asks for about 3s)
+  minIntervalMs?: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * Continuously refilling bucket; the balance may go negative when actual usage
+ * turns out higher than what was reserved, which delays later callers.
+ */
+class TokenBucket {
+  private balance: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private perMinute: number) {
+    this.balance = capacity;
+  }
+
+  // Milliseconds until `amount` is available
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity) - this.balance;
+    return needed <= 0 ? 0 : Math.ceil(needed / (this.perMinute / 60000));
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.balance -= amount;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.balance = Math.min(this.capacity, this.balance + ((now - this.updatedAt) * this.perMinute) / 60000);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Paces every call to one external service. Callers are served in arrival order,
+ * so a slow bucket never lets a later request overtake an earlier one.
+ */
+export class RateLimiter {
+  private requests: TokenBucket | null;
+  private tokens: TokenBucket | null;
+  private lastStart = 0;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(readonly service: string, private limits: RateLimits = {}) {
+    this.requests = limits.requestsPerMinute ? new TokenBucket(limits.requestsPerMinute, limits.requestsPerMinute) : null;
+    this.tokens = limits.tokensPerMinute ? new TokenBucket(limits.tokensPerMinute, limits.tokensPerMinute) : null;
+  }
+
+  /**
+   * Resolves once a request costing `tokens` (an estimate, for TPM limits) may start
+   */
+  acquire(tokens: number = 0): Promise<void> {
+    const turn = this.queue.then(() => this.waitForTurn(tokens));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  // Settles the difference between the tokens reserved by acquire() and those actually used
+  recordUsage(actualTokens: number, reservedTokens: number): void {
+    if (this.tokens && actualTokens > reservedTokens) {
+      this.tokens.take(actualTokens - reservedTokens);
+    }
+  }
+
+  // Holds back every caller, e.g. after a 429 with Retry-After
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async waitForTurn(tokens: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const wait = Math.max(
+        this.pausedUntil - now,
+        this.limits.minIntervalMs ? this.lastStart + this.limits.minIntervalMs - now : 0,
+        this.requests ? this.requests.waitTime(1) : 0,
+        this.tokens && tokens > 0 ? this.tokens.waitTime(tokens) : 0
+      );
+      if (wait <= 0) break;
+      await sleep(wait);
+    }
+
+    this.lastStart = Date.now();
+    this.requests?.take(1);
+    if (tokens > 0) this.tokens?.take(tokens);
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * The process-wide limiter for a service. Limits apply when the limiter is first
+ * created (configureRateLimit, or the first caller); later limits are ignored.
+ */
+export function rateLimiter(service: string, limits: RateLimits = {}): RateLimiter {
+  let limiter = limiters.get(service);
+  if (!limiter) {
+    limiter = new RateLimiter(service, limits);
+    limiters.set(service, limiter);
+  }
+  return limiter;
+}
+
+// Replaces the limiter for a service, for settings read from the environment at startup
+export function configureRateLimit(service: string, limits: RateLimits): RateLimiter {
+  const limiter = new RateLimiter(service, limits);
+  limiters.set(service, limiter);
+  return limiter;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,109 @@
+import type { RateLimiter } from './rateLimiter.js';
+
+/**
+ * Non-2xx response, with the server's Retry-After (if any) already converted to milliseconds
+ */
+export class HttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  get retryable(): boolean {
+    return this.status === 408 || this.status === 425 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Each attempt waits for its turn here; a 429 pauses the limiter for every caller
+  limiter?: RateLimiter;
+  // Estimated token cost of one attempt, for limiters with a tokens-per-minute limit
+  tokens?: number;
+}
+
+/**
+ * Runs `operation` with exponential backoff. Server-provided Retry-After delays take
+ * precedence, and client errors other than 408/425/429 are not retried.
+ * `label` completes the sentence "FAILED to ...".
+ */
+export async function withRetry<T>(
+  label: string,
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const attempts = options.attempts ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 2000;
+  const maxDelayMs = options.maxDelayMs ?? 60000;
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      await options.limiter?.acquire(options.tokens);
+      return await operation(attempt);
+    } catch (error: any) {
+      lastError = error;
+      console.log(`     Attempt ${attempt}/${attempts} failed: ${error.message}`);
+
+      if (error instanceof HttpError && !error.retryable) break;
+      if (attempt === attempts) break;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = error instanceof HttpError && error.retryAfterMs !== null
+        ? Math.min(maxDelayMs, error.retryAfterMs)
+        : backoff + Math.floor(Math.random() * 250);
+
+      if (error instanceof HttpError && error.status === 429) {
+        options.limiter?.pause(delay);
+      }
+      console.log(`   ⏳ Retrying in ${delay}ms...`);
+      await sleep(delay);
+    }
+  }
+
+  throw new Error(`FAILED to ${label}. Last error: ${lastError!.message}`);
+}
+
+/**
+ * fetch() with a timeout that turns non-2xx responses into HttpError
+ */
+export async function fetchWithTimeout(url: string, init: RequestInit = {}, timeoutMs: number = 30000): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new HttpError(
+        `HTTP ${response.status}: ${body.substring(0, 100) || response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,38 @@
+/**
+ * Fixed-size worker pool: at most `concurrency` items are in flight, and a new one
+ * starts as soon as any finishes. Pacing against external services is left to the
+ * per-service rate limiters, so workers never sleep on a fixed schedule.
+ */
+export class WorkScheduler {
+  constructor(readonly concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+    }
+  }
+
+  /**
+   * Runs `worker` over every item; results keep the order of `items`, like Promise.allSettled
+   */
+  async run<T, R>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<R>
+  ): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    const runWorker = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        try {
+          results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+        } catch (reason) {
+          results[index] = { status: 'rejected', reason };
+        }
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(this.concurrency, items.length) }, runWorker);
+    await Promise.all(workers);
+    return results;
+  }
+}
@@ -1,18 +1,43 @@
+-- Knowledge graph schema for PostgresGraphStore (plain PostgreSQL or a Supabase project).
+-- SqliteGraphStore creates the equivalent tables itself.
+
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+-- pgvector, for the embeddings table
+CREATE EXTENSION IF NOT EXISTS vector;
 
 -- Papers table
 CREATE TABLE IF NOT EXISTS papers (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     arxiv_id VARCHAR(50) UNIQUE NOT NULL,
     title TEXT NOT NULL,
-    authors TEXT[] NOT NULL,
+    authors TEXT[] NOT NULL DEFAULT '{}',
     abstract TEXT,
-    published_date DATE,
+    published_date TIMESTAMPTZ,
+    pdf_url TEXT,
+    categories TEXT[] NOT NULL DEFAULT '{}',
+    -- arXiv version of the stored metadata and when it was posted
+    version INTEGER,
+    updated_date TIMESTAMPTZ,
+    -- Remaining arXiv entry fields: primary_category, doi, journal_ref, comment,
+    -- author_details (names with affiliations) and links
     metadata JSONB DEFAULT '{}',
     created_at TIMESTAMP DEFAULT NOW()
 );
 
--- Concepts table
+-- Every arXiv version of a paper seen by the pipeline, with the fields that changed
+-- from the previous one as [{field, before, after}]
+CREATE TABLE IF NOT EXISTS paper_versions (
+    paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    abstract TEXT,
+    updated_date TIMESTAMPTZ,
+    changes JSONB NOT NULL DEFAULT '[]',
+    recorded_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (paper_id, version)
+);
+
+-- Concepts table (one canonical node per concept, see concept_aliases)
 CREATE TABLE IF NOT EXISTS concepts (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     name VARCHAR(255) UNIQUE NOT NULL,
@@ -23,46 +48,302 @@ CREATE TABLE IF NOT EXISTS concepts (
     created_at TIMESTAMP DEFAULT NOW()
 );
 
--- Relationships table
+-- Alternative spellings of a concept, keyed by normalized name ("3dgs", "gaussian splatting", ...)
+CREATE TABLE IF NOT EXISTS concept_aliases (
+    alias_key VARCHAR(255) PRIMARY KEY,
+    alias VARCHAR(255) NOT NULL,
+    concept_id UUID REFERENCES concepts(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Paper -> concept relationships extracted from the text
 CREATE TABLE IF NOT EXISTS relationships (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    source_type VARCHAR(50) NOT NULL,
-    source_id UUID NOT NULL,
-    target_type VARCHAR(50) NOT NULL,
-    target_id VARCHAR(255) NOT NULL,
+    source_paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
     relationship_type VARCHAR(100) NOT NULL,
-    confidence FLOAT DEFAULT 1.0,
+    target_concept VARCHAR(255) NOT NULL,
+    -- Canonical concept the target resolves to, when it does
+    target_concept_id UUID REFERENCES concepts(id) ON DELETE SET NULL,
     evidence TEXT,
+    confidence_score FLOAT DEFAULT 1.0,
+    -- Section of the paper the relationship came from (abstract, introduction, method, ...)
+    section VARCHAR(50),
+    -- Extraction record of the LLM call it came from
+    extraction_id UUID,
+    -- Set when the relationship was accepted from the review queue
+    reviewed_by VARCHAR(200),
+    -- Whether a model found the evidence to support it (supported, not_supported, unclear), and why
+    entailment_verdict VARCHAR(20),
+    entailment_rationale TEXT,
+    -- Extraction record of the entailment call
+    entailment_id UUID,
     metadata JSONB DEFAULT '{}',
-    created_at TIMESTAMP DEFAULT NOW(),
-    UNIQUE(source_id, target_id, relationship_type)
+    created_at TIMESTAMP DEFAULT NOW()
 );
 
 -- Paper-Concept linking table
 CREATE TABLE IF NOT EXISTS paper_concepts (
     paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
     concept_id UUID REFERENCES concepts(id) ON DELETE CASCADE,
+    relationship VARCHAR(50) NOT NULL,
+    confidence_score FLOAT DEFAULT 1.0,
+    section VARCHAR(50),
+    extraction_id UUID,
+    reviewed_by VARCHAR(200),
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (paper_id, concept_id, relationship)
+);
+
+-- Methods, datasets and metrics, shared across papers and deduplicated on normalized name
+CREATE TABLE IF NOT EXISTS methods (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    name_key VARCHAR(255) UNIQUE NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS datasets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    name_key VARCHAR(255) UNIQUE NOT NULL,
+    description TEXT,
+    task_type VARCHAR(100),
+    size VARCHAR(100),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS metrics (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    name_key VARCHAR(255) UNIQUE NOT NULL,
+    unit VARCHAR(50),
+    higher_is_better BOOLEAN DEFAULT TRUE,
+    description TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS paper_methods (
+    paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
+    method_id UUID REFERENCES methods(id) ON DELETE CASCADE,
+    introduces BOOLEAN DEFAULT FALSE,
+    is_baseline BOOLEAN DEFAULT FALSE,
+    confidence_score FLOAT DEFAULT 1.0,
+    section VARCHAR(50),
+    extraction_id UUID,
+    reviewed_by VARCHAR(200),
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (paper_id, method_id)
+);
+
+CREATE TABLE IF NOT EXISTS paper_datasets (
+    paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
+    dataset_id UUID REFERENCES datasets(id) ON DELETE CASCADE,
+    section VARCHAR(50),
+    extraction_id UUID,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (paper_id, dataset_id)
+);
+
+CREATE TABLE IF NOT EXISTS paper_metrics (
+    paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
+    metric_id UUID REFERENCES metrics(id) ON DELETE CASCADE,
+    section VARCHAR(50),
+    extraction_id UUID,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (paper_id, metric_id)
+);
+
+-- Paper-to-paper edges discovered by the RelationshipAnalyzer (later paper -> earlier paper)
+CREATE TABLE IF NOT EXISTS paper_relationships (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
+    target_paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
     relationship_type VARCHAR(50) NOT NULL,
-    confidence FLOAT DEFAULT 1.0,
+    evidence TEXT,
+    confidence_score FLOAT DEFAULT 0.5,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(source_paper_id, target_paper_id, relationship_type)
+);
+
+-- Pipeline runs and per-paper stage progress, used to resume interrupted runs
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+    id UUID PRIMARY KEY,
+    mode VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    config JSONB DEFAULT '{}',
+    started_at TIMESTAMPTZ NOT NULL,
+    finished_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS paper_jobs (
+    run_id UUID REFERENCES pipeline_runs(id) ON DELETE CASCADE,
+    arxiv_id VARCHAR(50) NOT NULL,
+    paper_id UUID REFERENCES papers(id) ON DELETE SET NULL,
+    -- Last completed stage: fetched, extracted, validated, stored, analyzed
+    stage VARCHAR(20),
+    status VARCHAR(20) NOT NULL,
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    extraction JSONB,
+    updated_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (run_id, arxiv_id)
+);
+
+-- Extracted concepts, relationships and methods kept out of the graph (rejected by
+-- validation, or below the storage confidence threshold) until a reviewer decides.
+-- entity_key identifies the entity within the paper, so re-running a paper adds no duplicates
+CREATE TABLE IF NOT EXISTS review_items (
+    id UUID PRIMARY KEY,
+    paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL,
+    entity_key VARCHAR(600) NOT NULL,
+    -- The extracted entity, as edited by the reviewer once decided
+    entity JSONB NOT NULL,
+    reasons JSONB NOT NULL DEFAULT '[]',
+    -- pending, accepted or rejected
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    reviewed_by VARCHAR(200),
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL,
+    UNIQUE (paper_id, kind, entity_key)
+);
+
+-- Provenance of extraction: one row per LLM call, with the exact request and the raw
+-- response. Extracted entities point back here through their extraction_id. Kept when
+-- a paper is extracted again, so earlier calls stay traceable
+CREATE TABLE IF NOT EXISTS extraction_records (
+    id UUID PRIMARY KEY,
+    paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+    run_id UUID,
+    section VARCHAR(50) NOT NULL,
+    provider VARCHAR(100) NOT NULL,
+    model VARCHAR(200) NOT NULL,
+    temperature FLOAT,
+    max_tokens INTEGER,
+    prompt_version VARCHAR(100) NOT NULL,
+    request JSONB NOT NULL,
+    -- NULL when the call failed; error holds why the call or its parsing failed
+    response TEXT,
+    error TEXT,
+    latency_ms INTEGER NOT NULL,
+    prompt_tokens INTEGER,
+    completion_tokens INTEGER,
+    total_tokens INTEGER,
+    created_at TIMESTAMPTZ NOT NULL
+);
+
+-- Incremental sync position per domain profile
+CREATE TABLE IF NOT EXISTS sync_state (
+    profile VARCHAR(200) PRIMARY KEY,
+    high_water_mark TIMESTAMPTZ NOT NULL,
+    last_synced_at TIMESTAMPTZ NOT NULL
+);
+
+-- Embeddings of paper abstracts (entity_type 'paper') and concept descriptions ('concept').
+-- The column has no fixed dimension so the embedding model can change; once it is settled,
+-- an HNSW index can be added, e.g. for mistral-embed (1024 dimensions):
+--   CREATE INDEX ON embeddings USING hnsw ((embedding::vector(1024)) vector_cosine_ops) WHERE model = 'mistral-embed';
+CREATE TABLE IF NOT EXISTS embeddings (
+    entity_type VARCHAR(20) NOT NULL,
+    entity_id UUID NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    embedding vector NOT NULL,
     created_at TIMESTAMP DEFAULT NOW(),
-    PRIMARY KEY (paper_id, concept_id, relationship_type)
+    PRIMARY KEY (entity_type, entity_id, model)
 );
 
+-- Upgrading a database created from an earlier version of this file, back to the first
+-- one. CREATE TABLE IF NOT EXISTS leaves existing tables as they are, so what they lack
+-- is added here; every statement is a no-op on an up-to-date database
+
+-- papers: the first schema had no pdf_url, categories or version columns and stored
+-- published_date as a DATE
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS pdf_url TEXT;
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS categories TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS version INTEGER;
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS updated_date TIMESTAMPTZ;
+ALTER TABLE papers ALTER COLUMN authors SET DEFAULT '{}';
+ALTER TABLE papers ALTER COLUMN published_date TYPE TIMESTAMPTZ;
+
+-- paper_concepts: relationship_type and confidence were renamed
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_schema = current_schema() AND table_name = 'paper_concepts' AND column_name = 'relationship_type') THEN
+        ALTER TABLE paper_concepts RENAME COLUMN relationship_type TO relationship;
+        ALTER TABLE paper_concepts RENAME COLUMN confidence TO confidence_score;
+    END IF;
+END $$;
+ALTER TABLE paper_concepts ADD COLUMN IF NOT EXISTS section VARCHAR(50);
+ALTER TABLE paper_concepts ADD COLUMN IF NOT EXISTS extraction_id UUID;
+ALTER TABLE paper_concepts ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(200);
+
+-- relationships: the first schema linked any source to any target by id
+-- (source_type, source_id, target_type, target_id). Paper -> concept rows are kept, with
+-- the concept's name as target; other rows have no place in the table and are dropped,
+-- as are the old columns together with their UNIQUE (source_id, target_id,
+-- relationship_type) constraint and indexes
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+               WHERE table_schema = current_schema() AND table_name = 'relationships' AND column_name = 'source_id') THEN
+        ALTER TABLE relationships RENAME COLUMN confidence TO confidence_score;
+        ALTER TABLE relationships ADD COLUMN source_paper_id UUID REFERENCES papers(id) ON DELETE CASCADE;
+        ALTER TABLE relationships ADD COLUMN target_concept VARCHAR(255);
+        ALTER TABLE relationships ADD COLUMN target_concept_id UUID REFERENCES concepts(id) ON DELETE SET NULL;
+
+        UPDATE relationships r SET source_paper_id = p.id
+        FROM papers p WHERE r.source_type = 'paper' AND p.id = r.source_id;
+        UPDATE relationships r SET target_concept = COALESCE(c.name, r.target_id), target_concept_id = c.id
+        FROM relationships original
+        LEFT JOIN concepts c ON CAST(c.id AS TEXT) = original.target_id OR c.name = original.target_id
+        WHERE original.id = r.id;
+        DELETE FROM relationships WHERE source_paper_id IS NULL OR target_type <> 'concept';
+
+        ALTER TABLE relationships ALTER COLUMN target_concept SET NOT NULL;
+        ALTER TABLE relationships DROP COLUMN source_type, DROP COLUMN source_id,
+                                  DROP COLUMN target_type, DROP COLUMN target_id;
+    END IF;
+END $$;
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS target_concept_id UUID REFERENCES concepts(id) ON DELETE SET NULL;
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS section VARCHAR(50);
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS extraction_id UUID;
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(200);
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS entailment_verdict VARCHAR(20);
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS entailment_rationale TEXT;
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS entailment_id UUID;
+
+ALTER TABLE paper_methods ADD COLUMN IF NOT EXISTS extraction_id UUID;
+ALTER TABLE paper_methods ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(200);
+ALTER TABLE paper_datasets ADD COLUMN IF NOT EXISTS extraction_id UUID;
+ALTER TABLE paper_metrics ADD COLUMN IF NOT EXISTS extraction_id UUID;
+
+-- A relationship is stored once per paper, type, target and extraction call, so re-running
+-- a paper or retrying a review decision adds no duplicates. Databases created before the
+-- key can hold such duplicates; all but the oldest are dropped first
+DELETE FROM relationships r USING relationships other
+WHERE other.source_paper_id = r.source_paper_id
+  AND other.relationship_type = r.relationship_type
+  AND other.target_concept = r.target_concept
+  AND COALESCE(CAST(other.extraction_id AS TEXT), '') = COALESCE(CAST(r.extraction_id AS TEXT), '')
+  AND (other.created_at, other.id) < (r.created_at, r.id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rel_unique
+    ON relationships(source_paper_id, relationship_type, target_concept, COALESCE(CAST(extraction_id AS TEXT), ''));
+
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_papers_arxiv ON papers(arxiv_id);
 CREATE INDEX IF NOT EXISTS idx_concepts_name ON concepts(name);
-CREATE INDEX IF NOT EXISTS idx_rel_source ON relationships(source_type, source_id);
-CREATE INDEX IF NOT EXISTS idx_rel_target ON relationships(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_alias_concept ON concept_aliases(concept_id);
+CREATE INDEX IF NOT EXISTS idx_rel_source ON relationships(source_paper_id);
+CREATE INDEX IF NOT EXISTS idx_rel_target ON relationships(target_concept_id);
 CREATE INDEX IF NOT EXISTS idx_pc_paper ON paper_concepts(paper_id);
 CREATE INDEX IF NOT EXISTS idx_pc_concept ON paper_concepts(concept_id);
-
-
--- Update the papers table to have better defaults
-ALTER TABLE papers 
-ALTER COLUMN authors SET DEFAULT '{}',
-ALTER COLUMN categories SET DEFAULT '{}';
-
--- Ensure the columns are not null
-ALTER TABLE papers 
-ALTER COLUMN authors SET NOT NULL,
-ALTER COLUMN categories SET NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pm_method ON paper_methods(method_id);
+CREATE INDEX IF NOT EXISTS idx_pd_dataset ON paper_datasets(dataset_id);
+CREATE INDEX IF NOT EXISTS idx_pmet_metric ON paper_metrics(metric_id);
+CREATE INDEX IF NOT EXISTS idx_pr_source ON paper_relationships(source_paper_id);
+CREATE INDEX IF NOT EXISTS idx_pr_target ON paper_relationships(target_paper_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_arxiv ON paper_jobs(arxiv_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_review_status ON review_items(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_extraction_paper ON extraction_records(paper_id, created_at);
@@ -6,17 +6,58 @@ export interface Paper {
   published_date: string;
   pdf_url: string;
   categories: string[];
+  // arXiv version the metadata was taken from (2 for 2308.04079v2), and when it was posted
+  version?: number | null;
+  updated_date?: string | null;
+  // Further fields of the arXiv entry, where the authors gave them
+  primary_category?: string | null;
+  doi?: string | null;
+  journal_ref?: string | null;
+  comment?: string | null;
+  // `authors` with their affiliations
+  author_details?: PaperAuthor[];
+  links?: PaperLink[];
+}
+
+export interface PaperAuthor {
+  name: string;
+  affiliations: string[];
+}
+
+// An entry <link>: the abstract page (rel "alternate"), the PDF (title "pdf"), the DOI
+export interface PaperLink {
+  href: string;
+  rel: string;
+  type?: string;
+  title?: string;
 }
 
 export interface ArxivPaper extends Paper {
   // Additional fields if needed
 }
 
+export type PaperSection = 'abstract' | 'introduction' | 'related_work' | 'method' | 'experiments' | 'conclusion';
+
+export interface SectionText {
+  section: PaperSection;
+  text: string;
+}
+
+export interface FullTextDocument {
+  arxiv_id: string;
+  source: string;
+  sections: SectionText[];
+}
+
 export interface Concept {
   name: string;
-  category: 'method' | 'technique' | 'problem' | 'domain' | 'application' | 'framework';
+  // One of the domain profile's concept categories
+  category: string;
   description: string;
   confidence: number;
+  section?: PaperSection;
+  // The ExtractionCall it came from
+  extraction_id?: string;
 }
 
 export interface Method {
@@ -24,6 +65,8 @@ export interface Method {
   description: string;
   is_baseline: boolean;
   confidence: number;
+  section?: PaperSection;
+  extraction_id?: string;
 }
 
 export interface Dataset {
@@ -31,6 +74,8 @@ export interface Dataset {
   description?: string;
   task_type?: string;
   size?: string;
+  section?: PaperSection;
+  extraction_id?: string;
 }
 
 export interface Metric {
@@ -38,6 +83,8 @@ export interface Metric {
   unit?: string;
   higher_is_better: boolean;
   description?: string;
+  section?: PaperSection;
+  extraction_id?: string;
 }
 
 export interface Relationship {
@@ -45,6 +92,133 @@ export interface Relationship {
   target_concept: string;
   evidence: string;
   confidence: number;
+  section?: PaperSection;
+  extraction_id?: string | null;
+  // Reviewer who accepted it from the review queue; unset for relationships stored as extracted
+  reviewed_by?: string | null;
+  // A model's judgement of whether the evidence supports the relationship, when ValidationAgent asked one
+  entailment_verdict?: EntailmentVerdict | null;
+  entailment_rationale?: string | null;
+  // Extraction record of the entailment call that gave the verdict
+  entailment_id?: string | null;
+}
+
+export type EntailmentVerdict = 'supported' | 'not_supported' | 'unclear';
+
+/**
+ * What a graph is about, read from profiles/<name>.json: where build starts,
+ * which papers count as relevant, and how the extraction prompt is framed
+ */
+export interface DomainProfile {
+  name: string;
+  description?: string;
+  // Processed first by build; the first is the default --seed
+  seeds: string[];
+  // A paper is relevant when its title or abstract contains any of these (case-insensitive)
+  keywords: {
+    primary: string[];
+    secondary: string[];
+  };
+  // Terms build searches arXiv for; the primary keywords when left out
+  search_keywords: string[];
+  // Added to a discovered paper's priority for each keyword its title or abstract contains
+  relevance_weights: Record<string, number>;
+  // arXiv categories searches are limited to; none means all
+  arxiv_categories: string[];
+  // Research field named in the extraction prompt, e.g. "computer vision"
+  field: string;
+  // Closing instruction of the extraction prompt
+  prompt_focus: string;
+  // Categories concepts are sorted into; the first also takes any category the model invents
+  concept_categories: string[];
+}
+
+export interface StoredPaper extends Paper {
+  id: string;
+}
+
+// A field that differs from the previous version of a paper; lists are joined with "; "
+export interface PaperChange {
+  field: 'title' | 'authors' | 'abstract' | 'categories';
+  before: string;
+  after: string;
+}
+
+// One arXiv version of a stored paper and what changed from the version before it
+export interface PaperVersion {
+  paper_id: string;
+  version: number;
+  title: string;
+  abstract: string;
+  updated_date: string | null;
+  changes: PaperChange[];
+  recorded_at: string;
+}
+
+export interface StoredConcept {
+  id: string;
+  name: string;
+  category: string;
+}
+
+export interface PaperMethodLink {
+  introduces: boolean;
+  is_baseline: boolean;
+  confidence: number;
+  section?: PaperSection;
+  extraction_id?: string | null;
+  reviewed_by?: string | null;
+}
+
+export type PaperRelationshipType = 'improves_on' | 'extends' | 'compares' | 'builds_on' | 'cites';
+
+// Directed edge between two papers in the graph: the later paper is always the source
+export interface PaperRelationship {
+  source_paper_id: string;
+  target_paper_id: string;
+  relationship_type: PaperRelationshipType;
+  evidence: string;
+  confidence: number;
+}
+
+// A concept as linked to one paper
+export interface PaperConceptLink extends StoredConcept {
+  relationship: string;
+  confidence: number;
+  section?: PaperSection;
+  extraction_id?: string | null;
+  reviewed_by?: string | null;
+}
+
+// A paper as linked to one concept
+export interface ConceptPaperLink {
+  paper: StoredPaper;
+  relationship: string;
+  confidence: number;
+  section?: PaperSection;
+}
+
+// Everything in the graph, as read back for export
+export interface GraphSnapshot {
+  papers: StoredPaper[];
+  concepts: Array<StoredConcept & { description: string }>;
+  methods: Array<{ id: string; name: string; description?: string }>;
+  datasets: Array<{ id: string } & Omit<Dataset, 'section' | 'extraction_id'>>;
+  metrics: Array<{ id: string } & Omit<Metric, 'section' | 'extraction_id'>>;
+  paperConcepts: Array<{
+    paper_id: string;
+    concept_id: string;
+    relationship: string;
+    confidence: number;
+    section?: PaperSection;
+    extraction_id?: string | null;
+    reviewed_by?: string | null;
+  }>;
+  relationships: Array<Relationship & { paper_id: string; target_concept_id: string | null }>;
+  paperMethods: Array<PaperMethodLink & { paper_id: string; method_id: string }>;
+  paperDatasets: Array<{ paper_id: string; dataset_id: string; section?: PaperSection; extraction_id?: string | null }>;
+  paperMetrics: Array<{ paper_id: string; metric_id: string; section?: PaperSection; extraction_id?: string | null }>;
+  paperRelationships: PaperRelationship[];
 }
 
 export interface ExtractionResult {
@@ -53,6 +227,76 @@ export interface ExtractionResult {
   datasets: Dataset[];
   metrics: Metric[];
   relationships: Relationship[];
+  // The LLM calls behind it, failed ones included; not kept in job checkpoints
+  calls?: ExtractionCall[];
+  // Entities too few self-consistency samples agreed on, for the review queue
+  unconfirmed?: ReviewCandidate[];
+}
+
+/**
+ * One LLM call made by ExtractionAgent, with what was sent, what came back and
+ * how long it took. Entities extracted from it carry its id as `extraction_id`.
+ */
+export interface ExtractionCall {
+  id: string;
+  section: PaperSection;
+  provider: string;
+  // As reported by the provider, else the configured model
+  model: string;
+  temperature: number;
+  max_tokens: number;
+  prompt_version: string;
+  request: LlmRequest;
+  // Raw completion text; null when the call itself failed
+  response: string | null;
+  // Why the call, or parsing its response, failed
+  error: string | null;
+  // Including retries and rate-limit waits
+  latency_ms: number;
+  usage: LlmUsage | null;
+  created_at: string;
+}
+
+// An extraction call as stored for a paper
+export interface ExtractionRecord extends ExtractionCall {
+  paper_id: string;
+  run_id: string | null;
+}
+
+export type PipelineStage = 'fetched' | 'extracted' | 'validated' | 'stored' | 'analyzed';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface PipelineRun {
+  id: string;
+  mode: string;
+  status: 'running' | 'completed' | 'failed';
+  config: Record<string, unknown>;
+  started_at: string;
+  finished_at: string | null;
+}
+
+// Where incremental sync left off for one domain profile
+export interface SyncState {
+  profile: string;
+  // Newest arXiv submission date seen; the next sync searches submissions from here
+  high_water_mark: string;
+  // Start of the last sync that finished cleanly; revisions are searched from here
+  last_synced_at: string;
+}
+
+// One paper's progress within a run; `stage` is the last stage that completed
+export interface PaperJob {
+  run_id: string;
+  arxiv_id: string;
+  paper_id: string | null;
+  stage: PipelineStage | null;
+  status: JobStatus;
+  attempts: number;
+  last_error: string | null;
+  // Extraction carried between stages so a resumed job need not call the LLM again
+  extraction: ExtractionResult | null;
+  updated_at: string;
 }
 
 export interface ValidationResult {
@@ -60,6 +304,38 @@ export interface ValidationResult {
   confidence: number;
   issues: string[];
   extraction: ExtractionResult;
+  // Concepts and relationships left out of `extraction`, with the checks they failed
+  rejected: ReviewCandidate[];
+  // LLM calls of the entailment check, failed ones included
+  calls?: ExtractionCall[];
+}
+
+export type ReviewKind = 'concept' | 'relationship' | 'method';
+
+export type ReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+// An extracted entity kept out of the graph, and why
+export interface ReviewCandidate {
+  kind: ReviewKind;
+  entity: Concept | Relationship | Method;
+  reasons: string[];
+}
+
+// A candidate queued for review, and the reviewer's decision once made
+export interface ReviewItem extends ReviewCandidate {
+  id: string;
+  paper_id: string;
+  arxiv_id: string;
+  status: ReviewStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface ReviewFilter {
+  status?: ReviewStatus;
+  kind?: ReviewKind;
+  paperId?: string;
 }
 
 export interface DatabaseStats {
@@ -70,3 +346,69 @@ export interface DatabaseStats {
   datasets: number;
   metrics: number;
 }
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  jsonMode?: boolean;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string;
+  // Token counts, when the provider reports them
+  usage?: LlmUsage;
+}
+
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LlmProviderConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly config: LlmProviderConfig;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+// A paper on the other end of a citation, with whatever the citation source knows about it
+export interface CitedPaper {
+  arxiv_id: string;
+  title: string;
+  abstract?: string;
+  published_date?: string;
+}
+
+export interface CitationProvider {
+  readonly name: string;
+  // Papers the given paper cites; only those with an arXiv ID
+  getReferences(arxivId: string): Promise<CitedPaper[]>;
+  // Papers citing the given paper, up to `limit`; only those with an arXiv ID
+  getCitations(arxivId: string, limit: number): Promise<CitedPaper[]>;
+}
+
+export type EmbeddingKind = 'paper' | 'concept';
+
+// An entity near a query vector, by cosine similarity
+export interface SimilarityHit {
+  id: string;
+  score: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Vectors from different models are never compared; stored embeddings are keyed by it
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
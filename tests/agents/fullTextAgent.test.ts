@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FullTextAgent } from '../../src/agents/fullTextAgent.js';
+import { ExtractionAgent } from '../../src/agents/extractionAgent.js';
+import { ScriptedProvider } from '../../src/llm/scriptedProvider.js';
+import { loadDomainProfile } from '../../src/domain/domainProfile.js';
+import type { Paper } from '../../src/types.js';
+
+const paper: Paper = {
+  arxiv_id: '2308.04079',
+  title: '3D Gaussian Splatting for Real-Time Radiance Field Rendering',
+  authors: [],
+  abstract: 'We introduce 3D Gaussian Splatting for real-time rendering.',
+  published_date: '2023-08-08T07:05:50Z',
+  pdf_url: 'https://arxiv.org/pdf/2308.04079',
+  categories: ['cs.GR']
+};
+
+// A paragraph of about 1200 characters, wrapped into lines like PDF text
+function paragraph(n: number): string {
+  const sentences = Array.from({ length: 24 }, (_, i) => `Paragraph ${n} sentence ${i} optimizes anisotropic Gaussians.`);
+  const lines: string[] = [];
+  for (let i = 0; i < sentences.length; i += 2) lines.push(sentences.slice(i, i + 2).join(' '));
+  return lines.join('\n');
+}
+
+test('keeps line and paragraph breaks of a section, joining hyphenated words', () => {
+  const text = ['1 Introduction', 'We render radiance', 'fields in real-', 'time.', '', 'A second   paragraph.', '2 Method', 'Splatting.'].join('\n');
+  const sections = new FullTextAgent().splitIntoSections(text);
+
+  assert.deepEqual(sections, [
+    { section: 'introduction', text: 'We render radiance\nfields in realtime.\n\nA second paragraph.' },
+    { section: 'method', text: 'Splatting.' }
+  ]);
+});
+
+test('extracts a long section in parts cut at paragraph breaks', async () => {
+  const paragraphs = Array.from({ length: 16 }, (_, n) => paragraph(n));
+  const [method] = new FullTextAgent().splitIntoSections(['3 Method', paragraphs.join('\n\n')].join('\n'));
+  const llm = new ScriptedProvider([{
+    response: {
+      concepts: [],
+      methods: [],
+      datasets: [],
+      metrics: [],
+      // Runs across a line break of the section text
+      relationships: [{
+        relationship_type: 'uses',
+        target_concept: 'anisotropic Gaussians',
+        evidence: 'sentence 1 optimizes anisotropic Gaussians. Paragraph 0 sentence 2',
+        confidence: 0.9
+      }]
+    }
+  }]);
+
+  const result = await new ExtractionAgent(llm, loadDomainProfile()).extractEntitiesFromSections(paper, [method]);
+
+  const prompts = llm.calls.slice(1).map(request => request.messages[0].content);
+  assert.equal(prompts.length, 2);
+  for (const text of paragraphs) {
+    assert.equal(prompts.filter(prompt => prompt.includes(text)).length, 1);
+  }
+  assert.ok(result.relationships.some(rel => rel.section === 'method'));
+});
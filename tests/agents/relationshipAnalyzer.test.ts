@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGraphStore } from '../../src/database/graphStore.js';
+import { RelationshipAnalyzer } from '../../src/agents/relationshipAnalyzer.js';
+import type { GraphStore } from '../../src/database/graphStore.js';
+import type { Relationship } from '../../src/types.js';
+
+async function addPaper(
+  store: GraphStore,
+  arxivId: string,
+  published: string,
+  relationships: Array<[Relationship['relationship_type'], string]>
+): Promise<string> {
+  const id = await store.insertPaper({
+    arxiv_id: arxivId,
+    title: arxivId,
+    authors: [],
+    abstract: '',
+    published_date: published,
+    pdf_url: `https://arxiv.org/pdf/${arxivId}`,
+    categories: ['cs.CV']
+  });
+  for (const [type, target] of relationships) {
+    await store.insertRelationship(id, { relationship_type: type, target_concept: target, evidence: `${type} ${target}`, confidence: 1 });
+  }
+  return id;
+}
+
+test('links a claim about NeRF to the paper that introduced NeRF, not to its variants', async () => {
+  const store = await createGraphStore('memory:');
+  const nerf = await addPaper(store, '2003.08934', '2020-03-19T00:00:00Z', [['introduces', 'Neural Radiance Fields (NeRF)']]);
+  const mipNerf = await addPaper(store, '2103.13415', '2021-03-24T00:00:00Z', [['introduces', 'Mip-NeRF']]);
+  const nerfW = await addPaper(store, '2008.02268', '2020-08-05T00:00:00Z', [['introduces', 'NeRF-W']]);
+  const later = await addPaper(store, '2201.00001', '2022-01-01T00:00:00Z', [['improves_on', 'NeRF'], ['compares', 'Mip-NeRF']]);
+
+  await new RelationshipAnalyzer().analyzeGraph(store);
+
+  const edges = (await store.listPaperRelationships())
+    .map(edge => [edge.source_paper_id, edge.relationship_type, edge.target_paper_id])
+    .sort();
+  assert.deepEqual(edges, [
+    [later, 'compares', mipNerf],
+    [later, 'improves_on', nerf]
+  ].sort());
+  assert.ok(!edges.some(([, , target]) => target === nerfW));
+});
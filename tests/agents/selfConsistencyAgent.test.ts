@@ -0,0 +1,123 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { isMajority, SelfConsistencyAgent } from '../../src/agents/selfConsistencyAgent.js';
+import { ScriptedProvider } from '../../src/llm/scriptedProvider.js';
+import { loadDomainProfile } from '../../src/domain/domainProfile.js';
+import { loadPromptTemplate } from '../../src/prompts/promptTemplate.js';
+import type { Paper } from '../../src/types.js';
+
+const paper: Paper = {
+  arxiv_id: '2308.04079',
+  title: '3D Gaussian Splatting for Real-Time Radiance Field Rendering',
+  authors: [],
+  abstract: 'We introduce 3D Gaussian Splatting. It renders faster than NeRF on Mip-NeRF 360 and uses spherical harmonics.',
+  published_date: '2023-08-08T07:05:50Z',
+  pdf_url: 'https://arxiv.org/pdf/2308.04079',
+  categories: ['cs.GR']
+};
+
+function concept(name: string, confidence = 0.8) {
+  return { name, category: 'method', description: `${name} (${confidence})`, confidence };
+}
+
+function relationship(type: string, target: string) {
+  return { relationship_type: type, target_concept: target, evidence: 'It renders faster than NeRF', confidence: 0.9 };
+}
+
+function sample(entities: { concepts?: object[]; relationships?: object[]; datasets?: object[] }) {
+  return { response: { concepts: [], methods: [], datasets: [], metrics: [], relationships: [], ...entities } };
+}
+
+function agent(samples: number, responses: ConstructorParameters<typeof ScriptedProvider>[0]): SelfConsistencyAgent {
+  const llm = new ScriptedProvider(responses);
+  return new SelfConsistencyAgent(loadDomainProfile(), { samples, variants: [{ llm, template: loadPromptTemplate() }] });
+}
+
+test('replaces confidences with the share of samples that found each entity', async () => {
+  const log = mock.method(console, 'log', () => undefined);
+  try {
+    const result = await agent(3, [
+      sample({
+        concepts: [concept('3D Gaussian Splatting', 0.6), concept('NeRF'), concept('Spherical Harmonics')],
+        relationships: [relationship('improves_on', 'NeRF')],
+        datasets: [{ name: 'Mip-NeRF 360' }, { name: 'Tanks and Temples' }]
+      }),
+      sample({
+        concepts: [concept('3D Gaussian Splatting', 0.9), concept('NeRF')],
+        relationships: [relationship('improves_on', 'NeRF')],
+        datasets: [{ name: 'Mip-NeRF 360' }]
+      }),
+      sample({
+        concepts: [concept('3D Gaussian Splatting', 0.7)],
+        relationships: [relationship('uses', 'NeRF')],
+        datasets: [{ name: 'Mip-NeRF 360' }]
+      })
+    ]).extractEntities(paper);
+
+    // Unanimous and split entities are kept, with the most confident mention
+    assert.deepEqual(result.concepts.map(c => [c.name, c.confidence, c.description]), [
+      ['3D Gaussian Splatting', 1, '3D Gaussian Splatting (0.9)'],
+      ['NeRF', 0.667, 'NeRF (0.8)']
+    ]);
+    // Relationships align only with relationships of the same type
+    assert.deepEqual(result.relationships.map(rel => [rel.relationship_type, rel.confidence]), [['improves_on', 0.667]]);
+    assert.deepEqual(result.datasets.map(dataset => dataset.name), ['Mip-NeRF 360']);
+
+    // Entities found by a single sample go to review, or are dropped and logged
+    assert.deepEqual(
+      result.unconfirmed?.map(candidate => [candidate.kind, candidate.entity.confidence, candidate.reasons]),
+      [
+        ['concept', 0.333, ['found in 1 of 3 samples']],
+        ['relationship', 0.333, ['found in 1 of 3 samples']]
+      ]
+    );
+    assert.ok(log.mock.calls.some(call => String(call.arguments[0]).includes('found by a single sample: Tanks and Temples')));
+    assert.equal(result.calls?.length, 3);
+  } finally {
+    log.mock.restore();
+  }
+});
+
+test('votes over the samples that succeeded', async () => {
+  mock.method(console, 'log', () => undefined);
+  mock.method(console, 'error', () => undefined);
+  try {
+    const result = await agent(3, [
+      sample({ concepts: [concept('3D Gaussian Splatting')] }),
+      { response: 'not json' },
+      sample({ concepts: [concept('3D Gaussian Splatting'), concept('NeRF')] })
+    ]).extractEntities(paper);
+
+    assert.deepEqual(result.concepts.map(c => [c.name, c.confidence]), [['3D Gaussian Splatting', 1]]);
+    assert.deepEqual(result.unconfirmed?.map(candidate => candidate.reasons), [['found in 1 of 2 samples']]);
+    assert.equal(result.calls?.length, 3);
+
+    await assert.rejects(
+      agent(2, [sample({}), { response: 'not json' }]).extractEntities(paper),
+      /Only 1 of 2 samples of 2308\.04079 succeeded/
+    );
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('stores an entity only when more than half of the samples found it', async () => {
+  mock.method(console, 'log', () => undefined);
+  try {
+    const result = await agent(4, [
+      sample({ concepts: [concept('3D Gaussian Splatting'), concept('NeRF')] }),
+      sample({ concepts: [concept('3D Gaussian Splatting'), concept('NeRF')] }),
+      sample({ concepts: [concept('3D Gaussian Splatting')] }),
+      sample({})
+    ]).extractEntities(paper);
+
+    const shares = new Map(result.concepts.map(c => [c.name, c.confidence]));
+    assert.equal(shares.get('3D Gaussian Splatting'), 0.75);
+    assert.equal(shares.get('NeRF'), 0.5);
+    assert.equal(isMajority(shares.get('3D Gaussian Splatting')!), true);
+    assert.equal(isMajority(shares.get('NeRF')!), false);
+    assert.equal(isMajority(0.667), true);
+  } finally {
+    mock.restoreAll();
+  }
+});
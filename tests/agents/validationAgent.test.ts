@@ -0,0 +1,104 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ENTAILMENT_PROMPT_VERSION, ValidationAgent } from '../../src/agents/validationAgent.js';
+import { ScriptedProvider } from '../../src/llm/scriptedProvider.js';
+import type { ExtractionResult, Paper, Relationship } from '../../src/types.js';
+
+const paper: Paper = {
+  arxiv_id: '2308.04079',
+  title: '3D Gaussian Splatting for Real-Time Radiance Field Rendering',
+  authors: [],
+  abstract: 'We introduce 3D Gaussian Splatting, which renders faster than NeRF. ' +
+    'Gaussians are initialized from SfM points and colored with spherical harmonics.',
+  published_date: '2023-08-08T07:05:50Z',
+  pdf_url: 'https://arxiv.org/pdf/2308.04079',
+  categories: ['cs.GR']
+};
+
+function relationship(type: Relationship['relationship_type'], target: string, evidence: string): Relationship {
+  return { relationship_type: type, target_concept: target, evidence, confidence: 0.9 };
+}
+
+function extraction(relationships: Relationship[]): ExtractionResult {
+  return {
+    concepts: [{ name: '3D Gaussian Splatting', category: 'method', description: '', confidence: 0.9 }],
+    methods: [],
+    datasets: [],
+    metrics: [],
+    relationships
+  };
+}
+
+test('reads the verdict and rationale of the entailment check', async () => {
+  mock.method(console, 'log', () => undefined);
+  try {
+    const llm = new ScriptedProvider([
+      { match: '"NeRF"', response: 'Here is my answer: {"verdict": " Supported", "rationale": " It says faster than NeRF. "}' },
+      { match: '"SfM"', response: { verdict: 'unclear' } }
+    ]);
+    const result = await new ValidationAgent(llm).validateExtraction(extraction([
+      relationship('improves_on', 'NeRF', 'renders faster than NeRF'),
+      relationship('uses', 'SfM', 'initialized from SfM points')
+    ]), paper);
+
+    assert.deepEqual(
+      result.extraction.relationships.map(rel => [rel.target_concept, rel.entailment_verdict, rel.entailment_rationale]),
+      [['NeRF', 'supported', 'It says faster than NeRF.'], ['SfM', 'unclear', null]]
+    );
+    assert.deepEqual(result.extraction.relationships.map(rel => rel.entailment_id), result.calls?.map(call => call.id));
+    assert.ok(result.calls?.every(call => call.prompt_version === ENTAILMENT_PROMPT_VERSION));
+    assert.deepEqual(result.rejected, []);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('rejects relationships whose evidence does not support them', async () => {
+  mock.method(console, 'log', () => undefined);
+  try {
+    const llm = new ScriptedProvider([
+      { match: '"NeRF"', response: { verdict: 'not_supported', rationale: 'The quote compares speed only.' } }
+    ]);
+    const result = await new ValidationAgent(llm).validateExtraction(extraction([
+      relationship('extends', 'NeRF', 'renders faster than NeRF')
+    ]), paper);
+
+    assert.deepEqual(result.extraction.relationships, []);
+    assert.equal(result.rejected.length, 1);
+    assert.equal((result.rejected[0].entity as Relationship).entailment_verdict, 'not_supported');
+    assert.deepEqual(result.rejected[0].reasons, ['evidence does not support extends "NeRF": The quote compares speed only.']);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('keeps relationships whose check failed as unclear, saying why', async () => {
+  mock.method(console, 'log', () => undefined);
+  mock.method(console, 'error', () => undefined);
+  try {
+    // Prompts about other targets match nothing, so the provider throws
+    const llm = new ScriptedProvider([
+      { match: '"NeRF"', response: { verdict: 'maybe', rationale: 'Hard to say.' } }
+    ]);
+    const result = await new ValidationAgent(llm).validateExtraction(extraction([
+      relationship('improves_on', 'NeRF', 'renders faster than NeRF'),
+      relationship('uses', 'spherical harmonics', 'colored with spherical harmonics')
+    ]), paper);
+
+    assert.deepEqual(
+      result.extraction.relationships.map(rel => [rel.target_concept, rel.entailment_verdict, rel.entailment_rationale]),
+      [
+        ['NeRF', 'unclear', 'entailment check failed: Unknown entailment verdict "maybe"'],
+        ['spherical harmonics', 'unclear', 'entailment check failed: ScriptedProvider has no response matching this prompt']
+      ]
+    );
+    // Both calls are kept as records, with their errors
+    assert.deepEqual(result.extraction.relationships.map(rel => rel.entailment_id), result.calls?.map(call => call.id));
+    assert.deepEqual(result.calls?.map(call => call.error), [
+      'Unknown entailment verdict "maybe"',
+      'ScriptedProvider has no response matching this prompt'
+    ]);
+  } finally {
+    mock.restoreAll();
+  }
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeArxivId, parseArxivId } from '../../src/arxiv/arxivId.js';
+
+test('normalizes every spelling of a new-style ID to the base ID', () => {
+  for (const raw of [
+    '2308.04079',
+    '2308.04079v2',
+    ' 2308.04079v12 ',
+    'arXiv:2308.04079v1',
+    'ARXIV:2308.04079',
+    'http://arxiv.org/abs/2308.04079v1',
+    'https://arxiv.org/abs/2308.04079',
+    'https://export.arxiv.org/abs/2308.04079v3',
+    'https://arxiv.org/pdf/2308.04079v1.pdf',
+    'https://arxiv.org/pdf/2308.04079'
+  ]) {
+    assert.equal(normalizeArxivId(raw), '2308.04079', raw);
+  }
+});
+
+test('keeps the archive of old-style IDs', () => {
+  assert.equal(normalizeArxivId('hep-th/9901001v2'), 'hep-th/9901001');
+  assert.equal(normalizeArxivId('http://arxiv.org/abs/math.GT/0309136v1'), 'math.GT/0309136');
+  assert.equal(normalizeArxivId('arXiv:cond-mat/0011267'), 'cond-mat/0011267');
+});
+
+test('splits off the version', () => {
+  assert.deepEqual(parseArxivId('http://arxiv.org/abs/2003.08934v2'), { id: '2003.08934', version: 2 });
+  assert.deepEqual(parseArxivId('2003.08934'), { id: '2003.08934', version: null });
+  assert.deepEqual(parseArxivId('solv-int/9901001v10'), { id: 'solv-int/9901001', version: 10 });
+});
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { ArxivApiError, parseArxivFeed } from '../../src/arxiv/atomParser.js';
+
+// Recorded arXiv API responses, read relative to the repository root
+function fixture(name: string): string {
+  return readFileSync(`tests/fixtures/arxiv/${name}`, 'utf-8');
+}
+
+test('reads opensearch totals of a search page', () => {
+  const feed = parseArxivFeed(fixture('search-results.xml'));
+  assert.equal(feed.totalResults, 1742);
+  assert.equal(feed.startIndex, 0);
+  assert.equal(feed.itemsPerPage, 3);
+});
+
+test('reads entries with their metadata, versions stripped from the ID', () => {
+  const [gaussian, nerf] = parseArxivFeed(fixture('search-results.xml')).entries;
+
+  assert.equal(gaussian.arxiv_id, '2308.04079');
+  assert.equal(gaussian.version, 1);
+  assert.equal(gaussian.title, '3D Gaussian Splatting for Real-Time Radiance Field Rendering');
+  assert.match(gaussian.abstract, /^Radiance Field methods .* costly to train and render\.$/);
+  assert.deepEqual(gaussian.authors, ['Bernhard Kerbl', 'Georgios Kopanas']);
+  assert.equal(gaussian.published_date, '2023-08-08T07:05:50Z');
+  assert.equal(gaussian.pdf_url, 'http://arxiv.org/pdf/2308.04079v1');
+  assert.deepEqual(gaussian.categories, ['cs.GR', 'cs.CV']);
+  assert.equal(gaussian.primary_category, 'cs.GR');
+  assert.equal(gaussian.journal_ref, 'ACM Transactions on Graphics 42(4) 2023');
+  assert.equal(gaussian.comment, 'https://repo-sam.inria.fr/fungraph/3d-gaussian-splatting/');
+  assert.equal(gaussian.doi, null);
+
+  assert.equal(nerf.arxiv_id, '2003.08934');
+  assert.equal(nerf.version, 2);
+  assert.equal(nerf.updated_date, '2020-08-03T17:49:33Z');
+  assert.equal(nerf.doi, '10.1145/3503250');
+  assert.deepEqual(nerf.links?.map(link => link.title ?? link.rel), ['doi', 'alternate', 'pdf']);
+});
+
+test('decodes character references and keeps CDATA verbatim', () => {
+  const [gaussian, nerf] = parseArxivFeed(fixture('search-results.xml')).entries;
+
+  assert.deepEqual(gaussian.author_details?.[0], {
+    name: 'Bernhard Kerbl',
+    affiliations: ["Inria, Université Côte d'Azur"]
+  });
+  assert.deepEqual(gaussian.author_details?.[1], { name: 'Georgios Kopanas', affiliations: [] });
+  assert.match(nerf.abstract, /\(x, y, z\) -> \(r, g, b, sigma\) using a sparse set of input views & poses\.$/);
+});
+
+test('skips entries without an abstract and says why', () => {
+  const feed = parseArxivFeed(fixture('search-results.xml'));
+  assert.equal(feed.entries.length, 2);
+  assert.deepEqual(feed.skipped, ['Entry http://arxiv.org/abs/2401.00001v1 has no abstract']);
+});
+
+test('matches elements by namespace, not by prefix', () => {
+  const feed = parseArxivFeed(fixture('prefixed.xml'));
+  assert.equal(feed.totalResults, 1);
+  assert.equal(feed.itemsPerPage, 10);
+
+  const [paper] = feed.entries;
+  assert.equal(paper.arxiv_id, 'hep-th/9901001');
+  assert.equal(paper.version, 3);
+  assert.equal(paper.title, 'Strings & Branes');
+  assert.equal(paper.abstract, 'A summary with <markup> spelled as entities.');
+  assert.equal(paper.primary_category, 'hep-th');
+  assert.equal(paper.pdf_url, 'https://arxiv.org/pdf/hep-th/9901001');
+});
+
+test('throws ArxivApiError for an error entry', () => {
+  assert.throws(
+    () => parseArxivFeed(fixture('api-error.xml')),
+    (error: unknown) => error instanceof ArxivApiError && error.message === 'arXiv API error: incorrect id format for 1234.12345'
+  );
+});
+
+test('reads an empty result page', () => {
+  const feed = parseArxivFeed(fixture('empty.xml'));
+  assert.equal(feed.totalResults, 0);
+  assert.equal(feed.itemsPerPage, 10);
+  assert.deepEqual(feed.entries, []);
+  assert.deepEqual(feed.skipped, []);
+});
+
+test('rejects documents that are not an Atom feed', () => {
+  assert.throws(() => parseArxivFeed('<rss version="2.0"><channel/></rss>'), /Expected an Atom feed, got <rss>/);
+  assert.throws(() => parseArxivFeed('<feed xmlns="http://www.w3.org/2005/Atom"><entry></feed>'), /Unexpected <\/feed>/);
+});
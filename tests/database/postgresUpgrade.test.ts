@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import pg from 'pg';
+import { PostgresGraphStore } from '../../src/database/postgresStore.js';
+
+// An empty PostgreSQL database with pgvector available; the test drops and recreates its public schema
+const url = process.env.TEST_DATABASE_URL;
+
+const PAPER = '7d4f3b0e-0000-4000-8000-000000000001';
+const CONCEPT = '7d4f3b0e-0000-4000-8000-000000000002';
+
+test('upgrades a database created from the first schema', { skip: !url && 'TEST_DATABASE_URL is not set' }, async () => {
+  const client = new pg.Client({ connectionString: url });
+  await client.connect();
+  try {
+    await client.query('DROP SCHEMA public CASCADE; CREATE SCHEMA public;');
+    await client.query(readFileSync('tests/fixtures/database/baseline-schema.sql', 'utf-8'));
+    await client.query(`
+      INSERT INTO papers (id, arxiv_id, title, authors, abstract, published_date)
+      VALUES ('${PAPER}', '2308.04079', '3D Gaussian Splatting', '{Kerbl}', 'Radiance fields.', '2023-08-08');
+      INSERT INTO concepts (id, name, category) VALUES ('${CONCEPT}', 'Gaussian Splatting', 'method');
+      INSERT INTO paper_concepts (paper_id, concept_id, relationship_type, confidence) VALUES ('${PAPER}', '${CONCEPT}', 'introduces', 0.9);
+      INSERT INTO relationships (source_type, source_id, target_type, target_id, relationship_type, confidence, evidence) VALUES
+        ('paper', '${PAPER}', 'concept', '${CONCEPT}', 'introduces', 0.9, 'We introduce Gaussian splatting.'),
+        ('paper', '${PAPER}', 'concept', 'NeRF', 'improves_on', 0.8, 'Faster than NeRF.'),
+        ('concept', '${CONCEPT}', 'concept', 'NeRF', 'extends', 0.5, NULL);
+    `);
+
+    // Twice: the upgrade must also leave an up-to-date database alone
+    const schema = readFileSync('src/supabase/schema.sql', 'utf-8');
+    await client.query(schema);
+    await client.query(schema);
+  } finally {
+    await client.end();
+  }
+
+  const store = new PostgresGraphStore(url!);
+  try {
+    const paper = await store.findPaperByArxivId('2308.04079');
+    assert.equal(paper?.id, PAPER);
+    assert.deepEqual(paper?.categories, []);
+    assert.equal(new Date(paper!.published_date).toISOString(), '2023-08-08T00:00:00.000Z');
+
+    const links = await store.getPaperConceptLinks(PAPER);
+    assert.deepEqual(links.map(link => [link.name, link.relationship, link.confidence]), [['Gaussian Splatting', 'introduces', 0.9]]);
+
+    const relationships = await store.getPaperRelationships(PAPER);
+    assert.deepEqual(
+      relationships.map(rel => [rel.relationship_type, rel.target_concept, rel.confidence]).sort(),
+      [['improves_on', 'NeRF', 0.8], ['introduces', 'Gaussian Splatting', 0.9]]
+    );
+
+    // Written the way the pipeline writes now, with the relationship key in place
+    const relationship = { relationship_type: 'uses' as const, target_concept: 'SfM', evidence: 'Initialized from SfM points.', confidence: 0.9, extraction_id: null };
+    await store.insertRelationship(PAPER, relationship);
+    await store.insertRelationship(PAPER, relationship);
+    const paperId = await store.insertPaper({
+      arxiv_id: '2003.08934',
+      title: 'NeRF',
+      authors: [],
+      abstract: '',
+      published_date: '2020-03-19T17:57:23Z',
+      pdf_url: 'https://arxiv.org/pdf/2003.08934',
+      categories: ['cs.CV']
+    });
+    assert.equal((await store.getPaperRelationships(PAPER)).length, 3);
+    assert.deepEqual((await store.findPaperByArxivId('2003.08934'))?.categories, ['cs.CV']);
+    assert.equal((await store.listPaperVersions(paperId)).length, 1);
+  } finally {
+    await store.close();
+  }
+});
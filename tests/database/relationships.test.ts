@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { createGraphStore } from '../../src/database/graphStore.js';
+import type { GraphStore } from '../../src/database/graphStore.js';
+import type { Relationship } from '../../src/types.js';
+
+function relationship(target: string, extractionId: string | null = 'a4f5c2de-1111-4c1e-9b1a-000000000001'): Relationship {
+  return { relationship_type: 'improves_on', target_concept: target, evidence: `We improve on ${target}.`, confidence: 0.9, extraction_id: extractionId };
+}
+
+async function addPaper(store: GraphStore): Promise<string> {
+  return store.insertPaper({
+    arxiv_id: '2308.04079',
+    title: '3D Gaussian Splatting for Real-Time Radiance Field Rendering',
+    authors: [],
+    abstract: '',
+    published_date: '2023-08-08T07:05:50Z',
+    pdf_url: 'https://arxiv.org/pdf/2308.04079',
+    categories: ['cs.GR']
+  });
+}
+
+for (const url of ['memory:', 'sqlite::memory:']) {
+  test(`${url} stores a relationship once per extraction call`, async () => {
+    const store = await createGraphStore(url);
+    const paperId = await addPaper(store);
+
+    await store.insertRelationship(paperId, relationship('NeRF'));
+    await store.insertRelationship(paperId, relationship('NeRF'));
+    await store.insertRelationship(paperId, relationship('NeRF', null));
+    await store.insertRelationship(paperId, relationship('NeRF', null));
+    await store.insertRelationship(paperId, relationship('NeRF', 'a4f5c2de-1111-4c1e-9b1a-000000000002'));
+
+    assert.equal((await store.getPaperRelationships(paperId)).length, 3);
+    await store.close();
+  });
+
+  test(`${url} drops relationships a concept merge would repeat`, async () => {
+    const store = await createGraphStore(url);
+    const paperId = await addPaper(store);
+    const { id: nerf } = await store.insertConcept({ name: 'NeRF', category: 'method', description: '', confidence: 1 });
+    const { id: lowercase } = await store.insertConcept({ name: 'nerf', category: 'method', description: '', confidence: 1 });
+    const { id: spelled } = await store.insertConcept({ name: 'Neural Radiance Fields', category: 'method', description: '', confidence: 1 });
+
+    await store.insertRelationship(paperId, relationship('NeRF'), nerf);
+    await store.insertRelationship(paperId, relationship('nerf'), lowercase);
+    await store.insertRelationship(paperId, relationship('Neural Radiance Fields'), spelled);
+    await store.insertRelationship(paperId, relationship('Neural Radiance Fields', null), spelled);
+
+    await store.mergeConcepts(lowercase, nerf);
+    await store.mergeConcepts(spelled, nerf);
+
+    const stored = await store.getPaperRelationships(paperId);
+    assert.deepEqual(
+      stored.map(rel => [rel.target_concept, rel.extraction_id, rel.evidence]).sort(),
+      [
+        ['NeRF', null, 'We improve on Neural Radiance Fields.'],
+        ['NeRF', 'a4f5c2de-1111-4c1e-9b1a-000000000001', 'We improve on NeRF.']
+      ]
+    );
+    await store.close();
+  });
+}
+
+test('drops duplicate relationships of a SQLite database created before the key', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'graph-'));
+  const file = join(dir, 'graph.db');
+  try {
+    const store = await createGraphStore(`sqlite:${file}`);
+    const paperId = await addPaper(store);
+    await store.close();
+
+    const raw = new Database(file);
+    raw.exec('DROP INDEX idx_rel_unique');
+    const insert = raw.prepare(
+      `INSERT INTO relationships (id, source_paper_id, relationship_type, target_concept, evidence, extraction_id)
+       VALUES (?, ?, 'improves_on', 'NeRF', 'We improve on NeRF.', ?)`
+    );
+    insert.run('r1', paperId, 'x1');
+    insert.run('r2', paperId, 'x1');
+    insert.run('r3', paperId, 'x2');
+    raw.close();
+
+    const reopened = await createGraphStore(`sqlite:${file}`);
+    assert.deepEqual((await reopened.getPaperRelationships(paperId)).map(rel => rel.extraction_id).sort(), ['x1', 'x2']);
+    await reopened.insertRelationship(paperId, relationship('NeRF', 'x1'));
+    assert.equal((await reopened.getPaperRelationships(paperId)).length, 2);
+    await reopened.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,59 @@
+-- The first version of src/supabase/schema.sql, up to the ALTER TABLE statements at its end,
+-- which referenced a papers.categories column it never created and failed
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- Papers table
+CREATE TABLE IF NOT EXISTS papers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    arxiv_id VARCHAR(50) UNIQUE NOT NULL,
+    title TEXT NOT NULL,
+    authors TEXT[] NOT NULL,
+    abstract TEXT,
+    published_date DATE,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Concepts table
+CREATE TABLE IF NOT EXISTS concepts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) UNIQUE NOT NULL,
+    category VARCHAR(100),
+    description TEXT,
+    frequency INTEGER DEFAULT 1,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Relationships table
+CREATE TABLE IF NOT EXISTS relationships (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_type VARCHAR(50) NOT NULL,
+    source_id UUID NOT NULL,
+    target_type VARCHAR(50) NOT NULL,
+    target_id VARCHAR(255) NOT NULL,
+    relationship_type VARCHAR(100) NOT NULL,
+    confidence FLOAT DEFAULT 1.0,
+    evidence TEXT,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(source_id, target_id, relationship_type)
+);
+
+-- Paper-Concept linking table
+CREATE TABLE IF NOT EXISTS paper_concepts (
+    paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
+    concept_id UUID REFERENCES concepts(id) ON DELETE CASCADE,
+    relationship_type VARCHAR(50) NOT NULL,
+    confidence FLOAT DEFAULT 1.0,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (paper_id, concept_id, relationship_type)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_papers_arxiv ON papers(arxiv_id);
+CREATE INDEX IF NOT EXISTS idx_concepts_name ON concepts(name);
+CREATE INDEX IF NOT EXISTS idx_rel_source ON relationships(source_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_rel_target ON relationships(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_pc_paper ON paper_concepts(paper_id);
+CREATE INDEX IF NOT EXISTS idx_pc_concept ON paper_concepts(concept_id);
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLlmProvider, readRateLimits } from '../../src/llm/providerFactory.js';
+
+test('applies LLM_MODEL, LLM_TEMPERATURE and LLM_MAX_TOKENS to the provider', () => {
+  const llm = createLlmProvider({ LLM_PROVIDER: 'scripted', LLM_MODEL: 'm', LLM_TEMPERATURE: '0.3', LLM_MAX_TOKENS: '2048' });
+  assert.equal(llm.name, 'scripted');
+  assert.deepEqual(llm.config, { model: 'm', temperature: 0.3, maxTokens: 2048 });
+});
+
+test('accepts the ends of the temperature range', () => {
+  assert.equal(createLlmProvider({ LLM_PROVIDER: 'scripted', LLM_TEMPERATURE: '0' }).config.temperature, 0);
+  assert.equal(createLlmProvider({ LLM_PROVIDER: 'scripted', LLM_TEMPERATURE: '2' }).config.temperature, 2);
+});
+
+test('rejects a malformed or out-of-range LLM_TEMPERATURE', () => {
+  for (const value of ['abc', '0,2', '-0.1', '2.5', 'Infinity']) {
+    assert.throws(
+      () => createLlmProvider({ LLM_PROVIDER: 'scripted', LLM_TEMPERATURE: value }),
+      { message: `LLM_TEMPERATURE must be a number between 0 and 2, got "${value}"` }
+    );
+  }
+});
+
+test('rejects an LLM_MAX_TOKENS that is not a positive integer', () => {
+  for (const value of ['4k', '0', '-100', '1.5']) {
+    assert.throws(
+      () => createLlmProvider({ LLM_PROVIDER: 'scripted', LLM_MAX_TOKENS: value }),
+      { message: `LLM_MAX_TOKENS must be a positive integer, got "${value}"` }
+    );
+  }
+});
+
+test('reads rate limits, rejecting ones that are not positive integers', () => {
+  assert.deepEqual(readRateLimits({}), {});
+  assert.deepEqual(readRateLimits({ LLM_RPM: '60', LLM_TPM: '500000' }), { requestsPerMinute: 60, tokensPerMinute: 500000 });
+  assert.throws(() => readRateLimits({ LLM_RPM: 'sixty' }), /LLM_RPM must be a positive integer, got "sixty"/);
+});
+
+test('rejects an unknown LLM_PROVIDER', () => {
+  assert.throws(() => createLlmProvider({ LLM_PROVIDER: 'gpt' }), /Unknown LLM_PROVIDER "gpt"/);
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScriptedProvider } from '../../src/llm/scriptedProvider.js';
+import type { LlmRequest } from '../../src/types.js';
+
+function ask(content: string): LlmRequest {
+  return { messages: [{ role: 'user', content }] };
+}
+
+test('hands out unmatched responses in order, wrapping around', async () => {
+  const llm = new ScriptedProvider(['first', 'second']);
+  const answers = [];
+  for (let i = 0; i < 3; i++) {
+    answers.push((await llm.complete(ask(`prompt ${i}`))).content);
+  }
+  assert.deepEqual(answers, ['first', 'second', 'first']);
+});
+
+test('answers prompts containing a match, serializing object responses', async () => {
+  const llm = new ScriptedProvider([
+    { match: 'QUOTE:', response: { verdict: 'supported' } },
+    'fallback'
+  ]);
+
+  assert.equal((await llm.complete(ask('QUOTE: "We improve on NeRF"'))).content, '{"verdict":"supported"}');
+  assert.equal((await llm.complete(ask('ABSTRACT: ...'))).content, 'fallback');
+  assert.equal((await llm.complete(ask('QUOTE: again'))).content, '{"verdict":"supported"}');
+});
+
+test('records every request and reports its configured model', async () => {
+  const llm = new ScriptedProvider(['ok'], { model: 'test-model', temperature: 0.7 });
+  const response = await llm.complete(ask('hello'));
+
+  assert.equal(response.model, 'test-model');
+  assert.deepEqual(llm.config, { model: 'test-model', temperature: 0.7, maxTokens: 4000 });
+  assert.deepEqual(llm.calls, [ask('hello')]);
+});
+
+test('refuses an empty script, and prompts only matched entries could answer', async () => {
+  assert.throws(() => new ScriptedProvider([]), /needs at least one response/);
+
+  const llm = new ScriptedProvider([{ match: 'QUOTE:', response: 'yes' }]);
+  await assert.rejects(llm.complete(ask('ABSTRACT: ...')), /no response matching this prompt/);
+});
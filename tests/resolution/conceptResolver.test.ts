@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConceptResolver, conceptNameSimilarity, FUZZY_THRESHOLD } from '../../src/resolution/conceptResolver.js';
+import { createGraphStore } from '../../src/database/graphStore.js';
+
+test('matches spellings of the same concept', () => {
+  for (const [a, b] of [
+    ['Neural Radiance Fields (NeRFs)', 'neural radiance field'],
+    ['NeRF', 'Neural Radiance Fields'],
+    ['3DGS', '3D Gaussian Splatting'],
+    ['Gausian Splatting', 'Gaussian Splatting'],
+    ['Multiview Stereo', 'Multi-View Stereo'],
+    ['Splatting of Gaussians', 'Splatting of the Gaussians']
+  ]) {
+    assert.ok(conceptNameSimilarity(a, b) >= FUZZY_THRESHOLD, `${a} / ${b}`);
+  }
+});
+
+test('does not match names that differ by a digit, version or short modifier', () => {
+  for (const [a, b] of [
+    ['2D Gaussian Splatting', '3D Gaussian Splatting'],
+    ['Gaussian Splatting', '4D Gaussian Splatting'],
+    ['Stable Diffusion v1', 'Stable Diffusion v2'],
+    ['ResNet-50 backbone', 'ResNet-101 backbone'],
+    ['NeRF', 'Mip-NeRF'],
+    ['NeRF', 'NeRF-W'],
+    ['SDF regularization loss term', 'UDF regularization loss term'],
+    ['Real-Time Gaussian Splatting Renderer', 'Real-Time Gaussian Splatting Rasterizer']
+  ]) {
+    assert.ok(conceptNameSimilarity(a, b) < FUZZY_THRESHOLD, `${a} / ${b}`);
+  }
+});
+
+test('keeps near-miss concepts apart when grouping duplicates', async () => {
+  const store = await createGraphStore('memory:');
+  for (const name of ['2D Gaussian Splatting', '3D Gaussian Splatting', 'Gausian Splatting', 'Gaussian Splatting']) {
+    await store.insertConcept({ name, category: 'method', description: '', confidence: 1 });
+  }
+
+  const groups = await new ConceptResolver(store).findDuplicateGroups();
+  assert.deepEqual(
+    groups.map(group => group.map(concept => concept.name).sort()),
+    [['Gausian Splatting', 'Gaussian Splatting']]
+  );
+});
+
+for (const url of ['memory:', 'sqlite::memory:']) {
+  test(`${url} resolves a concept two workers insert at once to one node`, async () => {
+    const store = await createGraphStore(url);
+    const concept = { name: 'Gaussian Splatting', category: 'method', description: '', confidence: 1 };
+
+    // Separate resolvers, like concurrent papers: neither sees the other's insert in its cache
+    const resolved = await Promise.all([new ConceptResolver(store), new ConceptResolver(store)].map(resolver => resolver.resolveConcept(concept)));
+
+    assert.equal(resolved[0].id, resolved[1].id);
+    assert.deepEqual(resolved.map(result => result.created).sort(), [false, true]);
+    // The loser got past the lookup before the winner inserted
+    assert.deepEqual(resolved.map(result => result.matchedBy).sort(), ['fuzzy', 'new']);
+    assert.equal((await store.listConcepts()).length, 1);
+    assert.deepEqual(await store.insertConcept(concept), { id: resolved[0].id, created: false });
+    await store.close();
+  });
+}
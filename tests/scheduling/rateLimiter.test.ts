@@ -0,0 +1,82 @@
+import { test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter } from '../../src/scheduling/rateLimiter.js';
+
+const T0 = Date.parse('2026-01-01T00:00:00Z');
+
+beforeEach(() => mock.timers.enable({ apis: ['setTimeout', 'Date'], now: T0 }));
+afterEach(() => mock.timers.reset());
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// Moves the fake clock forward, letting the callers it wakes run
+async function advance(ms: number): Promise<void> {
+  await flush();
+  mock.timers.tick(ms);
+  await flush();
+}
+
+// Milliseconds after T0 at which each acquire() resolved
+function startTimes(limiter: RateLimiter, costs: number[]): number[] {
+  const times: number[] = [];
+  for (const [index, tokens] of costs.entries()) {
+    limiter.acquire(tokens).then(() => { times[index] = Date.now() - T0; });
+  }
+  return times;
+}
+
+test('lets a full bucket of requests through at once, then one per refill', async () => {
+  const times = startTimes(new RateLimiter('test', { requestsPerMinute: 2 }), [0, 0, 0, 0]);
+
+  await advance(0);
+  assert.deepEqual(times, [0, 0]);
+  await advance(29999);
+  assert.deepEqual(times, [0, 0]);
+  await advance(1);
+  assert.deepEqual(times, [0, 0, 30000]);
+  await advance(30000);
+  assert.deepEqual(times, [0, 0, 30000, 60000]);
+});
+
+test('spaces request starts by minIntervalMs', async () => {
+  const times = startTimes(new RateLimiter('test', { minIntervalMs: 3000 }), [0, 0, 0]);
+  for (let i = 0; i < 3; i++) await advance(3000);
+  assert.deepEqual(times, [0, 3000, 6000]);
+});
+
+test('waits until the token bucket holds the estimated cost', async () => {
+  const times = startTimes(new RateLimiter('test', { tokensPerMinute: 1000 }), [800, 800]);
+
+  await advance(0);
+  assert.deepEqual(times, [0]);
+  // 200 tokens left, 600 more refill in 36s
+  await advance(36000);
+  assert.deepEqual(times, [0, 36000]);
+});
+
+test('charges usage above the estimate to later callers', async () => {
+  const limiter = new RateLimiter('test', { tokensPerMinute: 1000 });
+  await limiter.acquire(100);
+  limiter.recordUsage(1000, 100);
+
+  const times = startTimes(limiter, [100]);
+  // Balance is 0 and 100 tokens refill in 6s
+  await advance(5999);
+  assert.deepEqual(times, []);
+  await advance(1);
+  assert.deepEqual(times, [6000]);
+});
+
+test('holds back every caller while paused, then serves them in arrival order', async () => {
+  const limiter = new RateLimiter('test', { requestsPerMinute: 600 });
+  limiter.pause(5000);
+  const order: number[] = [];
+  const times = startTimes(limiter, [0, 0, 0]);
+  for (const caller of [0, 1, 2]) limiter.acquire().then(() => order.push(caller));
+
+  await advance(4999);
+  assert.deepEqual(times, []);
+  await advance(1);
+  assert.deepEqual(times, [5000, 5000, 5000]);
+  assert.deepEqual(order, [0, 1, 2]);
+});
@@ -0,0 +1,95 @@
+import { test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpError, parseRetryAfter, withRetry } from '../../src/scheduling/retry.js';
+import { RateLimiter } from '../../src/scheduling/rateLimiter.js';
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ['setTimeout', 'Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+  mock.method(Math, 'random', () => 0);
+  mock.method(console, 'log', () => undefined);
+});
+afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// Runs `operation` under withRetry, stepping the fake clock until it settles; returns when each attempt ran
+async function attemptTimes(operation: (attempt: number) => Promise<string>, options = {}) {
+  const start = Date.now();
+  const times: number[] = [];
+  const run = withRetry('call the service', attempt => {
+    times.push(Date.now() - start);
+    return operation(attempt);
+  }, options);
+  let outcome: { value?: string; error?: Error } | null = null;
+  run.then(value => { outcome = { value }; }, error => { outcome = { error }; });
+  while (!outcome) {
+    await flush();
+    mock.timers.tick(100);
+  }
+  return { times, outcome: outcome as { value?: string; error?: Error } };
+}
+
+test('reads Retry-After as seconds or as an HTTP date', () => {
+  assert.equal(parseRetryAfter('120'), 120000);
+  assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT'), 30000);
+  assert.equal(parseRetryAfter('Wed, 31 Dec 2025 23:00:00 GMT'), 0);
+  assert.equal(parseRetryAfter('soon'), null);
+  assert.equal(parseRetryAfter(null), null);
+});
+
+test('backs off exponentially between failed attempts', async () => {
+  const { times, outcome } = await attemptTimes(async attempt => {
+    if (attempt < 3) throw new HttpError('HTTP 503', 503);
+    return 'ok';
+  }, { baseDelayMs: 1000 });
+
+  assert.deepEqual(times, [0, 1000, 3000]);
+  assert.equal(outcome.value, 'ok');
+});
+
+test('waits as long as Retry-After says, capped at maxDelayMs', async () => {
+  const { times } = await attemptTimes(async attempt => {
+    if (attempt === 1) throw new HttpError('HTTP 429', 429, 7000);
+    if (attempt === 2) throw new HttpError('HTTP 503', 503, 120000);
+    return 'ok';
+  }, { baseDelayMs: 1000, maxDelayMs: 10000 });
+
+  assert.deepEqual(times, [0, 7000, 17000]);
+});
+
+test('pauses the limiter for every caller on a 429', async () => {
+  const limiter = new RateLimiter('test');
+  const start = Date.now();
+  const run = withRetry('call the service', async attempt => {
+    if (attempt === 1) throw new HttpError('HTTP 429', 429, 5000);
+    return 'ok';
+  }, { limiter });
+
+  await flush();
+  let otherStart: number | null = null;
+  limiter.acquire().then(() => { otherStart = Date.now() - start; });
+  mock.timers.tick(4999);
+  await flush();
+  assert.equal(otherStart, null);
+  mock.timers.tick(1);
+  await flush();
+  assert.equal(otherStart, 5000);
+  assert.equal(await run, 'ok');
+});
+
+test('does not retry client errors, and names the operation when giving up', async () => {
+  const rejected = await attemptTimes(async () => {
+    throw new HttpError('HTTP 400: bad request', 400);
+  });
+  assert.deepEqual(rejected.times, [0]);
+  assert.equal(rejected.outcome.error?.message, 'FAILED to call the service. Last error: HTTP 400: bad request');
+
+  const exhausted = await attemptTimes(async () => {
+    throw new Error('socket hang up');
+  }, { attempts: 2, baseDelayMs: 500 });
+  assert.deepEqual(exhausted.times, [0, 500]);
+  assert.equal(exhausted.outcome.error?.message, 'FAILED to call the service. Last error: socket hang up');
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkScheduler } from '../../src/scheduling/workScheduler.js';
+
+// A promise the test settles by hand
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+test('keeps at most `concurrency` items in flight and starts the next as soon as one finishes', async () => {
+  const jobs = Array.from({ length: 5 }, () => deferred<string>());
+  const started: number[] = [];
+
+  const run = new WorkScheduler(2).run(jobs, (job, index) => {
+    started.push(index);
+    return job.promise;
+  });
+
+  await flush();
+  assert.deepEqual(started, [0, 1]);
+
+  jobs[1].resolve('b');
+  await flush();
+  assert.deepEqual(started, [0, 1, 2]);
+
+  jobs[0].resolve('a');
+  jobs[2].reject(new Error('c failed'));
+  await flush();
+  assert.deepEqual(started, [0, 1, 2, 3, 4]);
+
+  jobs[3].resolve('d');
+  jobs[4].resolve('e');
+  const results = await run;
+
+  assert.deepEqual(results.map(result => result.status), ['fulfilled', 'fulfilled', 'rejected', 'fulfilled', 'fulfilled']);
+  assert.deepEqual(results.map(result => (result.status === 'fulfilled' ? result.value : (result.reason as Error).message)), ['a', 'b', 'c failed', 'd', 'e']);
+});
+
+test('runs nothing for no items and rejects a concurrency below 1', async () => {
+  assert.deepEqual(await new WorkScheduler(3).run([], async () => 1), []);
+  assert.throws(() => new WorkScheduler(0), /Concurrency must be a positive integer, got 0/);
+  assert.throws(() => new WorkScheduler(1.5), /got 1.5/);
+});